@@ -5,6 +5,9 @@
 import "./src/env.js";
 
 /** @type {import("next").NextConfig} */
-const config = {};
+const config = {
+  // tesseract.js spawns its worker script from node_modules, which breaks once bundled
+  serverExternalPackages: ["tesseract.js"],
+};
 
 export default config;
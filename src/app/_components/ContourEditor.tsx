@@ -0,0 +1,347 @@
+"use client";
+import { useState, useRef, useEffect } from "react";
+import Image from "next/image";
+import { type SectionGeometry } from "~/server/analysis/logSection";
+import { type Point } from "~/server/analysis/polygon";
+
+type Tool = "vertices" | "erase" | "hole";
+type PolygonKind = "outlines" | "holes" | "erased";
+
+interface DragTarget {
+  kind: PolygonKind;
+  polygonIndex: number;
+  vertexIndex: number;
+}
+
+interface ContourEditorProps {
+  imageUrl: string; // The original photo
+  width: number;
+  height: number;
+  initialGeometry: SectionGeometry;
+  isSubmitting: boolean;
+  onSubmit: (geometry: SectionGeometry) => void;
+  onCancel: () => void;
+}
+
+const POLYGON_STYLES: Record<PolygonKind, { stroke: string; fill: string }> = {
+  outlines: { stroke: "#00FF00", fill: "rgba(0, 255, 0, 0.1)" },
+  holes: { stroke: "#00CED1", fill: "rgba(0, 206, 209, 0.3)" },
+  erased: { stroke: "#FF0000", fill: "rgba(255, 0, 0, 0.3)" },
+};
+
+const TOOL_HINTS: Record<Tool, string> = {
+  vertices:
+    "Drag a vertex to move it, click an edge to add one, right-click or double-click a vertex to delete it",
+  erase:
+    "Click around a region to cut away from the section, double-click or click the first point to close",
+  hole: "Click around a void to subtract, double-click or click the first point to close",
+};
+
+/**
+ * Overlay the detected section outlines on the photo so they can be corrected before the
+ * properties are calculated.
+ */
+function ContourEditor({
+  imageUrl,
+  width,
+  height,
+  initialGeometry,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: ContourEditorProps) {
+  const [geometry, setGeometry] = useState<SectionGeometry>(initialGeometry);
+  const [history, setHistory] = useState<SectionGeometry[]>([]);
+  const [tool, setTool] = useState<Tool>("vertices");
+  const [draft, setDraft] = useState<Point[]>([]);
+  const [dragging, setDragging] = useState<DragTarget | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  // Handles stay the same size on screen whatever the image resolution
+  const handleRadius = Math.max(width, height) / 200;
+
+  // Escape abandons the polygon being drawn, Backspace removes its last point
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setDraft([]);
+      if (e.key === "Backspace") setDraft((prev) => prev.slice(0, -1));
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // Convert a pointer position to image pixels
+  const toImagePoint = (e: React.PointerEvent | React.MouseEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * width,
+      y: ((e.clientY - rect.top) / rect.height) * height,
+    };
+  };
+
+  // Keep a snapshot so every edit can be undone
+  const commit = (next: SectionGeometry) => {
+    setHistory((prev) => [...prev, geometry]);
+    setGeometry(next);
+  };
+
+  const handleUndo = () => {
+    const previous = history[history.length - 1];
+    if (!previous) return;
+    setHistory((prev) => prev.slice(0, -1));
+    setGeometry(previous);
+  };
+
+  const updatePolygon = (
+    source: SectionGeometry,
+    kind: PolygonKind,
+    polygonIndex: number,
+    update: (points: Point[]) => Point[],
+  ): SectionGeometry => ({
+    ...source,
+    [kind]: source[kind].map((points, i) =>
+      i === polygonIndex ? update(points) : points,
+    ),
+  });
+
+  const handleVertexPointerDown = (
+    e: React.PointerEvent,
+    target: DragTarget,
+  ) => {
+    if (tool !== "vertices" || e.button !== 0) return;
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    setHistory((prev) => [...prev, geometry]);
+    setDragging(target);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragging) return;
+    const point = toImagePoint(e);
+    setGeometry((prev) =>
+      updatePolygon(prev, dragging.kind, dragging.polygonIndex, (points) =>
+        points.map((p, i) => (i === dragging.vertexIndex ? point : p)),
+      ),
+    );
+  };
+
+  // Outlines keep at least a triangle; holes and erased regions go away entirely
+  const handleDeleteVertex = (e: React.MouseEvent, target: DragTarget) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (tool !== "vertices") return;
+
+    const points = geometry[target.kind][target.polygonIndex] ?? [];
+    if (points.length > 3) {
+      commit(
+        updatePolygon(geometry, target.kind, target.polygonIndex, (prev) =>
+          prev.filter((_, i) => i !== target.vertexIndex),
+        ),
+      );
+    } else if (target.kind !== "outlines") {
+      commit({
+        ...geometry,
+        [target.kind]: geometry[target.kind].filter(
+          (_, i) => i !== target.polygonIndex,
+        ),
+      });
+    }
+  };
+
+  // Clicking an edge inserts a vertex there and starts dragging it
+  const handleEdgePointerDown = (
+    e: React.PointerEvent,
+    kind: PolygonKind,
+    polygonIndex: number,
+    edgeIndex: number,
+  ) => {
+    if (tool !== "vertices" || e.button !== 0) return;
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+
+    const point = toImagePoint(e);
+    commit(
+      updatePolygon(geometry, kind, polygonIndex, (points) => [
+        ...points.slice(0, edgeIndex + 1),
+        point,
+        ...points.slice(edgeIndex + 1),
+      ]),
+    );
+    setDragging({ kind, polygonIndex, vertexIndex: edgeIndex + 1 });
+  };
+
+  const closeDraft = (points: Point[]) => {
+    if (points.length >= 3) {
+      const kind = tool === "hole" ? "holes" : "erased";
+      commit({ ...geometry, [kind]: [...geometry[kind], points] });
+    }
+    setDraft([]);
+  };
+
+  const handleCanvasClick = (e: React.MouseEvent) => {
+    if (tool === "vertices") return;
+    const point = toImagePoint(e);
+
+    // Clicking next to the first point closes the polygon
+    const first = draft[0];
+    if (
+      first &&
+      draft.length >= 3 &&
+      Math.hypot(point.x - first.x, point.y - first.y) < handleRadius * 2
+    ) {
+      closeDraft(draft);
+      return;
+    }
+    setDraft((prev) => [...prev, point]);
+  };
+
+  const handleCanvasDoubleClick = () => {
+    // The double-click's own clicks already added its point twice
+    if (tool !== "vertices") closeDraft(draft.slice(0, -1));
+  };
+
+  const toPath = (points: Point[]) =>
+    points.map((p) => `${p.x},${p.y}`).join(" ");
+
+  const polygonKinds: PolygonKind[] = ["outlines", "holes", "erased"];
+
+  return (
+    <div className="flex flex-col space-y-2">
+      <div className="flex flex-row flex-wrap items-center gap-2 text-sm">
+        {(["vertices", "erase", "hole"] as Tool[]).map((option) => (
+          <button
+            key={option}
+            onClick={() => {
+              setTool(option);
+              setDraft([]);
+            }}
+            className={`rounded px-3 py-1 ${tool === option ? "bg-blue-500 text-white" : "bg-gray-200 text-black hover:bg-gray-300"}`}
+          >
+            {option === "vertices"
+              ? "Edit vertices"
+              : option === "erase"
+                ? "Erase region"
+                : "Paint hole"}
+          </button>
+        ))}
+        <button
+          onClick={handleUndo}
+          disabled={history.length === 0}
+          className="rounded bg-gray-200 px-3 py-1 text-black hover:bg-gray-300 disabled:bg-gray-100 disabled:text-gray-400"
+        >
+          Undo
+        </button>
+        <button
+          onClick={() => commit(initialGeometry)}
+          className="rounded bg-gray-200 px-3 py-1 text-black hover:bg-gray-300"
+        >
+          Reset
+        </button>
+        <span className="text-gray-300">{TOOL_HINTS[tool]}</span>
+      </div>
+
+      <div className="relative w-full">
+        <Image
+          src={imageUrl}
+          alt="Contour being edited"
+          width={width}
+          height={height}
+          className="h-auto w-full"
+        />
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${width} ${height}`}
+          className={`absolute inset-0 h-full w-full ${tool === "vertices" ? "" : "cursor-crosshair"}`}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDragging(null)}
+          onClick={handleCanvasClick}
+          onDoubleClick={handleCanvasDoubleClick}
+        >
+          {polygonKinds.map((kind) =>
+            geometry[kind].map((points, polygonIndex) => (
+              <g key={`${kind}-${polygonIndex}`}>
+                <polygon
+                  points={toPath(points)}
+                  fill={POLYGON_STYLES[kind].fill}
+                  stroke={POLYGON_STYLES[kind].stroke}
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                  pointerEvents="none"
+                />
+                {tool === "vertices" &&
+                  points.map((point, edgeIndex) => {
+                    const next = points[(edgeIndex + 1) % points.length]!;
+                    return (
+                      <line
+                        key={`edge-${edgeIndex}`}
+                        x1={point.x}
+                        y1={point.y}
+                        x2={next.x}
+                        y2={next.y}
+                        stroke="transparent"
+                        strokeWidth={handleRadius * 2}
+                        className="cursor-copy"
+                        onPointerDown={(e) =>
+                          handleEdgePointerDown(e, kind, polygonIndex, edgeIndex)
+                        }
+                      />
+                    );
+                  })}
+                {tool === "vertices" &&
+                  points.map((point, vertexIndex) => {
+                    const target = { kind, polygonIndex, vertexIndex };
+                    return (
+                      <circle
+                        key={`vertex-${vertexIndex}`}
+                        cx={point.x}
+                        cy={point.y}
+                        r={handleRadius}
+                        fill={POLYGON_STYLES[kind].stroke}
+                        stroke="#FFFFFF"
+                        strokeWidth={1}
+                        vectorEffect="non-scaling-stroke"
+                        className="cursor-move"
+                        onPointerDown={(e) => handleVertexPointerDown(e, target)}
+                        onContextMenu={(e) => handleDeleteVertex(e, target)}
+                        onDoubleClick={(e) => handleDeleteVertex(e, target)}
+                      />
+                    );
+                  })}
+              </g>
+            )),
+          )}
+          {draft.length > 0 && (
+            <polyline
+              points={toPath(draft)}
+              fill="none"
+              stroke={tool === "hole" ? POLYGON_STYLES.holes.stroke : POLYGON_STYLES.erased.stroke}
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              vectorEffect="non-scaling-stroke"
+              pointerEvents="none"
+            />
+          )}
+        </svg>
+      </div>
+
+      <div className="flex flex-row justify-end space-x-2">
+        <button
+          onClick={onCancel}
+          disabled={isSubmitting}
+          className="rounded bg-gray-200 px-4 py-2 text-black hover:bg-gray-300"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSubmit(geometry)}
+          disabled={isSubmitting}
+          className="rounded bg-blue-500 px-4 py-2 text-white hover:bg-blue-600 disabled:bg-gray-400"
+        >
+          {isSubmitting ? "Analyzing..." : "Analyze edited contour"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ContourEditor;
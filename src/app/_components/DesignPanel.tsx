@@ -0,0 +1,248 @@
+"use client";
+import { useState } from "react";
+import { type DesignOptions, type StressGrade } from "~/server/analysis/design";
+import { api } from "~/trpc/react";
+
+interface DesignPanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  options: DesignOptions;
+  onChange: (options: DesignOptions) => void;
+  error?: string; // Why the last check failed
+}
+
+const LOAD_CASE_LABELS: Record<DesignOptions["loadCase"], string> = {
+  "simple-udl": "Simply supported, uniform load",
+  "simple-point": "Simply supported, midspan point load",
+  "cantilever-udl": "Cantilever, uniform load",
+  "cantilever-point": "Cantilever, tip point load",
+};
+
+const EMPTY_GRADE: StressGrade = {
+  name: "",
+  bendingMPa: 0,
+  shearMPa: 0,
+  elasticModulusMPa: 0,
+};
+
+/**
+ * Stress grade, span and load case for checking each section as a beam, with user-defined grades
+ * alongside the standard ones.
+ */
+function DesignPanel({
+  enabled,
+  onEnabledChange,
+  options,
+  onChange,
+  error,
+}: DesignPanelProps) {
+  const [newGrade, setNewGrade] = useState<StressGrade>(EMPTY_GRADE);
+  const gradesQuery = api.design.grades.useQuery();
+
+  const update = (changes: Partial<DesignOptions>) =>
+    onChange({ ...options, ...changes });
+
+  const distributed = options.loadCase.endsWith("udl");
+  const canAddGrade =
+    newGrade.name.trim() !== "" &&
+    newGrade.bendingMPa > 0 &&
+    newGrade.shearMPa > 0 &&
+    newGrade.elasticModulusMPa > 0;
+
+  // Replace any custom grade of the same name and select the new one
+  const handleAddGrade = () => {
+    const grade = { ...newGrade, name: newGrade.name.trim() };
+    update({
+      customGrades: [
+        ...options.customGrades.filter((custom) => custom.name !== grade.name),
+        grade,
+      ],
+      grade: grade.name,
+    });
+    setNewGrade(EMPTY_GRADE);
+  };
+
+  const handleRemoveGrade = (name: string) =>
+    update({
+      customGrades: options.customGrades.filter(
+        (custom) => custom.name !== name,
+      ),
+      grade: options.grade === name ? "C24" : options.grade,
+    });
+
+  return (
+    <details className="w-full max-w-4xl rounded bg-white/10 p-3 text-sm">
+      <summary className="cursor-pointer font-bold">
+        Bending capacity check
+      </summary>
+      <div className="mt-3 flex flex-row flex-wrap items-center justify-center gap-4">
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+          />
+          <span>Check sections as beams</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>Grade</span>
+          <select
+            value={options.grade}
+            onChange={(e) => update({ grade: e.target.value })}
+            className="rounded px-2 py-1 text-black"
+          >
+            {(gradesQuery.data ?? []).map((grade) => (
+              <option key={grade.name} value={grade.name}>
+                {grade.name}
+              </option>
+            ))}
+            {options.customGrades.map((grade) => (
+              <option key={`custom-${grade.name}`} value={grade.name}>
+                {grade.name} (custom)
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>Load case</span>
+          <select
+            value={options.loadCase}
+            onChange={(e) =>
+              update({
+                loadCase: e.target.value as DesignOptions["loadCase"],
+              })
+            }
+            className="rounded px-2 py-1 text-black"
+          >
+            {Object.entries(LOAD_CASE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>Span (mm)</span>
+          <input
+            type="number"
+            min={1}
+            value={options.spanMm}
+            onChange={(e) =>
+              update({ spanMm: Math.max(1, Number(e.target.value)) })
+            }
+            className="w-24 rounded px-2 py-1 text-black"
+          />
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>Load ({distributed ? "kN/m" : "kN"})</span>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={options.load}
+            onChange={(e) =>
+              update({ load: Math.max(0, Number(e.target.value)) })
+            }
+            className="w-20 rounded px-2 py-1 text-black"
+          />
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>Capacity factor</span>
+          <input
+            type="number"
+            min={0.01}
+            max={1}
+            step={0.01}
+            value={options.capacityFactor}
+            onChange={(e) =>
+              update({
+                capacityFactor: Math.min(
+                  1,
+                  Math.max(0.01, Number(e.target.value)),
+                ),
+              })
+            }
+            className="w-20 rounded px-2 py-1 text-black"
+          />
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>Deflection limit span /</span>
+          <input
+            type="number"
+            min={1}
+            value={options.deflectionLimit}
+            onChange={(e) =>
+              update({ deflectionLimit: Math.max(1, Number(e.target.value)) })
+            }
+            className="w-20 rounded px-2 py-1 text-black"
+          />
+        </label>
+      </div>
+
+      <div className="mt-3 flex flex-row flex-wrap items-center justify-center gap-2">
+        <span className="font-bold">Custom grade</span>
+        <input
+          type="text"
+          placeholder="Name"
+          value={newGrade.name}
+          onChange={(e) => setNewGrade({ ...newGrade, name: e.target.value })}
+          className="w-24 rounded px-2 py-1 text-black"
+        />
+        {(
+          [
+            ["bendingMPa", "Bending (MPa)"],
+            ["shearMPa", "Shear (MPa)"],
+            ["elasticModulusMPa", "E (MPa)"],
+          ] as const
+        ).map(([key, label]) => (
+          <label key={key} className="flex items-center space-x-1">
+            <span>{label}</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={newGrade[key] || ""}
+              onChange={(e) =>
+                setNewGrade({ ...newGrade, [key]: Number(e.target.value) })
+              }
+              className="w-20 rounded px-2 py-1 text-black"
+            />
+          </label>
+        ))}
+        <button
+          onClick={handleAddGrade}
+          disabled={!canAddGrade}
+          className="rounded bg-blue-500 px-3 py-1 text-white hover:bg-blue-600 disabled:bg-gray-400"
+        >
+          Add grade
+        </button>
+      </div>
+      {options.customGrades.length > 0 && (
+        <div className="mt-2 flex flex-row flex-wrap justify-center gap-2">
+          {options.customGrades.map((grade) => (
+            <span
+              key={grade.name}
+              className="flex items-center space-x-1 rounded bg-white/10 px-2 py-1"
+            >
+              <span>
+                {grade.name}: fb {grade.bendingMPa}, fs {grade.shearMPa}, E{" "}
+                {grade.elasticModulusMPa} MPa
+              </span>
+              <button
+                onClick={() => handleRemoveGrade(grade.name)}
+                className="text-red-400 hover:text-red-300"
+              >
+                ✕
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      {enabled && error && (
+        <p className="mt-2 text-center text-red-400">{error}</p>
+      )}
+    </details>
+  );
+}
+
+export default DesignPanel;
@@ -1,36 +1,603 @@
 "use client";
-import { useState, useCallback, useEffect } from "react";
-import { type LogAnalysisResult } from "~/server/api/routers/image";
-import { api } from "~/trpc/react";
-import ExcelJS from "exceljs";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import {
+  type AnalysisStage,
+  type ImageAnalysisOutcome,
+  type LogAnalysisResult,
+  type SectionGeometry,
+} from "~/server/analysis/logSection";
+import { defaultAnalysisOptions, type AnalysisOptions } from "~/server/analysis/options";
+import { type SawnRectangle } from "~/server/analysis/sawing";
+import { analyzeLogProfiles, type LogStation } from "~/server/analysis/logProfile";
+import {
+  checkSection,
+  defaultDesignOptions,
+  soundDesignSection,
+  type DesignCheck,
+  type DesignOptions,
+} from "~/server/analysis/design";
+import { type HeightMeasurement } from "~/server/analysis/heightExtractors";
+import { type CadFormat, type CadOrigin } from "~/server/reports/cad";
+import { type ProgressStage } from "~/server/analysis/progress";
+import { skipToken } from "@tanstack/react-query";
+import { api, type RouterOutputs } from "~/trpc/react";
 import { saveAs } from "file-saver";
 import Image from "next/image";
+import ContourEditor from "./ContourEditor";
+import PreprocessingPanel from "./PreprocessingPanel";
+import LogProfiles from "./LogProfiles";
+import DesignPanel from "./DesignPanel";
 
-function LogAnalyzer() {
+// A request that never reached the server fails at the "request" stage
+type ImageFailure = { stage: AnalysisStage | "request"; message: string };
+
+const STAGE_LABELS: Record<ImageFailure["stage"], string> = {
+  request: "Request",
+  decode: "Image decoding",
+  height: "Height extraction",
+  contour: "Contour detection",
+  calibration: "Calibration",
+  calculation: "Calculation",
+  annotation: "Annotation",
+};
+
+// Share of an image's analysis that is done once it reaches each step; height extraction is the
+// slow one
+const PROGRESS_FRACTIONS: Record<ProgressStage, number> = {
+  received: 0.1,
+  contour: 0.3,
+  height: 0.6,
+  properties: 0.9,
+  annotated: 1,
+  failed: 1,
+};
+
+const PROGRESS_LABELS: Record<ProgressStage, string> = {
+  received: "Received",
+  contour: "Contour found",
+  height: "Height extracted",
+  properties: "Properties computed",
+  annotated: "Done",
+  failed: "Failed",
+};
+
+type JobSummary = RouterOutputs["job"]["listJobs"][number];
+
+// The background job of this browser, so a reloaded page can pick it up again
+const JOB_STORAGE_KEY = "logAnalyzer.jobId";
+const JOB_POLL_INTERVAL_MS = 2000;
+// Background jobs are uploaded this many images per request
+const JOB_UPLOAD_CHUNK_SIZE = 5;
+
+type RunSummary = RouterOutputs["run"]["saveRun"];
+
+// The saved run this browser last worked on, reopened after a reload
+const RUN_STORAGE_KEY = "logAnalyzer.runId";
+// Edits are saved once they have settled for this long
+const RUN_SAVE_DELAY_MS = 1500;
+const DEFAULT_PROJECT = "General";
+
+// What the server holds for one image; compared by reference to find the ones that changed
+type StoredOutcome = {
+  sections: LogAnalysisResult[] | undefined;
+  error: ImageFailure | undefined;
+  geometry: EditedGeometry | undefined;
+};
+
+// Geometry drawn in the contour editor, in pixels of the original image
+type EditedGeometry = { width: number; height: number; geometry: SectionGeometry };
+
+// Log and station typed into the table, replacing what was read from the filename
+type StationAssignment = { logId: string; stationMm: number | null };
+
+// Sawn cuts as "width x depth" in whole millimetres
+const cutSize = (cut: SawnRectangle | null | undefined) =>
+  cut ? `${cut.width_mm.toFixed(0)}x${cut.depth_mm.toFixed(0)}` : undefined;
+
+const cutRecovery = (cut: SawnRectangle | null | undefined) =>
+  cut ? Number(cut.recovery_percent.toFixed(2)) : undefined;
+
+// Save a file the server sent back as base64
+const saveBase64File = (file: {
+  filename: string;
+  mimeType: string;
+  data: string;
+}) => {
+  const bytes = Uint8Array.from(atob(file.data), (char) => char.charCodeAt(0));
+  saveAs(new Blob([bytes], { type: file.mimeType }), file.filename);
+};
+
+// A row's height as it was resolved, to analyze its unchanged outline again with. Rows scaled from
+// a reference object give back their measured height, which keeps the same scale and calibration.
+const resolvedHeight = (result: LogAnalysisResult): HeightMeasurement => ({
+  heightMm: result.detected_height_mm,
+  source: result.height_source,
+  confidence: result.height_confidence,
+  fallback: result.height_fallback,
+});
+
+const isJobActive = (job: JobSummary | null) =>
+  job?.status === "queued" || job?.status === "running";
+
+/**
+ * Uploads, analysis results and exports for one run of images. Runs are saved to the server as
+ * their results come in, and a saved run can be reopened by passing its id.
+ */
+function LogAnalyzer({ openRunId }: { openRunId?: string }) {
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
-  const [results, setResults] = useState<LogAnalysisResult[]>([]);
+  // Sections found in each uploaded image, by image index
+  const [imageResults, setImageResults] = useState<LogAnalysisResult[][]>([]);
+  const [imageErrors, setImageErrors] = useState<Record<number, ImageFailure>>(
+    {},
+  );
   const [imageUrls, setImageUrls] = useState<string[]>([]);
-  const [processedImageUrls, setProcessedImageUrls] = useState<string[]>([]);
+  const [processedImageUrls, setProcessedImageUrls] = useState<
+    (string | undefined)[]
+  >([]);
   const [currentPage, setCurrentPage] = useState<number>(0);
-  const [processingProgress, setProcessingProgress] = useState<number>(0);
+  // Live progress from the server, keyed by the run the current uploads belong to
+  const [runId, setRunId] = useState<string | null>(null);
+  const [imageStages, setImageStages] = useState<Record<number, ProgressStage>>(
+    {},
+  );
   const [pulseEffect, setPulseEffect] = useState<boolean>(false);
   const [processedIndices, setProcessedIndices] = useState<Set<number>>(new Set());
+  const [sourceImages, setSourceImages] = useState<
+    { data: string; filename: string }[]
+  >([]);
+  const [recomputingIndices, setRecomputingIndices] = useState<Set<number>>(
+    new Set(),
+  );
+  const [retryingIndices, setRetryingIndices] = useState<Set<number>>(
+    new Set(),
+  );
+  const [runInBackground, setRunInBackground] = useState<boolean>(false);
+  // The image open in the contour editor
+  const [editing, setEditing] = useState<
+    ({ imageIndex: number } & EditedGeometry) | null
+  >(null);
+  const [loadingGeometryIndex, setLoadingGeometryIndex] = useState<
+    number | null
+  >(null);
+  // Hand-corrected geometry by image index; later recalculations keep using it
+  const [imageGeometries, setImageGeometries] = useState<
+    Record<number, EditedGeometry>
+  >({});
+  // Station assignments by result filename, so they survive recalculating a row
+  const [stationAssignments, setStationAssignments] = useState<
+    Record<string, StationAssignment>
+  >({});
+  const [job, setJob] = useState<JobSummary | null>(null);
+  // Only results finished after this are fetched when polling the job
+  const jobResultsSince = useRef<number | undefined>(undefined);
+  const jobRestored = useRef<boolean>(false);
+  const [analysisOptions, setAnalysisOptions] =
+    useState<AnalysisOptions>(defaultAnalysisOptions);
+  // Beam checks run on the results as they are, so changing them needs no reanalysis
+  const [designEnabled, setDesignEnabled] = useState<boolean>(false);
+  const [designOptions, setDesignOptions] = useState<DesignOptions>(defaultDesignOptions);
+  // Where 0,0 sits in exported DXF and SVG drawings
+  const [cadOrigin, setCadOrigin] = useState<CadOrigin>("centroid");
+  // Typed as "90x45, 140x45" and parsed into the sawing options as it changes
+  const [nominalSizesText, setNominalSizesText] = useState("");
+  const [runName, setRunName] = useState("");
+  const [projectName, setProjectName] = useState(DEFAULT_PROJECT);
+  const [savedRun, setSavedRun] = useState<RunSummary | null>(null);
+  const [isSavingRun, setIsSavingRun] = useState<boolean>(false);
+  const [runSaveError, setRunSaveError] = useState<string | null>(null);
+  const [loadingRun, setLoadingRun] = useState<boolean>(false);
+  // What has already been saved, so each save only sends what changed since
+  const savedRunId = useRef<string | null>(null);
+  const storedImages = useRef<Set<number>>(new Set());
+  const storedOutcomes = useRef<Map<number, StoredOutcome>>(new Map());
+  const storedSettings = useRef<string>("");
+  const runSaves = useRef<Promise<void>>(Promise.resolve());
 
   const analyzeImagesMutation = api.image.analyze.useMutation();
+  const recomputeMutation = api.image.recompute.useMutation();
+  const detectGeometryMutation = api.image.detectGeometry.useMutation();
+  const analyzeEditedGeometryMutation =
+    api.image.analyzeEditedGeometry.useMutation();
+  const analyzeGeometryMutation = api.image.analyzeGeometry.useMutation();
+  const createJobMutation = api.job.createJob.useMutation();
+  const addJobImagesMutation = api.job.addImages.useMutation();
+  const cancelJobMutation = api.job.cancelJob.useMutation();
+  const requeueJobMutation = api.job.requeueJob.useMutation();
+  const exportWorkbookMutation = api.export.workbook.useMutation();
+  const exportPdfMutation = api.export.batchPdf.useMutation();
+  const sectionPdfMutation = api.export.sectionPdf.useMutation();
+  const cadMutation = api.export.cad.useMutation();
+  const cadZipMutation = api.export.cadZip.useMutation();
+  const utils = api.useUtils();
 
   const BATCH_SIZE = 1; // Process 1 image at a time
   const CONCURRENT_BATCHES = 3; // Process 2 batches concurrently
   const imagesPerPage = 12; // 3 rows of 4 images
   const totalPages = Math.ceil(imageUrls.length / imagesPerPage);
 
-  // Process a single batch of images
+  const results = useMemo(() => imageResults.flat(), [imageResults]);
+  const showDecay = results.some(
+    (result) => result.decay_regions.length > 0,
+  );
+  const showSawing = results.some((result) => result.sawing !== null);
+  const showTorsion = results.some((result) => result.torsion !== null);
+
+  // Rows with a log and station, from the table or else the filename
+  const stationOf = useCallback(
+    (result: LogAnalysisResult): StationAssignment =>
+      stationAssignments[result.filename] ?? {
+        logId: result.log_id ?? "",
+        stationMm: result.station_mm,
+      },
+    [stationAssignments],
+  );
+  const logStations = useMemo(
+    () =>
+      results.flatMap((result): LogStation[] => {
+        const { logId, stationMm } = stationOf(result);
+        if (!logId || stationMm === null) return [];
+        return [
+          {
+            logId,
+            positionMm: stationMm,
+            label: result.filename,
+            area_mm2: result.area_mm2,
+            diameter_mm: result.equivalent_diameter_mm,
+            Ixx_mm4: result.Ixx_mm4,
+            section_modulus_mm3: result.section_modulus_mm3,
+          },
+        ];
+      }),
+    [results, stationOf],
+  );
+  // Worked out here rather than on the server, where a large batch's stations would not fit in
+  // a query URL
+  const logProfiles = useMemo(() => analyzeLogProfiles(logStations), [logStations]);
+
+  // The checks are pure, so they run here instead of sending every section to the server
+  const design = useMemo((): { checks?: DesignCheck[]; error?: string } => {
+    if (!designEnabled) return {};
+    try {
+      return {
+        checks: results.map((result) => checkSection(soundDesignSection(result), designOptions)),
+      };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }, [designEnabled, designOptions, results]);
+  const designChecks = design.checks;
+  const showDesign = designChecks !== undefined;
+  const failedRowSpan =
+    37 +
+    (showDecay ? 4 : 0) +
+    (showSawing ? 5 : 0) +
+    (showTorsion ? 5 : 0) +
+    (showDesign ? 5 : 0);
+
+  const processingProgress = useMemo(() => {
+    if (imageUrls.length === 0) return 0;
+    const done = imageUrls.reduce((sum, _url, index) => {
+      const stage = imageStages[index];
+      if (processedIndices.has(index)) return sum + 1;
+      return sum + (stage ? PROGRESS_FRACTIONS[stage] : 0);
+    }, 0);
+    return (done / imageUrls.length) * 100;
+  }, [imageStages, imageUrls, processedIndices]);
+
+  api.image.progress.useSubscription(runId ? { runId } : skipToken, {
+    onData: ({ data }) =>
+      setImageStages((prev) => ({ ...prev, [data.imageIndex]: data.stage })),
+  });
+
+  // Record the outcome of one image, replacing any earlier result or failure
+  const applyOutcome = useCallback((
+    imageIndex: number,
+    outcome: ImageAnalysisOutcome | ({ status: "error" } & ImageFailure),
+  ) => {
+    const sections = outcome.status === "success" ? outcome.sections : [];
+    setImageResults((prev) => {
+      const next = [...prev];
+      next[imageIndex] = sections;
+      return next;
+    });
+    setProcessedImageUrls((prev) => {
+      const next = [...prev];
+      // Sections of one image share its processed image
+      next[imageIndex] = sections[0]?.processed_image_data;
+      return next;
+    });
+    setImageErrors((prev) => {
+      const next = { ...prev };
+      if (outcome.status === "error") {
+        next[imageIndex] = { stage: outcome.stage, message: outcome.message };
+      } else {
+        delete next[imageIndex];
+      }
+      return next;
+    });
+  }, []);
+
+  // Pull the latest state of a background job into the grid and table. With includeImages the
+  // original uploads are fetched too, to restore the page after a reload.
+  const syncJob = useCallback(
+    async (jobId: string, includeImages = false) => {
+      const current = await utils.client.job.getJob.query({
+        jobId,
+        resultsSince: jobResultsSince.current,
+        includeImages,
+      });
+
+      if (includeImages) {
+        const images = current.items.map((item) => ({
+          data: item.data ?? "",
+          filename: item.filename,
+        }));
+        setSourceImages(images);
+        setImageUrls(images.map((image) => image.data));
+      }
+
+      current.items.forEach((item) => {
+        if (item.sections) {
+          applyOutcome(item.index, {
+            status: "success",
+            filename: item.filename,
+            sections: item.sections,
+          });
+        } else if (item.status === "error" && item.error) {
+          applyOutcome(item.index, {
+            status: "error",
+            filename: item.filename,
+            ...item.error,
+          });
+        }
+      });
+      setProcessedIndices(
+        new Set(
+          current.items
+            .filter((item) => item.status !== "queued" && item.status !== "running")
+            .map((item) => item.index),
+        ),
+      );
+
+      jobResultsSince.current = current.updatedAt;
+      setJob(current);
+      setIsProcessing(isJobActive(current));
+    },
+    [utils, applyOutcome],
+  );
+
+  // Forget the saved run, so the next save starts a new one
+  const resetSavedRun = () => {
+    savedRunId.current = null;
+    storedImages.current = new Set();
+    storedOutcomes.current = new Map();
+    storedSettings.current = "";
+    localStorage.removeItem(RUN_STORAGE_KEY);
+    setSavedRun(null);
+    setRunSaveError(null);
+  };
+
+  // Load a saved run back into the grid and table, with the settings it was analyzed with
+  const openRun = useCallback(
+    async (id: string) => {
+      setLoadingRun(true);
+      try {
+        const run = await utils.client.run.getRun.query({ runId: id });
+        const images = run.images.map((image) => ({
+          data: image.data,
+          filename: image.filename,
+        }));
+        const errors: Record<number, ImageFailure> = {};
+        const geometries: Record<number, EditedGeometry> = {};
+        run.images.forEach((image, index) => {
+          if (image.error) errors[index] = image.error;
+          if (image.geometry) geometries[index] = image.geometry;
+        });
+
+        setSourceImages(images);
+        setImageUrls(images.map((image) => image.data));
+        setImageResults(run.images.map((image) => image.sections));
+        setProcessedImageUrls(
+          run.images.map((image) => image.sections[0]?.processed_image_data),
+        );
+        setImageErrors(errors);
+        setImageGeometries(geometries);
+        setProcessedIndices(new Set(images.map((_image, index) => index)));
+        setStationAssignments(run.stations);
+        setAnalysisOptions(run.options);
+        setNominalSizesText(
+          run.options.sawing.nominalSizes
+            .map((size) => `${size.widthMm}x${size.depthMm}`)
+            .join(", "),
+        );
+        setDesignEnabled(run.design !== null);
+        if (run.design) setDesignOptions(run.design);
+        setRunName(run.name);
+        setProjectName(run.project);
+        setCurrentPage(0);
+
+        // Mirror the server so reopening sends nothing back. A run with gaps in its images is
+        // renumbered here, so it is saved again as a whole.
+        savedRunId.current = run.id;
+        storedImages.current = new Set();
+        storedOutcomes.current = new Map();
+        storedSettings.current = "";
+        if (run.images.every((image, index) => image.index === index)) {
+          run.images.forEach((image, index) => {
+            storedImages.current.add(index);
+            storedOutcomes.current.set(index, {
+              sections: image.sections,
+              error: errors[index],
+              geometry: geometries[index],
+            });
+          });
+          storedSettings.current = JSON.stringify({
+            name: run.name,
+            project: run.project,
+            options: run.options,
+            design: run.design,
+            stations: run.stations,
+            imageCount: images.length,
+          });
+        }
+        setSavedRun(run);
+        localStorage.setItem(RUN_STORAGE_KEY, run.id);
+
+        // A reopened run replaces whatever job was being followed
+        localStorage.removeItem(JOB_STORAGE_KEY);
+        setJob(null);
+        setRunId(null);
+      } finally {
+        setLoadingRun(false);
+      }
+    },
+    [utils],
+  );
+
+  // Open the run asked for, else pick up the job or run this browser had before the page was
+  // reloaded
+  useEffect(() => {
+    if (jobRestored.current) return;
+    jobRestored.current = true;
+
+    if (openRunId) {
+      openRun(openRunId).catch((error) => {
+        console.error("Error opening run:", error);
+        alert(
+          `Error opening run: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      });
+      return;
+    }
+
+    const savedJobId = localStorage.getItem(JOB_STORAGE_KEY);
+    const storedRunId = localStorage.getItem(RUN_STORAGE_KEY);
+    if (savedJobId) {
+      // The job's results are saved into the run they were last saved to
+      savedRunId.current = storedRunId;
+      setRunId(savedJobId);
+      syncJob(savedJobId, true).catch((error) => {
+        console.error("Error restoring job:", error);
+        localStorage.removeItem(JOB_STORAGE_KEY);
+      });
+    } else if (storedRunId) {
+      openRun(storedRunId).catch((error) => {
+        console.error("Error reopening run:", error);
+        localStorage.removeItem(RUN_STORAGE_KEY);
+      });
+    }
+  }, [syncJob, openRun, openRunId]);
+
+  // Save the run once it has results and has settled, sending only the images and settings that
+  // changed since the last save. Saves are chained so they reach the server in order.
+  useEffect(() => {
+    if (isProcessing || loadingRun || sourceImages.length === 0) return;
+
+    const settings = {
+      name: runName.trim() || "Untitled run",
+      project: projectName.trim() || DEFAULT_PROJECT,
+      options: analysisOptions,
+      design: designEnabled ? designOptions : null,
+      stations: stationAssignments,
+      imageCount: sourceImages.length,
+    };
+    const saveChanges = async () => {
+      const changed = sourceImages.flatMap((image, index) => {
+        if (!image || !processedIndices.has(index)) return [];
+        const outcome: StoredOutcome = {
+          sections: imageResults[index],
+          error: imageErrors[index],
+          geometry: imageGeometries[index],
+        };
+        const stored = storedOutcomes.current.get(index);
+        if (
+          stored &&
+          stored.sections === outcome.sections &&
+          stored.error === outcome.error &&
+          stored.geometry === outcome.geometry
+        ) {
+          return [];
+        }
+        return [{ index, image, outcome }];
+      });
+      const settingsKey = JSON.stringify(settings);
+      if (changed.length === 0 && settingsKey === storedSettings.current) return;
+
+      setIsSavingRun(true);
+      try {
+        const run = await utils.client.run.saveRun.mutate({
+          runId: savedRunId.current ?? undefined,
+          ...settings,
+          images: changed.map(({ index, image, outcome }) => ({
+            index,
+            filename: image.filename,
+            data: storedImages.current.has(index) ? undefined : image.data,
+            sections: outcome.sections ?? [],
+            error: outcome.error,
+            geometry: outcome.geometry,
+          })),
+        });
+        changed.forEach(({ index, outcome }) => {
+          storedImages.current.add(index);
+          storedOutcomes.current.set(index, outcome);
+        });
+        storedSettings.current = settingsKey;
+        savedRunId.current = run.id;
+        localStorage.setItem(RUN_STORAGE_KEY, run.id);
+        setSavedRun(run);
+        setRunSaveError(null);
+      } catch (error) {
+        console.error("Error saving run:", error);
+        setRunSaveError(error instanceof Error ? error.message : "Unknown error");
+      } finally {
+        setIsSavingRun(false);
+      }
+    };
+
+    const saveTimeout = setTimeout(() => {
+      runSaves.current = runSaves.current.then(saveChanges);
+    }, RUN_SAVE_DELAY_MS);
+    return () => clearTimeout(saveTimeout);
+  }, [
+    isProcessing,
+    loadingRun,
+    sourceImages,
+    processedIndices,
+    imageResults,
+    imageErrors,
+    imageGeometries,
+    stationAssignments,
+    analysisOptions,
+    designEnabled,
+    designOptions,
+    runName,
+    projectName,
+    utils,
+  ]);
+
+  // Poll the job until it stops
+  const jobId = job?.id;
+  const jobActive = isJobActive(job);
+  useEffect(() => {
+    if (!jobId || !jobActive) return;
+
+    const pollInterval = setInterval(() => {
+      syncJob(jobId).catch((error) => console.error("Error polling job:", error));
+    }, JOB_POLL_INTERVAL_MS);
+    return () => clearInterval(pollInterval);
+  }, [jobId, jobActive, syncJob]);
+
+  // Process a single batch of images, starting at the given index of the run
   const processImageBatch = async (
     imageBatch: { data: string; filename: string }[],
+    progress?: { runId: string; offset: number },
   ) => {
     if (!imageBatch) return [];
 
     const results = await analyzeImagesMutation.mutateAsync({
       images: imageBatch,
+      options: analysisOptions,
+      progress,
     });
     return results;
   };
@@ -79,9 +646,14 @@ function LogAnalyzer() {
           return;
         }
 
-        // Clear existing state when new images are uploaded
-        setResults([]);
+        // Clear existing state when new images are uploaded; they start a new run
+        resetSavedRun();
+        setRunName(`${files.length} images from ${new Date().toLocaleString()}`);
+        setImageResults([]);
+        setImageErrors({});
         setProcessedImageUrls([]);
+        setImageGeometries({});
+        setStationAssignments({});
 
         // Create object URLs for all uploaded images
         const urls = Array.from(files).map((file) => URL.createObjectURL(file));
@@ -106,68 +678,113 @@ function LogAnalyzer() {
           }),
         );
 
+        setSourceImages(allImages);
+
+        // Hand the whole upload to the server a few images at a time and follow it from there
+        if (runInBackground) {
+          setIsProcessing(true);
+          let created: JobSummary | undefined;
+          try {
+            for (let i = 0; i < allImages.length; i += JOB_UPLOAD_CHUNK_SIZE) {
+              const images = allImages.slice(i, i + JOB_UPLOAD_CHUNK_SIZE);
+              created = created
+                ? await addJobImagesMutation.mutateAsync({ jobId: created.id, images })
+                : await createJobMutation.mutateAsync({
+                    name: `${allImages.length} images from ${new Date().toLocaleString()}`,
+                    images,
+                    options: analysisOptions,
+                  });
+            }
+          } catch (error) {
+            console.error("Error uploading job:", error);
+            alert(
+              `Error uploading images for the background job: ${error instanceof Error ? error.message : "Unknown error"}`,
+            );
+          }
+          if (!created) {
+            setIsProcessing(false);
+            return;
+          }
+
+          // Follow what made it to the server when the upload stopped part way
+          setSourceImages(allImages.slice(0, created.total));
+          setImageUrls(urls.slice(0, created.total));
+          localStorage.setItem(JOB_STORAGE_KEY, created.id);
+          jobResultsSince.current = undefined;
+          setRunId(created.id);
+          setImageStages({});
+          setProcessedIndices(new Set());
+          setJob(created);
+          setIsProcessing(true);
+          return;
+        }
+        localStorage.removeItem(JOB_STORAGE_KEY);
+        setJob(null);
+
         // Split images into batches of BATCH_SIZE
-        const batches = [];
+        const batches: (typeof allImages)[] = [];
         for (let i = 0; i < allImages.length; i += BATCH_SIZE) {
           batches.push(allImages.slice(i, i + BATCH_SIZE));
         }
 
         // Start processing - set isProcessing to true
+        const newRunId = crypto.randomUUID();
+        setRunId(newRunId);
+        setImageStages({});
         setIsProcessing(true);
-        setProcessingProgress(0);
         setProcessedIndices(new Set());
 
         // Process batches in pairs and update progress
-        const allResults: LogAnalysisResult[] = [];
         for (let i = 0; i < batches.length; i += CONCURRENT_BATCHES) {
           const batchPromises = [];
           for (let j = 0; j < CONCURRENT_BATCHES; j++) {
             const batch = batches[i + j];
             if (batch) {
-              batchPromises.push(processImageBatch(batch));
+              batchPromises.push(
+                processImageBatch(batch, {
+                  runId: newRunId,
+                  offset: (i + j) * BATCH_SIZE,
+                }),
+              );
             }
           }
 
-          try {
-            const batchResults = await Promise.all(batchPromises);
-            batchResults.forEach(results => {
-              if (results.length > 0) {
-                allResults.push(...results);
-              }
-            });
-
-            // Update progress only if there are multiple batches
-            if (batches.length > 1) {
-              const progress = ((i + CONCURRENT_BATCHES) / batches.length) * 100;
-              setProcessingProgress(Math.min(progress, 100));
+          // A failed request only fails its own images; the rest of the run carries on
+          const batchResults = await Promise.allSettled(batchPromises);
+          batchResults.forEach((settled, j) => {
+            const startIdx = (i + j) * BATCH_SIZE;
+            if (settled.status === "fulfilled") {
+              settled.value.forEach((outcome, k) =>
+                applyOutcome(startIdx + k, outcome),
+              );
+            } else {
+              console.error("Error processing batch:", settled.reason);
+              batches[i + j]?.forEach((_image, k) =>
+                applyOutcome(startIdx + k, {
+                  status: "error",
+                  stage: "request",
+                  message:
+                    settled.reason instanceof Error
+                      ? settled.reason.message
+                      : "Unknown error",
+                }),
+              );
             }
+          });
 
-            // Update results and processed images incrementally
-            setResults(allResults);
-            setProcessedImageUrls(
-              allResults.map((result) => result.processed_image_data),
-            );
-
-            // Mark the batches' images as processed
-            const startIdx = i * BATCH_SIZE;
-            const endIdx = Math.min(startIdx + (BATCH_SIZE * CONCURRENT_BATCHES), allImages.length);
-            setProcessedIndices((prev) => {
-              const newSet = new Set(prev);
-              for (let j = startIdx; j < endIdx; j++) {
-                newSet.add(j);
-              }
-              return newSet;
-            });
-          } catch (error) {
-            console.error("Error processing batch:", error);
-            alert(`Error processing images: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            setIsProcessing(false);
-            return;
-          }
+          // Mark the batches' images as processed
+          const startIdx = i * BATCH_SIZE;
+          const endIdx = Math.min(startIdx + (BATCH_SIZE * CONCURRENT_BATCHES), allImages.length);
+          setProcessedIndices((prev) => {
+            const newSet = new Set(prev);
+            for (let j = startIdx; j < endIdx; j++) {
+              newSet.add(j);
+            }
+            return newSet;
+          });
         }
 
         setIsProcessing(false);
-        setProcessingProgress(100);
       };
     } catch (error) {
       console.error("Error during analysis:", error);
@@ -175,87 +792,386 @@ function LogAnalyzer() {
     }
   };
 
-  const handleExportToExcel = async () => {
+  // Sections drawn in CAD or surveyed join the grid and table like uploaded images: their preview
+  // stands in for the photo and their outlines for its edited geometry
+  const handleImportGeometry = () => {
+    const fileInput = document.createElement("input");
+    fileInput.type = "file";
+    fileInput.multiple = true;
+    fileInput.accept = ".dxf,.svg,.csv";
+
+    fileInput.onchange = async () => {
+      const files = Array.from(fileInput.files ?? []);
+      if (files.length > 0 && !runName) setRunName(files.map((file) => file.name).join(", "));
+      let nextIndex = imageUrls.length;
+      for (const file of files) {
+        try {
+          const imported = await analyzeGeometryMutation.mutateAsync({
+            filename: file.name,
+            source: { content: await file.text() },
+            options: analysisOptions,
+          });
+          const index = nextIndex++;
+          setSourceImages((prev) => {
+            const next = [...prev];
+            next[index] = imported.image;
+            return next;
+          });
+          setImageUrls((prev) => {
+            const next = [...prev];
+            next[index] = imported.image.data;
+            return next;
+          });
+          setImageGeometries((prev) => ({
+            ...prev,
+            [index]: {
+              width: imported.width,
+              height: imported.height,
+              geometry: imported.geometry,
+            },
+          }));
+          setProcessedIndices((prev) => new Set(prev).add(index));
+          applyOutcome(index, {
+            status: "success",
+            filename: file.name,
+            sections: imported.sections,
+          });
+        } catch (error) {
+          console.error("Error importing geometry:", error);
+          alert(
+            `Error importing ${file.name}: ${error instanceof Error ? error.message : "Unknown error"}`,
+          );
+        }
+      }
+    };
+
+    fileInput.click();
+  };
+
+  // Recalculate the image a table row was cut from, keeping the heights and decay decisions of
+  // its other sections
+  const recomputeRow = async (
+    index: number,
+    change: { heightMm?: number; rejectedDecayRegions?: number[] },
+  ) => {
+    const current = results[index];
+    const imageIndex = imageResults.findIndex((sections) =>
+      sections.some((r) => r === current),
+    );
+    const image = sourceImages[imageIndex];
+    if (!image || !current) return;
+
+    const sections = imageResults[imageIndex] ?? [];
+    // Only a corrected height is manual; the other sections keep theirs as they were resolved
+    const sectionHeights = sections.map((r) =>
+      r === current && change.heightMm
+        ? { heightMm: change.heightMm, source: "manual" as const, confidence: 1 }
+        : resolvedHeight(r),
+    );
+    const rejectedDecayRegions = sections.map((r) =>
+      r === current && change.rejectedDecayRegions
+        ? change.rejectedDecayRegions
+        : r.decay_regions
+            .filter((region) => !region.accepted)
+            .map((region) => region.id),
+    );
+    const geometry = imageGeometries[imageIndex]?.geometry;
+
+    setRecomputingIndices((prev) => new Set(prev).add(index));
     try {
-      // Create a new workbook
-      const workbook = new ExcelJS.Workbook();
-
-      // Add a main worksheet for results
-      const worksheet = workbook.addWorksheet("Log Analysis Results");
-
-      // Add headers
-      worksheet.columns = [
-        { header: "Filename", key: "filename", width: 20 },
-        { header: "Area (mm²)", key: "area_mm2", width: 15 },
-        { header: "Centroid X (mm)", key: "centroid_x_mm", width: 15 },
-        { header: "Centroid Y (mm)", key: "centroid_y_mm", width: 15 },
-        { header: "Ixx (mm⁴)", key: "Ixx_mm4", width: 15 },
-        {
-          header: "Section Modulus (mm³)",
-          key: "section_modulus_mm3",
-          width: 20,
-        },
-      ];
-
-      // Add data rows
-      results.forEach((result) => {
-        worksheet.addRow({
-          filename: result.filename,
-          area_mm2: Number(result.area_mm2.toFixed(2)),
-          centroid_x_mm: Number(result.centroid_x_mm.toFixed(2)),
-          centroid_y_mm: Number(result.centroid_y_mm.toFixed(2)),
-          Ixx_mm4: Number(result.Ixx_mm4.toFixed(2)),
-          section_modulus_mm3: Number(result.section_modulus_mm3.toFixed(2)),
-        });
+      const updated = geometry
+        ? await analyzeEditedGeometryMutation.mutateAsync({
+            image: { ...image, sectionHeights, rejectedDecayRegions },
+            geometry,
+            options: analysisOptions,
+          })
+        : await recomputeMutation.mutateAsync({
+            image: { ...image, rejectedDecayRegions },
+            sectionHeights,
+            options: analysisOptions,
+          });
+      applyOutcome(imageIndex, {
+        status: "success",
+        filename: image.filename,
+        sections: updated,
       });
+    } catch (error) {
+      console.error("Error recomputing image:", error);
+      alert(
+        `Error recomputing ${current.filename}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    } finally {
+      setRecomputingIndices((prev) => {
+        const newSet = new Set(prev);
+        newSet.delete(index);
+        return newSet;
+      });
+    }
+  };
 
-      // Style the header row
-      worksheet.getRow(1).font = { bold: true };
+  // Recalculate a single row after its height has been corrected by hand
+  const handleHeightChange = async (index: number, heightMm: number) => {
+    const current = results[index];
+    if (
+      !current ||
+      !(heightMm > 0) ||
+      heightMm === Number(current.detected_height_mm.toFixed(2))
+    ) {
+      return;
+    }
+    await recomputeRow(index, { heightMm });
+  };
 
-      // Add a separate worksheet for each image
-      results.forEach((result, index) => {
-        if (result.processed_image_data) {
-          // Create a worksheet for the image
-          const imgWorksheet = workbook.addWorksheet(`Image_${index + 1}`);
+  // Accept or reject one detected decay region of a row. The outline is unchanged, so every
+  // section keeps its height and calibration as they were.
+  const handleToggleDecayRegion = async (index: number, regionId: number) => {
+    const current = results[index];
+    if (!current) return;
+    const rejected = current.decay_regions
+      .filter((region) =>
+        region.id === regionId ? region.accepted : !region.accepted,
+      )
+      .map((region) => region.id);
+    await recomputeRow(index, { rejectedDecayRegions: rejected });
+  };
 
-          // Add a title
-          imgWorksheet.getCell("A1").value =
-            `Processed Image: ${result.filename}`;
-          imgWorksheet.getCell("A1").font = { bold: true, size: 14 };
+  // Assign a row to a log or move it along the log; an empty log id leaves it out
+  const handleStationChange = (
+    result: LogAnalysisResult,
+    change: Partial<StationAssignment>,
+  ) => {
+    setStationAssignments((prev) => ({
+      ...prev,
+      [result.filename]: { ...stationOf(result), ...change },
+    }));
+  };
 
-          // Add the image
-          const imageId = workbook.addImage({
-            base64: result.processed_image_data,
-            extension: "png",
-          });
+  // Keep every "width x depth" pair that parses, ignoring ones still being typed
+  const handleNominalSizesChange = (text: string) => {
+    setNominalSizesText(text);
+    const nominalSizes = text
+      .split(/[,;\s]+/)
+      .map((entry) => /^(\d+(?:\.\d+)?)[x×*](\d+(?:\.\d+)?)$/i.exec(entry))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => ({
+        widthMm: Number(match[1]),
+        depthMm: Number(match[2]),
+      }))
+      .filter((size) => size.widthMm > 0 && size.depthMm > 0);
+    setAnalysisOptions((prev) => ({
+      ...prev,
+      sawing: { ...prev.sawing, nominalSizes },
+    }));
+  };
 
-          // Add the image to the worksheet
-          imgWorksheet.addImage(imageId, {
-            tl: { col: 1, row: 2 },
-            ext: { width: 600, height: 400 },
-          });
+  // Run a failed image through the analysis again
+  const handleRetry = async (imageIndex: number) => {
+    const image = sourceImages[imageIndex];
+    if (!image) return;
 
-          // Set column widths
-          imgWorksheet.getColumn(1).width = 80;
+    setRetryingIndices((prev) => new Set(prev).add(imageIndex));
+    try {
+      // Images of a background job go back on the server's queue
+      if (job) {
+        await handleRequeueJob([imageIndex]);
+        return;
+      }
 
-          // Set row heights
-          imgWorksheet.getRow(2).height = 30;
-          imgWorksheet.getRow(3).height = 400;
-        }
+      const [outcome] = await processImageBatch(
+        [image],
+        runId ? { runId, offset: imageIndex } : undefined,
+      );
+      if (outcome) applyOutcome(imageIndex, outcome);
+    } catch (error) {
+      console.error("Error retrying image:", error);
+      applyOutcome(imageIndex, {
+        status: "error",
+        stage: "request",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      setRetryingIndices((prev) => {
+        const newSet = new Set(prev);
+        newSet.delete(imageIndex);
+        return newSet;
+      });
+    }
+  };
+
+  // Open the contour editor on the outlines detected in an image
+  const handleEditContour = async (imageIndex: number) => {
+    const image = sourceImages[imageIndex];
+    if (!image) return;
+
+    // An image edited before reopens with its corrections
+    const edited = imageGeometries[imageIndex];
+    if (edited) {
+      setEditing({ imageIndex, ...edited });
+      return;
+    }
+
+    setLoadingGeometryIndex(imageIndex);
+    try {
+      const detected = await detectGeometryMutation.mutateAsync({
+        image,
+        options: analysisOptions,
       });
+      setEditing({ imageIndex, ...detected });
+    } catch (error) {
+      console.error("Error detecting contours:", error);
+      alert(
+        `Error detecting contours in ${image.filename}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    } finally {
+      setLoadingGeometryIndex(null);
+    }
+  };
+
+  // Recalculate an image from the geometry corrected in the editor
+  const handleSubmitGeometry = async (geometry: SectionGeometry) => {
+    if (!editing) return;
+    const { imageIndex, width, height } = editing;
+    const image = sourceImages[imageIndex];
+    if (!image) return;
 
-      // Generate Excel file and trigger download
-      const buffer = await workbook.xlsx.writeBuffer();
-      const blob = new Blob([buffer], {
-        type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    // Heights already resolved still apply, with their sources, if the sections were only
+    // reshaped. Sections scaled from a reference object are measured again on the new outline.
+    const sections = imageResults[imageIndex] ?? [];
+    const keepHeights = sections.length === geometry.outlines.length;
+
+    try {
+      const updated = await analyzeEditedGeometryMutation.mutateAsync({
+        image: {
+          ...image,
+          sectionHeights: keepHeights
+            ? sections.map((r) =>
+                r.calibration_source === "reference" ? null : resolvedHeight(r),
+              )
+            : undefined,
+        },
+        geometry,
+        options: analysisOptions,
       });
-      saveAs(blob, "log_analysis_results.xlsx");
+      setImageGeometries((prev) => ({
+        ...prev,
+        [imageIndex]: { width, height, geometry },
+      }));
+      applyOutcome(imageIndex, {
+        status: "success",
+        filename: image.filename,
+        sections: updated,
+      });
+      setEditing(null);
+    } catch (error) {
+      console.error("Error analyzing edited contour:", error);
+      alert(
+        `Error analyzing ${image.filename}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  };
+
+  const handleCancelJob = async () => {
+    if (!job) return;
+    try {
+      setJob(await cancelJobMutation.mutateAsync({ jobId: job.id }));
+      setIsProcessing(false);
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+      alert(`Error cancelling job: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  };
+
+  // Queue the job's failed and cancelled images again, or only the given ones
+  const handleRequeueJob = async (indices?: number[]) => {
+    if (!job) return;
+    const updated = await requeueJobMutation.mutateAsync({ jobId: job.id, indices });
+    setImageErrors((prev) => {
+      const next = { ...prev };
+      Object.keys(next)
+        .map(Number)
+        .filter((index) => !indices || indices.includes(index))
+        .forEach((index) => delete next[index]);
+      return next;
+    });
+    setJob(updated);
+    setIsProcessing(isJobActive(updated));
+  };
+
+  // The workbook is built on the server, the same report jobs and scripts produce
+  const handleExportToExcel = async () => {
+    try {
+      saveBase64File(
+        await exportWorkbookMutation.mutateAsync({
+          results,
+          stations: results.map(stationOf),
+          design: designEnabled ? designOptions : undefined,
+        }),
+      );
     } catch (error) {
       console.error("Error exporting to Excel:", error);
       alert("Failed to export results to Excel");
     }
   };
 
+  // Cover summary and a calculation sheet per section
+  const handleExportToPdf = async () => {
+    try {
+      saveBase64File(
+        await exportPdfMutation.mutateAsync({
+          results,
+          stations: results.map(stationOf),
+          design: designEnabled ? designOptions : undefined,
+        }),
+      );
+    } catch (error) {
+      console.error("Error exporting to PDF:", error);
+      alert("Failed to export the PDF report");
+    }
+  };
+
+  const handleSectionPdf = async (index: number) => {
+    const result = results[index];
+    if (!result) return;
+    try {
+      saveBase64File(
+        await sectionPdfMutation.mutateAsync({
+          result,
+          station: stationOf(result),
+          design: designEnabled ? designOptions : undefined,
+        }),
+      );
+    } catch (error) {
+      console.error("Error exporting section PDF:", error);
+      alert(`Failed to export the PDF of ${result.filename}`);
+    }
+  };
+
+  // Scaled outline of one section for CAD
+  const handleSectionCad = async (index: number, format: CadFormat) => {
+    const result = results[index];
+    if (!result) return;
+    try {
+      saveBase64File(
+        await cadMutation.mutateAsync({ result, format, origin: cadOrigin }),
+      );
+    } catch (error) {
+      console.error("Error exporting section drawing:", error);
+      alert(`Failed to export the ${format.toUpperCase()} of ${result.filename}`);
+    }
+  };
+
+  // DXF and SVG of every section in one zip
+  const handleExportCadZip = async () => {
+    try {
+      saveBase64File(
+        await cadZipMutation.mutateAsync({ results, origin: cadOrigin }),
+      );
+    } catch (error) {
+      console.error("Error exporting CAD zip:", error);
+      alert("Failed to export the CAD drawings");
+    }
+  };
+
   return (
     <div className="p-4">
       <div className="flex flex-col items-center justify-center space-y-4">
@@ -267,7 +1183,7 @@ function LogAnalyzer() {
           >
             {isProcessing ? (
               <span className="flex items-center">
-                Processing{imageUrls.length > BATCH_SIZE ? ` ${processingProgress.toFixed(0)}%` : ''}
+                Processing {processingProgress.toFixed(0)}%
                 <svg
                   className="ml-2 h-4 w-4 animate-spin text-white"
                   xmlns="http://www.w3.org/2000/svg"
@@ -293,16 +1209,561 @@ function LogAnalyzer() {
               "Upload Images"
             )}
           </button>
+          <button
+            onClick={handleImportGeometry}
+            disabled={isProcessing || analyzeGeometryMutation.isPending}
+            title="Analyze outlines from a DXF, SVG or x,y CSV file in millimetres"
+            className="rounded bg-blue-500 px-4 py-2 text-white hover:bg-blue-600 disabled:bg-gray-400"
+          >
+            {analyzeGeometryMutation.isPending
+              ? "Importing..."
+              : "Import Geometry"}
+          </button>
           {!isProcessing && results.length > 0 && (
             <button
               onClick={handleExportToExcel}
-              className="rounded bg-green-500 px-4 py-2 text-white hover:bg-green-600"
+              disabled={exportWorkbookMutation.isPending}
+              className="rounded bg-green-500 px-4 py-2 text-white hover:bg-green-600 disabled:bg-gray-400"
             >
-              Export to Excel
+              {exportWorkbookMutation.isPending
+                ? "Exporting..."
+                : "Export to Excel"}
             </button>
           )}
+          {!isProcessing && results.length > 0 && (
+            <button
+              onClick={handleExportToPdf}
+              disabled={exportPdfMutation.isPending}
+              className="rounded bg-green-500 px-4 py-2 text-white hover:bg-green-600 disabled:bg-gray-400"
+            >
+              {exportPdfMutation.isPending ? "Exporting..." : "Export PDF"}
+            </button>
+          )}
+          {!isProcessing && results.length > 0 && (
+            <>
+              <button
+                onClick={handleExportCadZip}
+                disabled={cadZipMutation.isPending}
+                className="rounded bg-green-500 px-4 py-2 text-white hover:bg-green-600 disabled:bg-gray-400"
+              >
+                {cadZipMutation.isPending ? "Exporting..." : "Export CAD (zip)"}
+              </button>
+              <label className="flex items-center space-x-2">
+                <span>CAD origin</span>
+                <select
+                  value={cadOrigin}
+                  onChange={(e) => setCadOrigin(e.target.value as CadOrigin)}
+                  className="rounded px-2 py-1 text-black"
+                >
+                  <option value="centroid">Centroid</option>
+                  <option value="bbox">Bounding box corner</option>
+                  <option value="image">Image origin</option>
+                </select>
+              </label>
+            </>
+          )}
+        </div>
+
+        {job && (
+          <div className="flex flex-row items-center justify-center space-x-4 text-sm">
+            <span>
+              Job {job.name}: {job.counts.success + job.counts.error}/
+              {job.total} done
+              {job.counts.error > 0 && `, ${job.counts.error} failed`}
+              {job.counts.cancelled > 0 &&
+                `, ${job.counts.cancelled} cancelled`}{" "}
+              ({job.status})
+            </span>
+            {job.saveError && (
+              <span className="text-red-300">
+                Job state not saved: {job.saveError}
+              </span>
+            )}
+            {isJobActive(job) && (
+              <button
+                onClick={handleCancelJob}
+                className="rounded bg-red-500 px-3 py-1 text-white hover:bg-red-600"
+              >
+                Cancel
+              </button>
+            )}
+            {!isJobActive(job) &&
+              job.counts.error + job.counts.cancelled > 0 && (
+                <button
+                  onClick={() =>
+                    handleRequeueJob().catch((error) => {
+                      console.error("Error requeueing job:", error);
+                      alert(
+                        `Error requeueing job: ${error instanceof Error ? error.message : "Unknown error"}`,
+                      );
+                    })
+                  }
+                  className="rounded bg-blue-500 px-3 py-1 text-white hover:bg-blue-600"
+                >
+                  Retry failed and cancelled
+                </button>
+              )}
+          </div>
+        )}
+
+        <div className="flex flex-row items-center justify-center space-x-4 text-sm">
+          <label className="flex items-center space-x-2">
+            <span>Project</span>
+            <input
+              type="text"
+              value={projectName}
+              onChange={(e) => setProjectName(e.target.value)}
+              className="w-32 rounded px-2 py-1 text-black"
+            />
+          </label>
+          <label className="flex items-center space-x-2">
+            <span>Run</span>
+            <input
+              type="text"
+              value={runName}
+              placeholder="Named after the upload"
+              onChange={(e) => setRunName(e.target.value)}
+              className="w-64 rounded px-2 py-1 text-black"
+            />
+          </label>
+          <span>
+            {loadingRun
+              ? "Opening run..."
+              : isSavingRun
+                ? "Saving..."
+                : runSaveError
+                  ? `Not saved: ${runSaveError}`
+                  : savedRun
+                    ? `Saved ${new Date(savedRun.updatedAt).toLocaleTimeString()}`
+                    : "Not saved yet"}
+          </span>
         </div>
 
+        <div className="flex flex-row items-center justify-center space-x-4 text-sm">
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={runInBackground}
+              disabled={isProcessing}
+              onChange={(e) => setRunInBackground(e.target.checked)}
+            />
+            <span>Run as background job</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <span>Scale from</span>
+            <select
+              value={analysisOptions.calibration.mode}
+              disabled={isProcessing}
+              onChange={(e) =>
+                setAnalysisOptions((prev) => ({
+                  ...prev,
+                  calibration: {
+                    ...prev.calibration,
+                    mode: e.target
+                      .value as AnalysisOptions["calibration"]["mode"],
+                  },
+                }))
+              }
+              className="rounded px-2 py-1 text-black"
+            >
+              <option value="height">Height label</option>
+              <option value="reference">Reference object</option>
+            </select>
+          </label>
+          {analysisOptions.calibration.mode === "reference" && (
+            <label className="flex items-center space-x-2">
+              <span>Reference size (mm)</span>
+              <input
+                type="number"
+                min={0}
+                value={analysisOptions.calibration.referenceLengthMm}
+                disabled={isProcessing}
+                onChange={(e) =>
+                  setAnalysisOptions((prev) => ({
+                    ...prev,
+                    calibration: {
+                      ...prev.calibration,
+                      referenceLengthMm: Math.max(1, Number(e.target.value)),
+                    },
+                  }))
+                }
+                className="w-20 rounded px-2 py-1 text-black"
+              />
+              <span>×</span>
+              <input
+                type="number"
+                min={0}
+                placeholder="square"
+                value={analysisOptions.calibration.referenceWidthMm ?? ""}
+                disabled={isProcessing}
+                onChange={(e) =>
+                  setAnalysisOptions((prev) => ({
+                    ...prev,
+                    calibration: {
+                      ...prev.calibration,
+                      referenceWidthMm: e.target.value
+                        ? Math.max(1, Number(e.target.value))
+                        : undefined,
+                    },
+                  }))
+                }
+                className="w-20 rounded px-2 py-1 text-black"
+              />
+            </label>
+          )}
+          {analysisOptions.calibration.mode === "height" && (
+            <label className="flex items-center space-x-2">
+              <span>Height extractor</span>
+              <select
+                value={analysisOptions.heightExtractor}
+                disabled={isProcessing}
+                onChange={(e) =>
+                  setAnalysisOptions((prev) => ({
+                    ...prev,
+                    heightExtractor: e.target
+                      .value as AnalysisOptions["heightExtractor"],
+                  }))
+                }
+                className="rounded px-2 py-1 text-black"
+              >
+                <option value="auto">Auto</option>
+                <option value="openai">OpenAI</option>
+                <option value="tesseract">Local OCR (Tesseract)</option>
+              </select>
+            </label>
+          )}
+          <label className="flex items-center space-x-2">
+            <span>Method</span>
+            <select
+              value={analysisOptions.propertyMethod}
+              disabled={isProcessing}
+              onChange={(e) =>
+                setAnalysisOptions((prev) => ({
+                  ...prev,
+                  propertyMethod: e.target
+                    .value as AnalysisOptions["propertyMethod"],
+                }))
+              }
+              className="rounded px-2 py-1 text-black"
+            >
+              <option value="auto">Auto</option>
+              <option value="raster">Raster (pixel count)</option>
+              <option value="polygon">Polygon (contour)</option>
+            </select>
+          </label>
+          {analysisOptions.propertyMethod !== "raster" && (
+            <>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={analysisOptions.subpixel}
+                  disabled={isProcessing}
+                  onChange={(e) =>
+                    setAnalysisOptions((prev) => ({
+                      ...prev,
+                      subpixel: e.target.checked,
+                    }))
+                  }
+                />
+                <span>Sub-pixel edges</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <span>Smoothing</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={analysisOptions.smoothingRadius}
+                  disabled={isProcessing}
+                  onChange={(e) =>
+                    setAnalysisOptions((prev) => ({
+                      ...prev,
+                      smoothingRadius: Math.max(
+                        0,
+                        Math.round(Number(e.target.value)),
+                      ),
+                    }))
+                  }
+                  className="w-16 rounded px-2 py-1 text-black"
+                />
+              </label>
+            </>
+          )}
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={analysisOptions.subtractVoids}
+              disabled={isProcessing}
+              onChange={(e) =>
+                setAnalysisOptions((prev) => ({
+                  ...prev,
+                  subtractVoids: e.target.checked,
+                }))
+              }
+            />
+            <span>Subtract internal voids</span>
+          </label>
+          {analysisOptions.subtractVoids && (
+            <label className="flex items-center space-x-2">
+              <span>Min void area (mm²)</span>
+              <input
+                type="number"
+                min={0}
+                value={analysisOptions.minVoidAreaMm2}
+                disabled={isProcessing}
+                onChange={(e) =>
+                  setAnalysisOptions((prev) => ({
+                    ...prev,
+                    minVoidAreaMm2: Math.max(0, Number(e.target.value)),
+                  }))
+                }
+                className="w-24 rounded px-2 py-1 text-black"
+              />
+            </label>
+          )}
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={analysisOptions.multiSection}
+              disabled={isProcessing}
+              onChange={(e) =>
+                setAnalysisOptions((prev) => ({
+                  ...prev,
+                  multiSection: e.target.checked,
+                }))
+              }
+            />
+            <span>Multiple sections per image</span>
+          </label>
+          {analysisOptions.multiSection && (
+            <label className="flex items-center space-x-2">
+              <span>Min section size (% of largest)</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={Math.round(analysisOptions.minSectionAreaFraction * 100)}
+                disabled={isProcessing}
+                onChange={(e) =>
+                  setAnalysisOptions((prev) => ({
+                    ...prev,
+                    minSectionAreaFraction:
+                      Math.min(100, Math.max(0, Number(e.target.value))) / 100,
+                  }))
+                }
+                className="w-20 rounded px-2 py-1 text-black"
+              />
+            </label>
+          )}
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={analysisOptions.decay.enabled}
+              disabled={isProcessing}
+              onChange={(e) =>
+                setAnalysisOptions((prev) => ({
+                  ...prev,
+                  decay: { ...prev.decay, enabled: e.target.checked },
+                }))
+              }
+            />
+            <span>Detect decay</span>
+          </label>
+          {analysisOptions.decay.enabled && (
+            <>
+              <label className="flex items-center space-x-2">
+                <span>Min colour difference (ΔE)</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={analysisOptions.decay.minColourDifference}
+                  disabled={isProcessing}
+                  onChange={(e) =>
+                    setAnalysisOptions((prev) => ({
+                      ...prev,
+                      decay: {
+                        ...prev.decay,
+                        minColourDifference: Math.max(
+                          1,
+                          Number(e.target.value),
+                        ),
+                      },
+                    }))
+                  }
+                  className="w-16 rounded px-2 py-1 text-black"
+                />
+              </label>
+              <label className="flex items-center space-x-2">
+                <span>Min decay region (mm²)</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={analysisOptions.decay.minRegionAreaMm2}
+                  disabled={isProcessing}
+                  onChange={(e) =>
+                    setAnalysisOptions((prev) => ({
+                      ...prev,
+                      decay: {
+                        ...prev.decay,
+                        minRegionAreaMm2: Math.max(0, Number(e.target.value)),
+                      },
+                    }))
+                  }
+                  className="w-24 rounded px-2 py-1 text-black"
+                />
+              </label>
+            </>
+          )}
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={analysisOptions.sawing.enabled}
+              disabled={isProcessing}
+              onChange={(e) =>
+                setAnalysisOptions((prev) => ({
+                  ...prev,
+                  sawing: { ...prev.sawing, enabled: e.target.checked },
+                }))
+              }
+            />
+            <span>Sawing yield</span>
+          </label>
+          {analysisOptions.sawing.enabled && (
+            <>
+              <label className="flex items-center space-x-2">
+                <span>Depth : width</span>
+                <input
+                  type="number"
+                  min={0.1}
+                  step={0.1}
+                  value={analysisOptions.sawing.aspectRatio}
+                  disabled={isProcessing}
+                  onChange={(e) =>
+                    setAnalysisOptions((prev) => ({
+                      ...prev,
+                      sawing: {
+                        ...prev.sawing,
+                        aspectRatio: Math.max(0.1, Number(e.target.value)),
+                      },
+                    }))
+                  }
+                  className="w-16 rounded px-2 py-1 text-black"
+                />
+              </label>
+              <label className="flex items-center space-x-2">
+                <span>Rotation step (°, 0 = none)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={90}
+                  value={analysisOptions.sawing.rotationStepDeg}
+                  disabled={isProcessing}
+                  onChange={(e) =>
+                    setAnalysisOptions((prev) => ({
+                      ...prev,
+                      sawing: {
+                        ...prev.sawing,
+                        rotationStepDeg: Math.min(
+                          90,
+                          Math.max(0, Number(e.target.value)),
+                        ),
+                      },
+                    }))
+                  }
+                  className="w-16 rounded px-2 py-1 text-black"
+                />
+              </label>
+              <label className="flex items-center space-x-2">
+                <span>Nominal sizes (mm)</span>
+                <input
+                  type="text"
+                  placeholder="90x45, 140x45"
+                  value={nominalSizesText}
+                  disabled={isProcessing}
+                  onChange={(e) => handleNominalSizesChange(e.target.value)}
+                  className="w-40 rounded px-2 py-1 text-black"
+                />
+              </label>
+            </>
+          )}
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={analysisOptions.torsion.enabled}
+              disabled={isProcessing}
+              onChange={(e) =>
+                setAnalysisOptions((prev) => ({
+                  ...prev,
+                  torsion: { ...prev.torsion, enabled: e.target.checked },
+                }))
+              }
+            />
+            <span>Torsion solver</span>
+          </label>
+          {analysisOptions.torsion.enabled && (
+            <>
+              <label className="flex items-center space-x-2">
+                <span>Grid cells</span>
+                <input
+                  type="number"
+                  min={20}
+                  max={600}
+                  step={10}
+                  value={analysisOptions.torsion.gridCells}
+                  disabled={isProcessing}
+                  onChange={(e) =>
+                    setAnalysisOptions((prev) => ({
+                      ...prev,
+                      torsion: {
+                        ...prev.torsion,
+                        gridCells: Math.min(
+                          600,
+                          Math.max(20, Math.round(Number(e.target.value))),
+                        ),
+                      },
+                    }))
+                  }
+                  className="w-20 rounded px-2 py-1 text-black"
+                />
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={analysisOptions.torsion.stressImage}
+                  disabled={isProcessing}
+                  onChange={(e) =>
+                    setAnalysisOptions((prev) => ({
+                      ...prev,
+                      torsion: {
+                        ...prev.torsion,
+                        stressImage: e.target.checked,
+                      },
+                    }))
+                  }
+                />
+                <span>Stress contours</span>
+              </label>
+            </>
+          )}
+        </div>
+
+        <PreprocessingPanel
+          options={analysisOptions}
+          onChange={(preprocessing) =>
+            setAnalysisOptions((prev) => ({ ...prev, preprocessing }))
+          }
+          disabled={isProcessing}
+          sampleImage={sourceImages[0]}
+        />
+
+        <DesignPanel
+          enabled={designEnabled}
+          onEnabledChange={setDesignEnabled}
+          options={designOptions}
+          onChange={setDesignOptions}
+          error={design.error}
+        />
+
         {!isProcessing && results.length === 0 && (
           <div className="mx-auto mt-6 max-w-2xl rounded-lg p-4 text-sm">
             <h4 className="mb-2 text-center font-bold">
@@ -316,6 +1777,10 @@ function LogAnalyzer() {
               <li>
                 The height measurement should be clearly visible and readable
               </li>
+              <li>
+                With multiple sections per image, place each height label
+                next to its own section
+              </li>
               <li>
                 Keep height measurements and other annotations outside the log
                 section area
@@ -341,11 +1806,16 @@ function LogAnalyzer() {
                 .map((url, index) => {
                   const actualIndex = currentPage * imagesPerPage + index;
                   const processedUrl = processedImageUrls[actualIndex];
-                  const isProcessed = processedIndices.has(actualIndex);
+                  const stage = imageStages[actualIndex];
+                  const isProcessed =
+                    processedIndices.has(actualIndex) ||
+                    stage === "annotated" ||
+                    stage === "failed";
+                  const failure = imageErrors[actualIndex];
                   return (
                     <div
                       key={actualIndex}
-                      className="aspect-square w-full overflow-hidden rounded border border-gray-300 bg-white"
+                      className={`relative aspect-square w-full overflow-hidden rounded border bg-white ${failure ? "border-red-500" : "border-gray-300"}`}
                     >
                       <Image
                         src={processedUrl ?? url}
@@ -354,6 +1824,44 @@ function LogAnalyzer() {
                         height={400}
                         className={`h-full w-full object-contain ${isProcessing && !isProcessed ? `blur-[4px] transition-all duration-500 ${pulseEffect ? "blur-[6px]" : "blur-[4px]"}` : ""}`}
                       />
+                      {isProcessing && stage && !isProcessed && (
+                        <span className="absolute left-2 top-2 rounded bg-black/70 px-2 py-1 text-xs text-white">
+                          {PROGRESS_LABELS[stage]}
+                        </span>
+                      )}
+                      {failure && (
+                        <div className="absolute inset-x-0 bottom-0 space-y-1 bg-red-600/90 p-2 text-xs text-white">
+                          <p className="font-bold">
+                            {STAGE_LABELS[failure.stage]} failed
+                          </p>
+                          <p className="line-clamp-3">{failure.message}</p>
+                          <button
+                            onClick={() => handleRetry(actualIndex)}
+                            disabled={retryingIndices.has(actualIndex)}
+                            className="rounded bg-white px-2 py-1 text-red-600 hover:bg-gray-100 disabled:opacity-50"
+                          >
+                            {retryingIndices.has(actualIndex)
+                              ? "Retrying..."
+                              : "Retry"}
+                          </button>
+                        </div>
+                      )}
+                      {processedUrl && !failure && (
+                        <button
+                          onClick={() => handleEditContour(actualIndex)}
+                          disabled={
+                            loadingGeometryIndex !== null ||
+                            recomputingIndices.size > 0
+                          }
+                          className="absolute right-2 top-2 rounded bg-black/70 px-2 py-1 text-xs text-white hover:bg-black/90 disabled:opacity-50"
+                        >
+                          {loadingGeometryIndex === actualIndex
+                            ? "Detecting..."
+                            : imageGeometries[actualIndex]
+                              ? "Edit contour (edited)"
+                              : "Edit contour"}
+                        </button>
+                      )}
                     </div>
                   );
                 })}
@@ -383,7 +1891,7 @@ function LogAnalyzer() {
         </div>
       )}
 
-      {results.length > 0 && (
+      {(results.length > 0 || Object.keys(imageErrors).length > 0) && (
         <div className="mt-4">
           <h3 className="mb-2 text-xl font-bold">Results</h3>
           <div className="overflow-x-auto">
@@ -391,20 +1899,171 @@ function LogAnalyzer() {
               <thead>
                 <tr>
                   <th className="border p-2">Filename</th>
+                  <th className="border p-2">Log ID</th>
+                  <th className="border p-2">Station (mm)</th>
                   <th className="border p-2">Height (mm)</th>
+                  <th className="border p-2">Height Source</th>
+                  <th className="border p-2">Scale (mm/px)</th>
                   <th className="border p-2">Area (mm²)</th>
                   <th className="border p-2">Centroid X (mm)</th>
                   <th className="border p-2">Centroid Y (mm)</th>
                   <th className="border p-2">Ixx (mm⁴)</th>
+                  <th className="border p-2">Iyy (mm⁴)</th>
+                  <th className="border p-2">Ixy (mm⁴)</th>
+                  <th className="border p-2">J (mm⁴)</th>
+                  <th className="border p-2">rx (mm)</th>
+                  <th className="border p-2">ry (mm)</th>
+                  <th className="border p-2">I1 (mm⁴)</th>
+                  <th className="border p-2">I2 (mm⁴)</th>
+                  <th className="border p-2">Principal Angle (°)</th>
                   <th className="border p-2">Section Modulus (mm³)</th>
+                  <th className="border p-2">Zx Top (mm³)</th>
+                  <th className="border p-2">Zx Bottom (mm³)</th>
+                  <th className="border p-2">Zy Left (mm³)</th>
+                  <th className="border p-2">Zy Right (mm³)</th>
+                  <th className="border p-2">Zpx (mm³)</th>
+                  <th className="border p-2">Zpy (mm³)</th>
+                  <th className="border p-2">Shape Factor X</th>
+                  <th className="border p-2">Shape Factor Y</th>
+                  <th className="border p-2">Eq. Diameter (mm)</th>
+                  <th className="border p-2">Feret Min/Max (mm)</th>
+                  <th className="border p-2">Ovality</th>
+                  <th className="border p-2">Solidity</th>
+                  <th className="border p-2">Centroid Offset (mm)</th>
+                  <th className="border p-2">Gross Area (mm²)</th>
+                  <th className="border p-2">Void Area (mm²)</th>
+                  <th className="border p-2">Qx / Qy (mm³)</th>
+                  <th className="border p-2">Shear Area X / Y (mm²)</th>
+                  {showDecay && (
+                    <>
+                      <th className="border p-2">Sound Area (mm²)</th>
+                      <th className="border p-2">Sound Ixx (mm⁴)</th>
+                      <th className="border p-2">Decay (%)</th>
+                      <th className="border p-2">Decay Regions</th>
+                    </>
+                  )}
+                  {showSawing && (
+                    <>
+                      <th className="border p-2">Sawn Cut (mm)</th>
+                      <th className="border p-2">Sawn Recovery (%)</th>
+                      <th className="border p-2">Max Z Cut (mm)</th>
+                      <th className="border p-2">Max Z Cut Modulus (mm³)</th>
+                      <th className="border p-2">Nominal Cut</th>
+                    </>
+                  )}
+                  {showTorsion && (
+                    <>
+                      <th className="border p-2">Torsion J (mm⁴)</th>
+                      <th className="border p-2">Torsion Modulus (mm³)</th>
+                      <th className="border p-2">Shear Centre (mm)</th>
+                      <th className="border p-2">Solver</th>
+                      <th className="border p-2">Stress Contours</th>
+                    </>
+                  )}
+                  {showDesign && (
+                    <>
+                      <th className="border p-2">Grade</th>
+                      <th className="border p-2">Moment Capacity (kNm)</th>
+                      <th className="border p-2">Shear Capacity (kN)</th>
+                      <th className="border p-2">Deflection (mm)</th>
+                      <th className="border p-2">Design Check</th>
+                    </>
+                  )}
+                  <th className="border p-2">Method</th>
+                  <th className="border p-2">Raster vs Polygon Ixx</th>
                 </tr>
               </thead>
               <tbody>
                 {results.map((result, index) => (
                   <tr key={index}>
-                    <td className="border p-2">{result.filename}</td>
                     <td className="border p-2">
-                      {result.detected_height_mm?.toFixed(2) ?? "N/A"}
+                      {result.filename}
+                      <button
+                        onClick={() => handleSectionPdf(index)}
+                        disabled={sectionPdfMutation.isPending}
+                        title="Download the calculation sheet of this section"
+                        className="ml-2 rounded bg-gray-200 px-1 text-xs text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+                      >
+                        PDF
+                      </button>
+                      {(["dxf", "svg"] as const).map((format) => (
+                        <button
+                          key={format}
+                          onClick={() => handleSectionCad(index, format)}
+                          disabled={cadMutation.isPending}
+                          title={`Download the outline of this section as ${format.toUpperCase()}`}
+                          className="ml-1 rounded bg-gray-200 px-1 text-xs text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+                        >
+                          {format.toUpperCase()}
+                        </button>
+                      ))}
+                    </td>
+                    <td className="border p-2">
+                      <input
+                        type="text"
+                        value={stationOf(result).logId}
+                        onChange={(e) =>
+                          handleStationChange(result, {
+                            logId: e.target.value,
+                          })
+                        }
+                        className="w-20 rounded px-2 py-1 text-black"
+                      />
+                    </td>
+                    <td className="border p-2">
+                      <input
+                        key={`${result.filename}-${stationOf(result).stationMm}`}
+                        type="number"
+                        min={0}
+                        step="any"
+                        defaultValue={stationOf(result).stationMm ?? ""}
+                        onBlur={(e) =>
+                          handleStationChange(result, {
+                            stationMm:
+                              e.target.value === ""
+                                ? null
+                                : Math.max(0, Number(e.target.value)),
+                          })
+                        }
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") e.currentTarget.blur();
+                        }}
+                        className="w-24 rounded px-2 py-1 text-black"
+                      />
+                    </td>
+                    <td className="border p-2">
+                      <input
+                        key={`${index}-${result.detected_height_mm}`}
+                        type="number"
+                        min={0}
+                        step="any"
+                        defaultValue={Number(
+                          result.detected_height_mm.toFixed(2),
+                        )}
+                        disabled={isProcessing || recomputingIndices.has(index)}
+                        onBlur={(e) =>
+                          handleHeightChange(index, Number(e.target.value))
+                        }
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") e.currentTarget.blur();
+                        }}
+                        className={`w-24 rounded px-2 py-1 text-black ${recomputingIndices.has(index) ? "animate-pulse" : ""}`}
+                      />
+                    </td>
+                    <td
+                      className="border p-2"
+                      title={
+                        result.height_fallback &&
+                        `Chosen extractor passed over: ${result.height_fallback}`
+                      }
+                    >
+                      {result.height_source} (
+                      {(result.height_confidence * 100).toFixed(0)}%)
+                      {result.height_fallback && " (fallback)"}
+                    </td>
+                    <td className="border p-2">
+                      {result.scale_mm_per_px.toFixed(4)} (
+                      {result.calibration_source})
                     </td>
                     <td className="border p-2">{result.area_mm2.toFixed(2)}</td>
                     <td className="border p-2">
@@ -414,14 +2073,284 @@ function LogAnalyzer() {
                       {result.centroid_y_mm.toFixed(2)}
                     </td>
                     <td className="border p-2">{result.Ixx_mm4.toFixed(2)}</td>
+                    <td className="border p-2">{result.Iyy_mm4.toFixed(2)}</td>
+                    <td className="border p-2">{result.Ixy_mm4.toFixed(2)}</td>
+                    <td className="border p-2">{result.J_mm4.toFixed(2)}</td>
+                    <td className="border p-2">{result.rx_mm.toFixed(2)}</td>
+                    <td className="border p-2">{result.ry_mm.toFixed(2)}</td>
+                    <td className="border p-2">{result.I1_mm4.toFixed(2)}</td>
+                    <td className="border p-2">{result.I2_mm4.toFixed(2)}</td>
+                    <td className="border p-2">
+                      {result.principal_angle_deg.toFixed(2)}
+                    </td>
                     <td className="border p-2">
                       {result.section_modulus_mm3.toFixed(2)}
                     </td>
+                    <td className="border p-2">
+                      {result.Zx_top_mm3.toFixed(2)}
+                    </td>
+                    <td className="border p-2">
+                      {result.Zx_bottom_mm3.toFixed(2)}
+                    </td>
+                    <td className="border p-2">
+                      {result.Zy_left_mm3.toFixed(2)}
+                    </td>
+                    <td className="border p-2">
+                      {result.Zy_right_mm3.toFixed(2)}
+                    </td>
+                    <td className="border p-2">
+                      {result.plastic_modulus_x_mm3.toFixed(2)}
+                    </td>
+                    <td className="border p-2">
+                      {result.plastic_modulus_y_mm3.toFixed(2)}
+                    </td>
+                    <td className="border p-2">
+                      {result.shape_factor_x.toFixed(3)}
+                    </td>
+                    <td className="border p-2">
+                      {result.shape_factor_y.toFixed(3)}
+                    </td>
+                    <td className="border p-2">
+                      {result.equivalent_diameter_mm.toFixed(1)}
+                    </td>
+                    <td className="border p-2">
+                      {result.feret_min_mm.toFixed(1)} /{" "}
+                      {result.feret_max_mm.toFixed(1)}
+                    </td>
+                    <td className="border p-2">
+                      {result.ovality_ratio.toFixed(3)}
+                    </td>
+                    <td className="border p-2">
+                      {result.solidity.toFixed(3)}
+                    </td>
+                    <td
+                      className="border p-2"
+                      title={`From the fitted ellipse centre: ${result.centroid_offset_ellipse_mm.toFixed(1)} mm`}
+                    >
+                      {result.centroid_offset_bbox_mm.toFixed(1)}
+                    </td>
+                    <td className="border p-2">
+                      {result.gross_area_mm2.toFixed(2)}
+                    </td>
+                    <td className="border p-2">
+                      {result.void_area_mm2.toFixed(2)}
+                      {result.void_count > 0 && ` (${result.void_count})`}
+                    </td>
+                    <td className="border p-2">
+                      {result.Q_x_mm3.toFixed(2)} / {result.Q_y_mm3.toFixed(2)}
+                    </td>
+                    <td className="border p-2">
+                      {result.shear_area_x_mm2.toFixed(2)} /{" "}
+                      {result.shear_area_y_mm2.toFixed(2)}
+                    </td>
+                    {showDecay && (
+                      <>
+                        <td className="border p-2">
+                          {result.sound_area_mm2.toFixed(2)}
+                        </td>
+                        <td className="border p-2">
+                          {result.sound_Ixx_mm4.toFixed(2)}
+                        </td>
+                        <td className="border p-2">
+                          {result.decay_percent.toFixed(1)}
+                        </td>
+                        <td className="border p-2">
+                          <div className="flex flex-row flex-wrap gap-1">
+                            {result.decay_regions.map((region) => (
+                              <button
+                                key={region.id}
+                                onClick={() =>
+                                  handleToggleDecayRegion(index, region.id)
+                                }
+                                disabled={recomputingIndices.has(index)}
+                                title={`${region.area_mm2.toFixed(0)} mm², ΔE ${region.colour_difference.toFixed(1)}, texture ×${region.texture_ratio.toFixed(1)}. Click to ${region.accepted ? "reject" : "accept"}.`}
+                                className={`rounded px-2 py-1 text-xs disabled:opacity-50 ${region.accepted ? "bg-orange-500 text-white" : "bg-gray-200 text-gray-500 line-through"}`}
+                              >
+                                D{region.id + 1}
+                              </button>
+                            ))}
+                          </div>
+                        </td>
+                      </>
+                    )}
+                    {showSawing && (
+                      <>
+                        <td className="border p-2">
+                          {cutSize(result.sawing?.aspect_cut) ?? "-"}
+                        </td>
+                        <td className="border p-2">
+                          {cutRecovery(result.sawing?.aspect_cut)?.toFixed(1) ??
+                            "-"}
+                        </td>
+                        <td className="border p-2">
+                          {cutSize(result.sawing?.max_modulus_cut) ?? "-"}
+                        </td>
+                        <td className="border p-2">
+                          {result.sawing?.max_modulus_cut?.section_modulus_mm3.toFixed(
+                            2,
+                          ) ?? "-"}
+                        </td>
+                        <td
+                          className="border p-2"
+                          title={
+                            result.sawing &&
+                            result.sawing.fitting_nominal_sizes.length > 0
+                              ? `Also fits: ${result.sawing.fitting_nominal_sizes.join(", ")}`
+                              : undefined
+                          }
+                        >
+                          {result.sawing?.nominal_cut
+                            ? `${result.sawing.nominal_cut.label} (${result.sawing.nominal_cut.recovery_percent.toFixed(1)}%)`
+                            : "-"}
+                        </td>
+                      </>
+                    )}
+                    {showTorsion && (
+                      <>
+                        <td className="border p-2">
+                          {result.torsion?.torsion_constant_mm4.toFixed(2) ??
+                            "-"}
+                        </td>
+                        <td className="border p-2">
+                          {result.torsion?.torsion_modulus_mm3.toFixed(2) ??
+                            "-"}
+                        </td>
+                        <td className="border p-2">
+                          {result.torsion
+                            ? `${result.torsion.shear_centre_x_mm.toFixed(1)}, ${result.torsion.shear_centre_y_mm.toFixed(1)}`
+                            : "-"}
+                        </td>
+                        <td
+                          className={`border p-2 ${result.torsion && !result.torsion.converged ? "text-red-500" : ""}`}
+                          title={
+                            result.torsion
+                              ? `${result.torsion.iterations} iterations, residual ${result.torsion.residual.toExponential(1)}`
+                              : undefined
+                          }
+                        >
+                          {result.torsion
+                            ? `${result.torsion.converged ? "Converged" : "Not converged"}, ±${result.torsion.grid_change_percent.toFixed(1)}%`
+                            : "-"}
+                        </td>
+                        <td className="border p-2">
+                          {result.torsion?.stress_image_data ? (
+                            <a
+                              href={result.torsion.stress_image_data}
+                              download={`${result.filename}_torsion.png`}
+                            >
+                              <Image
+                                src={result.torsion.stress_image_data}
+                                alt={`Torsional stress in ${result.filename}`}
+                                width={64}
+                                height={64}
+                                className="h-16 w-16 object-contain"
+                              />
+                            </a>
+                          ) : (
+                            "-"
+                          )}
+                        </td>
+                      </>
+                    )}
+                    {showDesign && designChecks[index] && (
+                      <>
+                        <td className="border p-2">
+                          {designChecks[index].grade}
+                        </td>
+                        <td
+                          className="border p-2"
+                          title={`Design moment ${designChecks[index].moment_kNm.toFixed(2)} kNm`}
+                        >
+                          {designChecks[index].moment_capacity_kNm.toFixed(2)} (
+                          {(
+                            designChecks[index].bending_utilisation * 100
+                          ).toFixed(0)}
+                          %)
+                        </td>
+                        <td
+                          className="border p-2"
+                          title={`Design shear ${designChecks[index].shear_kN.toFixed(2)} kN`}
+                        >
+                          {designChecks[index].shear_capacity_kN.toFixed(2)} (
+                          {(designChecks[index].shear_utilisation * 100).toFixed(
+                            0,
+                          )}
+                          %)
+                        </td>
+                        <td
+                          className="border p-2"
+                          title={`Limit ${designChecks[index].deflection_limit_mm.toFixed(1)} mm`}
+                        >
+                          {designChecks[index].deflection_mm.toFixed(1)} (
+                          {(
+                            designChecks[index].deflection_utilisation * 100
+                          ).toFixed(0)}
+                          %)
+                        </td>
+                        <td
+                          className={`border p-2 font-bold ${designChecks[index].passes ? "text-green-500" : "text-red-500"}`}
+                        >
+                          {designChecks[index].passes ? "PASS" : "FAIL"}
+                        </td>
+                      </>
+                    )}
+                    <td className="border p-2">{result.property_method}</td>
+                    <td className="border p-2">
+                      {result.raster_Ixx_mm4 === null
+                        ? "-"
+                        : `${(
+                            ((result.raster_Ixx_mm4 - result.polygon_Ixx_mm4) /
+                              result.polygon_Ixx_mm4) *
+                            100
+                          ).toFixed(2)}%`}
+                    </td>
+                  </tr>
+                ))}
+                {Object.entries(imageErrors).map(([imageIndex, failure]) => (
+                  <tr key={`error-${imageIndex}`} className="text-red-500">
+                    <td className="border p-2">
+                      {sourceImages[Number(imageIndex)]?.filename}
+                    </td>
+                    <td className="border p-2" colSpan={failedRowSpan}>
+                      <span className="font-bold">
+                        {STAGE_LABELS[failure.stage]} failed:
+                      </span>{" "}
+                      {failure.message}{" "}
+                      <button
+                        onClick={() => handleRetry(Number(imageIndex))}
+                        disabled={retryingIndices.has(Number(imageIndex))}
+                        className="ml-2 rounded bg-blue-500 px-2 py-1 text-white hover:bg-blue-600 disabled:opacity-50"
+                      >
+                        {retryingIndices.has(Number(imageIndex))
+                          ? "Retrying..."
+                          : "Retry"}
+                      </button>
+                    </td>
                   </tr>
                 ))}
               </tbody>
             </table>
           </div>
+          <LogProfiles profiles={logProfiles} />
+        </div>
+      )}
+
+      {editing && sourceImages[editing.imageIndex] && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4">
+          <div className="max-h-full w-full max-w-5xl overflow-y-auto rounded bg-gray-800 p-4">
+            <h3 className="mb-2 text-xl font-bold">
+              Edit contour: {sourceImages[editing.imageIndex]!.filename}
+            </h3>
+            <ContourEditor
+              imageUrl={sourceImages[editing.imageIndex]!.data}
+              width={editing.width}
+              height={editing.height}
+              initialGeometry={editing.geometry}
+              isSubmitting={analyzeEditedGeometryMutation.isPending}
+              onSubmit={handleSubmitGeometry}
+              onCancel={() => setEditing(null)}
+            />
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,183 @@
+"use client";
+import { type LogProfile } from "~/server/analysis/logProfile";
+
+type ProfileStation = LogProfile["stations"][number];
+
+interface ProfileChartProps {
+  title: string;
+  stations: ProfileStation[];
+  value: (station: ProfileStation) => number;
+  colour: string;
+}
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = { top: 12, right: 12, bottom: 28, left: 64 };
+
+// Compact axis labels for values spanning many orders of magnitude
+const formatValue = (value: number) =>
+  Math.abs(value) >= 1e4 ? value.toExponential(2) : value.toFixed(0);
+
+/** One section property plotted against the station position along the log. */
+function ProfileChart({ title, stations, value, colour }: ProfileChartProps) {
+  const positions = stations.map((station) => station.position_mm);
+  const values = stations.map(value);
+  const minX = Math.min(...positions);
+  const maxX = Math.max(...positions);
+  const maxY = Math.max(...values, 0);
+
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  // A single station sits in the middle of the chart
+  const toX = (x: number) =>
+    CHART_PADDING.left +
+    (maxX > minX ? ((x - minX) / (maxX - minX)) * plotWidth : plotWidth / 2);
+  const toY = (y: number) =>
+    CHART_PADDING.top + plotHeight - (maxY > 0 ? (y / maxY) * plotHeight : 0);
+
+  const points = stations.map((station, i) => ({
+    x: toX(station.position_mm),
+    y: toY(values[i]!),
+    station,
+  }));
+
+  return (
+    <div className="flex flex-col items-center">
+      <span className="text-sm font-bold">{title}</span>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-80 rounded bg-white/5"
+      >
+        <line
+          x1={CHART_PADDING.left}
+          y1={CHART_PADDING.top + plotHeight}
+          x2={CHART_PADDING.left + plotWidth}
+          y2={CHART_PADDING.top + plotHeight}
+          stroke="#9CA3AF"
+        />
+        <line
+          x1={CHART_PADDING.left}
+          y1={CHART_PADDING.top}
+          x2={CHART_PADDING.left}
+          y2={CHART_PADDING.top + plotHeight}
+          stroke="#9CA3AF"
+        />
+        <text
+          x={CHART_PADDING.left - 4}
+          y={CHART_PADDING.top + 4}
+          textAnchor="end"
+          fontSize={10}
+          fill="#D1D5DB"
+        >
+          {formatValue(maxY)}
+        </text>
+        <text
+          x={CHART_PADDING.left - 4}
+          y={CHART_PADDING.top + plotHeight}
+          textAnchor="end"
+          fontSize={10}
+          fill="#D1D5DB"
+        >
+          0
+        </text>
+        <text
+          x={CHART_PADDING.left}
+          y={CHART_HEIGHT - 8}
+          textAnchor="start"
+          fontSize={10}
+          fill="#D1D5DB"
+        >
+          {minX.toFixed(0)} mm
+        </text>
+        <text
+          x={CHART_PADDING.left + plotWidth}
+          y={CHART_HEIGHT - 8}
+          textAnchor="end"
+          fontSize={10}
+          fill="#D1D5DB"
+        >
+          {maxX.toFixed(0)} mm
+        </text>
+        <polyline
+          points={points.map((point) => `${point.x},${point.y}`).join(" ")}
+          fill="none"
+          stroke={colour}
+          strokeWidth={2}
+        />
+        {points.map((point) => (
+          <circle
+            key={point.station.label}
+            cx={point.x}
+            cy={point.y}
+            r={4}
+            fill={colour}
+          >
+            <title>
+              {`${point.station.label}: ${formatValue(value(point.station))} at ${point.station.position_mm.toFixed(0)} mm`}
+            </title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+/**
+ * Volume and taper of each log the sections were assigned to, with area, Ixx and section modulus
+ * plotted from the butt to the top.
+ */
+function LogProfiles({ profiles }: { profiles: LogProfile[] }) {
+  if (profiles.length === 0) return null;
+
+  return (
+    <div className="mt-6">
+      <h3 className="mb-2 text-xl font-bold">Logs</h3>
+      <div className="flex flex-col space-y-6">
+        {profiles.map((profile) => (
+          <div key={profile.log_id} className="rounded bg-white/10 p-4">
+            <h4 className="mb-2 font-bold">
+              Log {profile.log_id} ({profile.station_count} station
+              {profile.station_count === 1 ? "" : "s"})
+            </h4>
+            <div className="mb-4 flex flex-row flex-wrap gap-x-6 gap-y-1 text-sm">
+              <span>Length: {profile.length_mm.toFixed(0)} mm</span>
+              <span>
+                Volume (Smalian): {profile.volume_smalian_m3.toFixed(4)} m³
+              </span>
+              <span>
+                Volume (Huber): {profile.volume_huber_m3.toFixed(4)} m³
+              </span>
+              <span>
+                Butt / top diameter: {profile.butt_diameter_mm.toFixed(1)} /{" "}
+                {profile.top_diameter_mm.toFixed(1)} mm
+              </span>
+              <span>Taper: {profile.taper_mm_per_m.toFixed(1)} mm/m</span>
+            </div>
+            <div className="flex flex-row flex-wrap justify-center gap-4">
+              <ProfileChart
+                title="Area (mm²)"
+                stations={profile.stations}
+                value={(station) => station.area_mm2}
+                colour="#60A5FA"
+              />
+              <ProfileChart
+                title="Ixx (mm⁴)"
+                stations={profile.stations}
+                value={(station) => station.Ixx_mm4}
+                colour="#F472B6"
+              />
+              <ProfileChart
+                title="Section Modulus (mm³)"
+                stations={profile.stations}
+                value={(station) => station.section_modulus_mm3}
+                colour="#34D399"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default LogProfiles;
@@ -0,0 +1,296 @@
+"use client";
+import { useState } from "react";
+import Image from "next/image";
+import {
+  type AnalysisOptions,
+  type PreprocessingOptions,
+} from "~/server/analysis/options";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+type MaskPreview = RouterOutputs["image"]["previewMask"];
+
+interface PreprocessingPanelProps {
+  options: AnalysisOptions; // Previews use every option, not just preprocessing
+  onChange: (preprocessing: PreprocessingOptions) => void;
+  disabled: boolean;
+  sampleImage?: { data: string; filename: string }; // First uploaded image, previewed by default
+}
+
+/**
+ * Settings for turning photos into the binary mask the sections are traced from, with a preview of
+ * the mask for one image.
+ */
+function PreprocessingPanel({
+  options,
+  onChange,
+  disabled,
+  sampleImage,
+}: PreprocessingPanelProps) {
+  const [previewImage, setPreviewImage] = useState<
+    { data: string; filename: string } | undefined
+  >(undefined);
+  const [preview, setPreview] = useState<MaskPreview | null>(null);
+  const previewMaskMutation = api.image.previewMask.useMutation();
+
+  const preprocessing = options.preprocessing;
+  const image = previewImage ?? sampleImage;
+
+  const update = (changes: Partial<PreprocessingOptions>) =>
+    onChange({ ...preprocessing, ...changes });
+
+  const runPreview = async (target = image) => {
+    if (!target) return;
+    try {
+      setPreview(
+        await previewMaskMutation.mutateAsync({ image: target, options }),
+      );
+    } catch (error) {
+      console.error("Error previewing mask:", error);
+      alert(
+        `Error previewing mask: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  };
+
+  // Pick a different image to tune the settings on
+  const handleChooseImage = () => {
+    const fileInput = document.createElement("input");
+    fileInput.type = "file";
+    fileInput.accept = "image/png,image/jpeg,image/jpg";
+    fileInput.onchange = () => {
+      const file = fileInput.files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        const chosen = { data: reader.result as string, filename: file.name };
+        setPreviewImage(chosen);
+        void runPreview(chosen);
+      };
+      reader.readAsDataURL(file);
+    };
+    fileInput.click();
+  };
+
+  return (
+    <details className="w-full max-w-4xl rounded bg-white/10 p-3 text-sm">
+      <summary className="cursor-pointer font-bold">
+        Preprocessing and mask preview
+      </summary>
+      <div className="mt-3 flex flex-row flex-wrap items-center justify-center gap-4">
+        <label className="flex items-center space-x-2">
+          <span>Convert using</span>
+          <select
+            value={preprocessing.conversion}
+            disabled={disabled}
+            onChange={(e) =>
+              update({
+                conversion: e.target
+                  .value as PreprocessingOptions["conversion"],
+              })
+            }
+            className="rounded px-2 py-1 text-black"
+          >
+            <option value="luminance">Brightness</option>
+            <option value="saturation">Colour saturation</option>
+            <option value="auto">Auto (best contrast)</option>
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>Blur</span>
+          <select
+            value={preprocessing.blur}
+            disabled={disabled}
+            onChange={(e) =>
+              update({ blur: e.target.value as PreprocessingOptions["blur"] })
+            }
+            className="rounded px-2 py-1 text-black"
+          >
+            <option value="none">None</option>
+            <option value="gaussian">Gaussian</option>
+            <option value="median">Median</option>
+          </select>
+          {preprocessing.blur !== "none" && (
+            <input
+              type="number"
+              min={1}
+              step={2}
+              value={preprocessing.blurKernelSize}
+              disabled={disabled}
+              onChange={(e) =>
+                update({
+                  blurKernelSize: Math.max(
+                    1,
+                    Math.round(Number(e.target.value)),
+                  ),
+                })
+              }
+              className="w-16 rounded px-2 py-1 text-black"
+            />
+          )}
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>Threshold</span>
+          <select
+            value={preprocessing.thresholdMode}
+            disabled={disabled}
+            onChange={(e) =>
+              update({
+                thresholdMode: e.target
+                  .value as PreprocessingOptions["thresholdMode"],
+              })
+            }
+            className="rounded px-2 py-1 text-black"
+          >
+            <option value="otsu">Automatic (Otsu)</option>
+            <option value="adaptive">Adaptive (uneven lighting)</option>
+            <option value="manual">Manual</option>
+          </select>
+        </label>
+        {preprocessing.thresholdMode === "manual" && (
+          <label className="flex items-center space-x-2">
+            <span>Level</span>
+            <input
+              type="range"
+              min={0}
+              max={255}
+              value={preprocessing.thresholdValue}
+              disabled={disabled}
+              onChange={(e) =>
+                update({ thresholdValue: Number(e.target.value) })
+              }
+            />
+            <span className="w-8">{preprocessing.thresholdValue}</span>
+          </label>
+        )}
+        {preprocessing.thresholdMode === "adaptive" && (
+          <>
+            <label className="flex items-center space-x-2">
+              <span>Block size (px)</span>
+              <input
+                type="number"
+                min={3}
+                step={2}
+                value={preprocessing.adaptiveBlockSize}
+                disabled={disabled}
+                onChange={(e) =>
+                  update({
+                    adaptiveBlockSize: Math.max(
+                      3,
+                      Math.round(Number(e.target.value)),
+                    ),
+                  })
+                }
+                className="w-20 rounded px-2 py-1 text-black"
+              />
+            </label>
+            <label className="flex items-center space-x-2">
+              <span>Offset</span>
+              <input
+                type="number"
+                value={preprocessing.adaptiveOffset}
+                disabled={disabled}
+                onChange={(e) =>
+                  update({ adaptiveOffset: Number(e.target.value) })
+                }
+                className="w-16 rounded px-2 py-1 text-black"
+              />
+            </label>
+          </>
+        )}
+        <label className="flex items-center space-x-2">
+          <span>Sections are</span>
+          <select
+            value={preprocessing.foreground}
+            disabled={disabled}
+            onChange={(e) =>
+              update({
+                foreground: e.target
+                  .value as PreprocessingOptions["foreground"],
+              })
+            }
+            className="rounded px-2 py-1 text-black"
+          >
+            <option value="auto">Auto-detect</option>
+            <option value="dark">Dark on light</option>
+            <option value="light">Light on dark</option>
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>Clean up</span>
+          <select
+            value={preprocessing.morphology}
+            disabled={disabled}
+            onChange={(e) =>
+              update({
+                morphology: e.target
+                  .value as PreprocessingOptions["morphology"],
+              })
+            }
+            className="rounded px-2 py-1 text-black"
+          >
+            <option value="none">None</option>
+            <option value="open">Open (remove specks)</option>
+            <option value="close">Close (fill cracks)</option>
+            <option value="open-close">Open and close</option>
+          </select>
+          {preprocessing.morphology !== "none" && (
+            <input
+              type="number"
+              min={1}
+              value={preprocessing.morphologyKernelSize}
+              disabled={disabled}
+              onChange={(e) =>
+                update({
+                  morphologyKernelSize: Math.max(
+                    1,
+                    Math.round(Number(e.target.value)),
+                  ),
+                })
+              }
+              className="w-16 rounded px-2 py-1 text-black"
+            />
+          )}
+        </label>
+      </div>
+
+      <div className="mt-3 flex flex-row items-center justify-center space-x-2">
+        <button
+          onClick={handleChooseImage}
+          disabled={previewMaskMutation.isPending}
+          className="rounded bg-gray-200 px-3 py-1 text-black hover:bg-gray-300"
+        >
+          Choose preview image
+        </button>
+        <button
+          onClick={() => runPreview()}
+          disabled={!image || previewMaskMutation.isPending}
+          className="rounded bg-blue-500 px-3 py-1 text-white hover:bg-blue-600 disabled:bg-gray-400"
+        >
+          {previewMaskMutation.isPending ? "Previewing..." : "Preview mask"}
+        </button>
+        {image && <span className="text-gray-300">{image.filename}</span>}
+      </div>
+
+      {preview && (
+        <div className="mt-3 flex flex-col items-center space-y-2">
+          <p>
+            Threshold {preview.threshold.toFixed(0)},{" "}
+            {preview.foreground === "dark" ? "dark" : "light"} sections,{" "}
+            {preview.sectionCount === 0
+              ? "no section found"
+              : `${preview.sectionCount} section${preview.sectionCount === 1 ? "" : "s"} outlined in green`}
+          </p>
+          <Image
+            src={preview.maskData}
+            alt="Binary mask preview"
+            width={600}
+            height={600}
+            className="max-h-96 w-auto rounded border border-gray-300 object-contain"
+          />
+        </div>
+      )}
+    </details>
+  );
+}
+
+export default PreprocessingPanel;
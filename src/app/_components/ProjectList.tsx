@@ -0,0 +1,140 @@
+"use client";
+import { useMemo } from "react";
+import Link from "next/link";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+type RunSummary = RouterOutputs["run"]["listRuns"][number];
+
+/**
+ * Saved runs grouped by project, newest first, with their names and projects editable in place.
+ * Opening a run loads it back into the analyzer with its images, settings and results.
+ */
+function ProjectList() {
+  const runsQuery = api.run.listRuns.useQuery();
+  const renameRunMutation = api.run.renameRun.useMutation();
+  const deleteRunMutation = api.run.deleteRun.useMutation();
+  const utils = api.useUtils();
+
+  const projects = useMemo(() => {
+    const byProject = new Map<string, RunSummary[]>();
+    for (const run of runsQuery.data ?? []) {
+      byProject.set(run.project, [...(byProject.get(run.project) ?? []), run]);
+    }
+    return [...byProject.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [runsQuery.data]);
+
+  // Save a name or project once it has been edited and left
+  const handleRename = async (
+    run: RunSummary,
+    changes: { name?: string; project?: string },
+  ) => {
+    const name = changes.name?.trim();
+    const project = changes.project?.trim();
+    if ((name ?? run.name) === run.name && (project ?? run.project) === run.project) {
+      return;
+    }
+    if (name === "" || project === "") return;
+
+    try {
+      await renameRunMutation.mutateAsync({ runId: run.id, name, project });
+      await utils.run.listRuns.invalidate();
+    } catch (error) {
+      console.error("Error renaming run:", error);
+      alert(`Failed to rename ${run.name}`);
+    }
+  };
+
+  const handleDelete = async (run: RunSummary) => {
+    if (!confirm(`Delete ${run.name} with its ${run.imageCount} images?`)) return;
+    try {
+      await deleteRunMutation.mutateAsync({ runId: run.id });
+      await utils.run.listRuns.invalidate();
+    } catch (error) {
+      console.error("Error deleting run:", error);
+      alert(`Failed to delete ${run.name}`);
+    }
+  };
+
+  if (runsQuery.isLoading) return <p>Loading runs...</p>;
+  if (runsQuery.error) {
+    return <p className="text-red-300">Failed to load runs: {runsQuery.error.message}</p>;
+  }
+  if (projects.length === 0) {
+    return (
+      <p>
+        No saved runs yet. Runs are saved as soon as their images have been
+        analyzed.
+      </p>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-5xl space-y-6">
+      {projects.map(([project, runs]) => (
+        <section key={project}>
+          <h2 className="mb-2 text-2xl font-bold">{project}</h2>
+          <table className="w-full border text-sm">
+            <thead>
+              <tr>
+                <th className="border p-2">Run</th>
+                <th className="border p-2">Project</th>
+                <th className="border p-2">Images</th>
+                <th className="border p-2">Sections</th>
+                <th className="border p-2">Failed</th>
+                <th className="border p-2">Last Saved</th>
+                <th className="border p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((run) => (
+                <tr key={run.id}>
+                  <td className="border p-2">
+                    <input
+                      type="text"
+                      defaultValue={run.name}
+                      onBlur={(e) => handleRename(run, { name: e.target.value })}
+                      className="w-full rounded px-2 py-1 text-black"
+                    />
+                  </td>
+                  <td className="border p-2">
+                    <input
+                      type="text"
+                      defaultValue={run.project}
+                      onBlur={(e) =>
+                        handleRename(run, { project: e.target.value })
+                      }
+                      className="w-32 rounded px-2 py-1 text-black"
+                    />
+                  </td>
+                  <td className="border p-2 text-right">{run.imageCount}</td>
+                  <td className="border p-2 text-right">{run.sectionCount}</td>
+                  <td className="border p-2 text-right">{run.failedCount}</td>
+                  <td className="border p-2">
+                    {new Date(run.updatedAt).toLocaleString()}
+                  </td>
+                  <td className="border p-2 whitespace-nowrap">
+                    <Link
+                      href={`/?run=${run.id}`}
+                      className="rounded bg-blue-500 px-2 py-1 text-white hover:bg-blue-600"
+                    >
+                      Open
+                    </Link>
+                    <button
+                      onClick={() => handleDelete(run)}
+                      disabled={deleteRunMutation.isPending}
+                      className="ml-2 rounded bg-red-500 px-2 py-1 text-white hover:bg-red-600 disabled:bg-gray-400"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      ))}
+    </div>
+  );
+}
+
+export default ProjectList;
@@ -1,8 +1,14 @@
 
+import Link from "next/link";
 import { HydrateClient } from "~/trpc/server";
 import LogAnalyzer from "~/app/_components/LogAnalyzer";
 
-export default async function Home() {
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<{ run?: string }>; // A saved run to reopen
+}) {
+  const { run } = await searchParams;
 
   return (
     <HydrateClient>
@@ -12,8 +18,12 @@ export default async function Home() {
             Log Section{" "}
             <span className="text-[#4dabf7]">Analyzer</span>
           </h1>
+          <Link href="/projects" className="text-[#4dabf7] hover:underline">
+            Saved runs
+          </Link>
 
-          <LogAnalyzer />
+          {/* Remount for each run opened, so nothing carries over from the last one */}
+          <LogAnalyzer key={run} openRunId={run} />
         </div>
       </main>
     </HydrateClient>
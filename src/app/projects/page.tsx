@@ -0,0 +1,23 @@
+import Link from "next/link";
+import { HydrateClient } from "~/trpc/server";
+import ProjectList from "~/app/_components/ProjectList";
+
+export default async function Projects() {
+
+  return (
+    <HydrateClient>
+      <main className="flex min-h-screen flex-col items-center bg-gradient-to-b from-[#0a4275] to-[#073052] text-white">
+        <div className="container flex flex-col items-center gap-8 px-4 py-16">
+          <h1 className="text-5xl font-extrabold tracking-tight">
+            Saved <span className="text-[#4dabf7]">Runs</span>
+          </h1>
+          <Link href="/" className="text-[#4dabf7] hover:underline">
+            New analysis
+          </Link>
+
+          <ProjectList />
+        </div>
+      </main>
+    </HydrateClient>
+  );
+}
@@ -8,6 +8,10 @@ export const env = createEnv({
    */
   server: {
     NODE_ENV: z.enum(["development", "test", "production"]),
+    OPENAI_API_KEY: z.string().optional(),
+    TESSERACT_LANG_PATH: z.string().optional(),
+    DATA_DIR: z.string().default("data"),
+    JOB_CONCURRENCY: z.coerce.number().int().positive().default(2),
   },
 
   /**
@@ -25,6 +29,10 @@ export const env = createEnv({
    */
   runtimeEnv: {
     NODE_ENV: process.env.NODE_ENV,
+    OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+    TESSERACT_LANG_PATH: process.env.TESSERACT_LANG_PATH,
+    DATA_DIR: process.env.DATA_DIR,
+    JOB_CONCURRENCY: process.env.JOB_CONCURRENCY,
     // NEXT_PUBLIC_CLIENTVAR: process.env.NEXT_PUBLIC_CLIENTVAR,
   },
   /**
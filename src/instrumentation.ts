@@ -0,0 +1,7 @@
+export async function register() {
+  // Resume background jobs left over from before a restart
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startJobQueue } = await import("~/server/jobs/queue");
+    await startJobQueue();
+  }
+}
@@ -0,0 +1,103 @@
+import { z } from "zod";
+import {
+  extractHeight,
+  extractHeightLabels,
+  heightMeasurementSchema,
+  pairHeightLabels,
+  type HeightMeasurement,
+} from "~/server/analysis/heightExtractors";
+import {
+  AnalysisError,
+  analyzeLogSections,
+  type HeightResolver,
+  type ImageAnalysisOutcome,
+} from "~/server/analysis/logSection";
+import { type AnalysisOptions } from "~/server/analysis/options";
+import { type ProgressEvent } from "~/server/analysis/progress";
+
+export const imageInputSchema = z.object({
+  data: z.string(), // Base64 encoded image data
+  filename: z.string(),
+  heightMm: z.number().positive().optional(), // Manually entered height, skips extraction
+  sectionHeightsMm: z.array(z.number().positive()).optional(), // Per section, in reading order
+  // Heights already resolved per section, reused as they are when the image is analyzed again. A
+  // null height scales that section from its reference object again.
+  sectionHeights: z.array(heightMeasurementSchema.nullable()).optional(),
+  // Ids of the detected decay regions to count as sound wood, per section
+  rejectedDecayRegions: z.array(z.array(z.number().int().nonnegative())).optional(),
+});
+
+export type ImageInput = z.infer<typeof imageInputSchema>;
+
+// Convert a base64 data URL to a buffer
+export function decodeImageData(data: string): Buffer {
+  const base64Data = data.replace(/^data:image\/\w+;base64,/, "");
+  return Buffer.from(base64Data, "base64");
+}
+
+// Heights resolved before and manual heights are used as given, reference calibration needs none,
+// and otherwise the height is extracted, pairing one label with each section on multi-section sheets
+export function heightResolver(image: ImageInput, buffer: Buffer, options: AnalysisOptions): HeightResolver {
+  return async (sections) => {
+    if (image.sectionHeights) {
+      if (image.sectionHeights.length !== sections.length) {
+        throw new Error(`Expected ${sections.length} section heights but got ${image.sectionHeights.length}`);
+      }
+      return image.sectionHeights;
+    }
+
+    const manual = image.sectionHeightsMm ?? (image.heightMm ? [image.heightMm] : undefined);
+    if (manual) {
+      if (manual.length !== sections.length) {
+        throw new Error(`Expected ${sections.length} section heights but got ${manual.length}`);
+      }
+      return manual.map((heightMm): HeightMeasurement => ({ heightMm, source: "manual", confidence: 1 }));
+    }
+
+    if (options.calibration.mode === "reference") {
+      return sections.map(() => null);
+    }
+
+    if (sections.length === 1) {
+      return [await extractHeight(image.data, buffer, options.heightExtractor, options.preprocessing)];
+    }
+
+    const labels = await extractHeightLabels(
+      buffer,
+      options.preprocessing,
+      options.minSectionAreaFraction,
+    );
+    return pairHeightLabels(labels, sections, options.heightExtractor);
+  };
+}
+
+// Analyze one image, reporting a failure as its outcome so the rest of the batch can carry on
+export async function analyzeImage(
+  image: ImageInput,
+  options: AnalysisOptions,
+  report: (event: Pick<ProgressEvent, "stage" | "message">) => void = () => undefined,
+): Promise<ImageAnalysisOutcome> {
+  report({ stage: "received" });
+  try {
+    const buffer = decodeImageData(image.data);
+    const sections = await analyzeLogSections(
+      buffer,
+      heightResolver(image, buffer, options),
+      image.filename,
+      options,
+      (stage) => report({ stage }),
+      image.rejectedDecayRegions,
+    );
+    return { status: "success", filename: image.filename, sections };
+  } catch (error) {
+    console.error(`Error analyzing ${image.filename}:`, error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    report({ stage: "failed", message });
+    return {
+      status: "error",
+      filename: image.filename,
+      stage: error instanceof AnalysisError ? error.stage : "decode",
+      message,
+    };
+  }
+}
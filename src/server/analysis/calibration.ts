@@ -0,0 +1,79 @@
+import { cv } from "~/server/analysis/opencv";
+import { type CalibrationOptions } from "~/server/analysis/options";
+
+export interface ReferenceObject {
+  contourIndex: number;
+  scaleMmPerPx: number;
+  rectangularity: number; // Contour area over its minimum-area rectangle, 1 for a perfect box
+  corners: { x: number; y: number }[];
+}
+
+// Rejection limits for candidate markers
+const MIN_REFERENCE_SIDE_PX = 5;
+const MIN_RECTANGULARITY = 0.8;
+const MAX_ASPECT_ERROR = 0.15;
+
+// Contour points sit on pixel centres, so a marker spanning N pixels measures N - 1 between its
+// outermost points. Half a pixel on each side gives the marker's full extent, the same way the
+// height label is compared with the silhouette's full pixel height.
+const PIXEL_EDGE_PX = 1;
+
+/**
+ * Find a rectangular marker whose aspect ratio matches the configured reference size and derive
+ * the mm-per-pixel scale from it. Only the given contour indices are considered, so the log
+ * section itself and any holes should be left out by the caller.
+ */
+export function findReferenceObject(
+  contours: cv.MatVector,
+  candidateIndices: number[],
+  options: CalibrationOptions,
+): ReferenceObject | null {
+  const lengthMm = options.referenceLengthMm;
+  const widthMm = options.referenceWidthMm ?? lengthMm;
+  const expectedAspect = Math.max(lengthMm, widthMm) / Math.min(lengthMm, widthMm);
+
+  let best: ReferenceObject | null = null;
+  let bestAreaPx = 0;
+  for (const index of candidateIndices) {
+    const contour = contours.get(index);
+    const rect = cv.minAreaRect(contour);
+    const centreLongPx = Math.max(rect.size.width, rect.size.height);
+    const centreShortPx = Math.min(rect.size.width, rect.size.height);
+    const longPx = centreLongPx + PIXEL_EDGE_PX;
+    const shortPx = centreShortPx + PIXEL_EDGE_PX;
+    if (shortPx < MIN_REFERENCE_SIDE_PX) continue;
+
+    // The contour area is also measured between pixel centres
+    const areaPx = cv.contourArea(contour);
+    const rectangularity = areaPx / (centreLongPx * centreShortPx);
+    if (rectangularity < MIN_RECTANGULARITY) continue;
+
+    const aspectError = Math.abs(longPx / shortPx / expectedAspect - 1);
+    if (aspectError > MAX_ASPECT_ERROR) continue;
+
+    // Prefer the largest match, which gives the finest scale resolution
+    if (best && areaPx <= bestAreaPx) continue;
+
+    const scaleMmPerPx =
+      (Math.max(lengthMm, widthMm) / longPx + Math.min(lengthMm, widthMm) / shortPx) / 2;
+
+    // Corners of the rotated rectangle, for drawing the detected marker
+    const angle = (rect.angle * Math.PI) / 180;
+    const halfWidth = rect.size.width / 2;
+    const halfHeight = rect.size.height / 2;
+    const corners = [
+      [-halfWidth, -halfHeight],
+      [halfWidth, -halfHeight],
+      [halfWidth, halfHeight],
+      [-halfWidth, halfHeight],
+    ].map(([dx = 0, dy = 0]) => ({
+      x: rect.center.x + dx * Math.cos(angle) - dy * Math.sin(angle),
+      y: rect.center.y + dx * Math.sin(angle) + dy * Math.cos(angle),
+    }));
+
+    best = { contourIndex: index, scaleMmPerPx, rectangularity, corners };
+    bestAreaPx = areaPx;
+  }
+
+  return best;
+}
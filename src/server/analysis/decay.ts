@@ -0,0 +1,284 @@
+import { cv } from "~/server/analysis/opencv";
+import { type DecayOptions } from "~/server/analysis/options";
+import { contourPoints, type AreaMoments, type Point } from "~/server/analysis/polygon";
+
+export interface DecayRegion {
+  id: number; // Rank by size, largest first, so the same image and settings give the same ids
+  area_mm2: number;
+  colour_difference: number; // Mean ΔE from the sound wood
+  texture_ratio: number; // Mean local roughness over that of the sound wood
+  accepted: boolean; // Rejected regions are counted as sound wood
+  outline: Point[]; // Simplified boundary in image pixels, for the overlay
+}
+
+export interface DecayDetection {
+  regions: DecayRegion[];
+  accepted: AreaMoments; // Integrals of the accepted regions' pixels, to subtract from the section
+}
+
+// Enough samples to find the clusters without visiting every pixel of a large photo
+const MAX_CLUSTER_SAMPLES = 20_000;
+const CLUSTER_ITERATIONS = 20;
+const TEXTURE_WINDOW_PX = 7;
+const CLEANUP_KERNEL_PX = 5;
+const OUTLINE_TOLERANCE_PX = 1.5;
+
+// Lightness, a*, b* and local roughness of one pixel
+type Feature = [number, number, number, number];
+
+const distance = (a: Feature, b: Feature) =>
+  Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2], a[3] - b[3]);
+
+const colourDifference = (a: Feature, b: Feature) =>
+  Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+/**
+ * k-means with the initial centres spread over the lightness range, so the clustering, and with it
+ * the region ids, does not change between runs.
+ */
+function clusterFeatures(samples: Feature[], k: number): Feature[] {
+  const byLightness = [...samples].sort((a, b) => a[0] - b[0]);
+  let centres = Array.from(
+    { length: k },
+    (_, i) => [...byLightness[Math.floor(((i + 0.5) / k) * byLightness.length)]!] as Feature,
+  );
+
+  for (let iteration = 0; iteration < CLUSTER_ITERATIONS; iteration++) {
+    const sums = centres.map(() => [0, 0, 0, 0, 0]);
+    for (const sample of samples) {
+      const sum = sums[nearestCentre(sample, centres)]!;
+      sample.forEach((value, i) => (sum[i]! += value));
+      sum[4]!++;
+    }
+
+    // Empty clusters keep their centre
+    const next = centres.map((centre, i) => {
+      const sum = sums[i]!;
+      const count = sum[4] ?? 0;
+      return count === 0 ? centre : (sum.slice(0, 4).map((value) => value / count) as Feature);
+    });
+    const moved = next.some((centre, i) => distance(centre, centres[i]!) > 0.01);
+    centres = next;
+    if (!moved) break;
+  }
+  return centres;
+}
+
+function nearestCentre(feature: Feature, centres: Feature[]): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  centres.forEach((centre, i) => {
+    const d = distance(feature, centre);
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = i;
+    }
+  });
+  return best;
+}
+
+/**
+ * Split the wood inside a section into colour and texture clusters, take the largest as sound wood
+ * and flag the pixels of clusters that differ from it enough as decay. Connected decay pixels above
+ * the minimum size become regions; all of them are accepted unless their id is rejected.
+ */
+export function detectDecay(
+  photo: cv.Mat, // RGBA
+  section: cv.Mat, // Net section mask, 255 inside
+  bounds: { x: number; y: number; width: number; height: number },
+  pixelAreaMm2: number,
+  options: DecayOptions,
+  rejected: number[] = [],
+): DecayDetection {
+  const { x: offsetX, y: offsetY, width, height } = bounds;
+  const rect = new cv.Rect(offsetX, offsetY, width, height);
+  const photoRoi = photo.roi(rect);
+  // Copied so the crop's rows are contiguous
+  const sectionView = section.roi(rect);
+  const sectionRoi = sectionView.clone();
+  sectionView.delete();
+
+  // CIELAB colour, with the 8-bit channels mapped back to L* 0-100 and signed a*, b*
+  const rgb = new cv.Mat();
+  const lab = new cv.Mat();
+  cv.cvtColor(photoRoi, rgb, cv.COLOR_RGBA2RGB as number);
+  cv.cvtColor(rgb, lab, cv.COLOR_RGB2Lab as number);
+  rgb.delete();
+  photoRoi.delete();
+
+  // Local standard deviation of lightness as a measure of texture
+  const lightness = new cv.Mat();
+  const lightnessSquared = new cv.Mat();
+  const planes = new cv.MatVector();
+  cv.split(lab, planes);
+  const lightnessPlane = planes.get(0);
+  lightnessPlane.convertTo(lightness, cv.CV_32F as number, 100 / 255);
+  lightnessPlane.delete();
+  planes.delete();
+  cv.multiply(lightness, lightness, lightnessSquared);
+  const window = new cv.Size(TEXTURE_WINDOW_PX, TEXTURE_WINDOW_PX);
+  const localMean = new cv.Mat();
+  const localMeanSquared = new cv.Mat();
+  cv.blur(lightness, localMean, window);
+  cv.blur(lightnessSquared, localMeanSquared, window);
+  lightness.delete();
+  lightnessSquared.delete();
+
+  const labData = lab.data;
+  const meanData = localMean.data32F;
+  const meanSquaredData = localMeanSquared.data32F;
+  const sectionData = sectionRoi.data;
+
+  const pixels: number[] = []; // Offsets within the ROI of the pixels inside the section
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      if (sectionData[row * width + col] === 255) pixels.push(row * width + col);
+    }
+  }
+  const featureAt = (pixel: number): Feature => [
+    (labData[pixel * 3]! * 100) / 255,
+    labData[pixel * 3 + 1]! - 128,
+    labData[pixel * 3 + 2]! - 128,
+    Math.sqrt(Math.max(0, meanSquaredData[pixel]! - meanData[pixel]! ** 2)),
+  ];
+
+  // Cluster a regular sample of the section, then assign every pixel to its nearest centre
+  const stride = Math.max(1, Math.ceil(pixels.length / MAX_CLUSTER_SAMPLES));
+  const samples = pixels.filter((_, i) => i % stride === 0).map(featureAt);
+  const centres = clusterFeatures(samples, Math.min(options.clusters, samples.length));
+
+  const labels = new Int32Array(width * height).fill(-1);
+  const counts = centres.map(() => 0);
+  for (const pixel of pixels) {
+    const label = nearestCentre(featureAt(pixel), centres);
+    labels[pixel] = label;
+    counts[label]!++;
+  }
+
+  const soundIndex = counts.indexOf(Math.max(...counts));
+  const sound = centres[soundIndex]!;
+  const soundTexture = Math.max(sound[3], 1);
+  const isDecay = centres.map(
+    (centre, i) =>
+      i !== soundIndex &&
+      (colourDifference(centre, sound) >= options.minColourDifference ||
+        centre[3] / soundTexture >= options.minTextureRatio),
+  );
+  console.log("Decay clusters:", centres.map((centre, i) => ({
+    pixels: counts[i],
+    colourDifference: colourDifference(centre, sound),
+    textureRatio: centre[3] / soundTexture,
+    decay: isDecay[i],
+  })));
+
+  // Mask the decay pixels and drop specks and slivers
+  const decayMask = cv.Mat.zeros(height, width, cv.CV_8UC1 as number);
+  const decayData = decayMask.data;
+  for (const pixel of pixels) {
+    if (isDecay[labels[pixel]!]) decayData[pixel] = 255;
+  }
+  const kernel = cv.getStructuringElement(
+    cv.MORPH_ELLIPSE as number,
+    new cv.Size(CLEANUP_KERNEL_PX, CLEANUP_KERNEL_PX),
+  );
+  cv.morphologyEx(decayMask, decayMask, cv.MORPH_OPEN as number, kernel);
+  cv.morphologyEx(decayMask, decayMask, cv.MORPH_CLOSE as number, kernel);
+  cv.bitwise_and(decayMask, sectionRoi, decayMask);
+  kernel.delete();
+  sectionRoi.delete();
+
+  // Collect the connected regions
+  const components = new cv.Mat();
+  const componentCount = cv.connectedComponents(decayMask, components, 8, cv.CV_32S as number);
+  const componentData = components.data32S;
+  const stats = Array.from({ length: componentCount }, () => ({
+    pixels: 0,
+    colourDifference: 0,
+    texture: 0,
+  }));
+  for (let pixel = 0; pixel < componentData.length; pixel++) {
+    const component = componentData[pixel]!;
+    if (component === 0) continue;
+    const feature = featureAt(pixel);
+    const stat = stats[component]!;
+    stat.pixels++;
+    stat.colourDifference += colourDifference(feature, sound);
+    stat.texture += feature[3];
+  }
+
+  const minPixels = options.minRegionAreaMm2 / pixelAreaMm2;
+  const kept = stats
+    .map((stat, component) => ({ ...stat, component }))
+    .filter((stat) => stat.component > 0 && stat.pixels > 0 && stat.pixels >= minPixels)
+    .sort((a, b) => b.pixels - a.pixels);
+
+  const regions = kept.map((stat, id): DecayRegion => {
+    // Trace the region for the overlay
+    const regionMask = cv.Mat.zeros(height, width, cv.CV_8UC1 as number);
+    const regionData = regionMask.data;
+    for (let pixel = 0; pixel < componentData.length; pixel++) {
+      if (componentData[pixel] === stat.component) regionData[pixel] = 255;
+    }
+    const contours = new cv.MatVector();
+    const hierarchy = new cv.Mat();
+    cv.findContours(
+      regionMask,
+      contours,
+      hierarchy,
+      cv.RETR_EXTERNAL as number,
+      cv.CHAIN_APPROX_SIMPLE as number,
+    );
+    let outline: Point[] = [];
+    let largestArea = -1;
+    for (let i = 0; i < contours.size(); i++) {
+      const area = cv.contourArea(contours.get(i));
+      if (area <= largestArea) continue;
+      largestArea = area;
+      const approx = new cv.Mat();
+      cv.approxPolyDP(contours.get(i), approx, OUTLINE_TOLERANCE_PX, true);
+      outline = contourPoints(approx).map((point) => ({
+        x: point.x + offsetX,
+        y: point.y + offsetY,
+      }));
+      approx.delete();
+    }
+    regionMask.delete();
+    contours.delete();
+    hierarchy.delete();
+
+    return {
+      id,
+      area_mm2: stat.pixels * pixelAreaMm2,
+      colour_difference: stat.colourDifference / stat.pixels,
+      texture_ratio: stat.texture / stat.pixels / soundTexture,
+      accepted: !rejected.includes(id),
+      outline,
+    };
+  });
+
+  // Pixel integrals of the accepted regions, about the image origin like the section's own
+  const acceptedComponents = new Set(
+    kept.filter((_, id) => regions[id]!.accepted).map((stat) => stat.component),
+  );
+  const accepted: AreaMoments = { area: 0, sx: 0, sy: 0, sxx: 0, syy: 0, sxy: 0 };
+  for (let pixel = 0; pixel < componentData.length; pixel++) {
+    if (!acceptedComponents.has(componentData[pixel]!)) continue;
+    const x = (pixel % width) + offsetX;
+    const y = Math.floor(pixel / width) + offsetY;
+    accepted.area++;
+    accepted.sx += x;
+    accepted.sy += y;
+    accepted.sxx += x * x;
+    accepted.syy += y * y;
+    accepted.sxy += x * y;
+  }
+
+  lab.delete();
+  localMean.delete();
+  localMeanSquared.delete();
+  decayMask.delete();
+  components.delete();
+
+  console.log("Decay regions:", regions.map(({ outline: _outline, ...region }) => region));
+  return { regions, accepted };
+}
@@ -0,0 +1,142 @@
+import { z } from "zod";
+import { type LogAnalysisResult } from "~/server/analysis/logSection";
+
+export const stressGradeSchema = z.object({
+  name: z.string().min(1),
+  bendingMPa: z.number().positive(), // Characteristic bending strength
+  shearMPa: z.number().positive(), // Characteristic shear strength
+  elasticModulusMPa: z.number().positive(), // Mean modulus of elasticity, for deflection
+});
+
+export type StressGrade = z.infer<typeof stressGradeSchema>;
+
+/** Characteristic values of common structural grades (EN 338:2016 and AS 1720.1 MGP). */
+export const STRESS_GRADES: StressGrade[] = [
+  { name: "C16", bendingMPa: 16, shearMPa: 3.2, elasticModulusMPa: 8000 },
+  { name: "C24", bendingMPa: 24, shearMPa: 4.0, elasticModulusMPa: 11000 },
+  { name: "C30", bendingMPa: 30, shearMPa: 4.0, elasticModulusMPa: 12000 },
+  { name: "D30", bendingMPa: 30, shearMPa: 3.9, elasticModulusMPa: 11000 },
+  { name: "D40", bendingMPa: 40, shearMPa: 4.2, elasticModulusMPa: 13000 },
+  { name: "MGP10", bendingMPa: 17, shearMPa: 2.6, elasticModulusMPa: 10000 },
+  { name: "MGP12", bendingMPa: 28, shearMPa: 3.5, elasticModulusMPa: 12700 },
+  { name: "MGP15", bendingMPa: 41, shearMPa: 4.6, elasticModulusMPa: 15200 },
+];
+
+export const designOptionsSchema = z.object({
+  grade: z.string().default("C24"), // A standard grade or one of the custom grades
+  customGrades: z.array(stressGradeSchema).default([]),
+  spanMm: z.number().positive().default(3000), // Cantilever length for the cantilever cases
+  loadCase: z
+    .enum(["simple-udl", "simple-point", "cantilever-udl", "cantilever-point"])
+    .default("simple-udl"),
+  load: z.number().nonnegative().default(1), // kN/m for distributed loads, kN for point loads
+  capacityFactor: z.number().positive().max(1).default(1), // Product of the code's reduction factors
+  deflectionLimit: z.number().positive().default(300), // Allowed deflection is span / limit
+});
+
+export type DesignOptions = z.infer<typeof designOptionsSchema>;
+
+/** The beam check settings before any are changed. */
+export const defaultDesignOptions: DesignOptions = designOptionsSchema.parse({});
+
+// Properties a check needs from one analyzed section
+export const designSectionSchema = z.object({
+  area_mm2: z.number().positive(),
+  Ixx_mm4: z.number().positive(),
+  section_modulus_mm3: z.number().positive(),
+  // I·b / Q at the neutral axis: the vertical shear force per unit of peak shear stress
+  shear_area_mm2: z.number().positive(),
+});
+
+export type DesignSection = z.infer<typeof designSectionSchema>;
+
+/**
+ * The decay-free properties of an analyzed section, so rotten wood doesn't carry load. The peak
+ * shear stress comes from Q and b of the whole section, so decay takes its shear area down in
+ * proportion to the sound area.
+ */
+export function soundDesignSection(result: LogAnalysisResult): DesignSection {
+  return {
+    area_mm2: result.sound_area_mm2,
+    Ixx_mm4: result.sound_Ixx_mm4,
+    section_modulus_mm3: result.sound_section_modulus_mm3,
+    shear_area_mm2:
+      ((result.Ixx_mm4 * result.shear_width_x_mm) / result.Q_x_mm3) *
+      (result.sound_area_mm2 / result.area_mm2),
+  };
+}
+
+export interface DesignCheck {
+  grade: string;
+  moment_kNm: number; // Design actions from the load case
+  shear_kN: number;
+  deflection_mm: number;
+  moment_capacity_kNm: number;
+  shear_capacity_kN: number;
+  deflection_limit_mm: number;
+  bending_utilisation: number; // Action over capacity; above 1 fails
+  shear_utilisation: number;
+  deflection_utilisation: number;
+  passes: boolean;
+}
+
+// Moment, shear and deflection coefficients: M = m·w·L², V = v·w·L, δ = d·w·L⁴/EI for distributed
+// loads, and M = m·P·L, V = v·P, δ = d·P·L³/EI for point loads at midspan or the cantilever tip
+const LOAD_CASES: Record<DesignOptions["loadCase"], { m: number; v: number; d: number }> = {
+  "simple-udl": { m: 1 / 8, v: 1 / 2, d: 5 / 384 },
+  "simple-point": { m: 1 / 4, v: 1 / 2, d: 1 / 48 },
+  "cantilever-udl": { m: 1 / 2, v: 1, d: 1 / 8 },
+  "cantilever-point": { m: 1, v: 1, d: 1 / 3 },
+};
+
+// Custom grades take precedence over standard grades of the same name
+export function findStressGrade(options: DesignOptions): StressGrade {
+  const grade =
+    options.customGrades.find((custom) => custom.name === options.grade) ??
+    STRESS_GRADES.find((standard) => standard.name === options.grade);
+  if (!grade) throw new Error(`Unknown stress grade ${options.grade}`);
+  return grade;
+}
+
+/**
+ * Check a section as a beam of the chosen grade, span and load case: bending and shear capacity
+ * against the actions, and midspan (or tip) deflection against span / limit. Shear capacity uses
+ * the section's own peak shear stress, VQ/Ib at the neutral axis, rather than assuming a solid
+ * round section.
+ */
+export function checkSection(section: DesignSection, options: DesignOptions): DesignCheck {
+  const grade = findStressGrade(options);
+  const coefficients = LOAD_CASES[options.loadCase];
+  const span = options.spanMm;
+  const distributed = options.loadCase.endsWith("udl");
+
+  // kN/m is N/mm; point loads go from kN to N
+  const load = distributed ? options.load : options.load * 1000;
+  const momentNmm = coefficients.m * load * span * (distributed ? span : 1);
+  const shearN = coefficients.v * load * (distributed ? span : 1);
+  const deflectionMm =
+    (coefficients.d * load * span ** (distributed ? 4 : 3)) /
+    (grade.elasticModulusMPa * section.Ixx_mm4);
+
+  const momentCapacityNmm = options.capacityFactor * grade.bendingMPa * section.section_modulus_mm3;
+  const shearCapacityN = options.capacityFactor * grade.shearMPa * section.shear_area_mm2;
+  const deflectionLimitMm = span / options.deflectionLimit;
+
+  const bendingUtilisation = momentNmm / momentCapacityNmm;
+  const shearUtilisation = shearN / shearCapacityN;
+  const deflectionUtilisation = deflectionMm / deflectionLimitMm;
+
+  return {
+    grade: grade.name,
+    moment_kNm: momentNmm / 1e6,
+    shear_kN: shearN / 1000,
+    deflection_mm: deflectionMm,
+    moment_capacity_kNm: momentCapacityNmm / 1e6,
+    shear_capacity_kN: shearCapacityN / 1000,
+    deflection_limit_mm: deflectionLimitMm,
+    bending_utilisation: bendingUtilisation,
+    shear_utilisation: shearUtilisation,
+    deflection_utilisation: deflectionUtilisation,
+    passes: Math.max(bendingUtilisation, shearUtilisation, deflectionUtilisation) <= 1,
+  };
+}
@@ -0,0 +1,480 @@
+import { z } from "zod";
+import { pointInPolygon, polygonMoments, type Point } from "~/server/analysis/polygon";
+
+const ringSchema = z.array(z.object({ x: z.number(), y: z.number() })).min(3);
+
+// Sections drawn in CAD or surveyed, in millimetres with y pointing up
+export const importedGeometrySchema = z.object({
+  outlines: z.array(ringSchema).min(1),
+  holes: z.array(ringSchema).default([]), // Voids inside the outlines
+});
+
+export type ImportedGeometry = z.infer<typeof importedGeometrySchema>;
+
+export const geometryFormatSchema = z.enum(["dxf", "svg", "csv"]);
+
+export type GeometryFormat = z.infer<typeof geometryFormatSchema>;
+
+// Segments in a full circle when flattening arcs, and per Bézier curve
+const CIRCLE_SEGMENTS = 128;
+const CURVE_SEGMENTS = 16;
+
+// Millimetres per drawing unit for the DXF $INSUNITS codes; unitless drawings are taken as mm
+const DXF_UNITS_MM: Record<number, number> = { 1: 25.4, 2: 304.8, 4: 1, 5: 10, 6: 1000 };
+// Millimetres per unit of an SVG's physical width
+const SVG_UNITS_MM: Record<string, number> = { mm: 1, cm: 10, in: 25.4, pt: 25.4 / 72, pc: 25.4 / 6 };
+
+// Affine transform [a, b, c, d, e, f] mapping (x, y) to (ax + cy + e, bx + dy + f)
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Points along the arc a DXF bulge (tan of a quarter of the included angle) draws from p to q,
+// excluding both ends
+function bulgePoints(p: Point, q: Point, bulge: number): Point[] {
+  const angle = 4 * Math.atan(bulge);
+  const dx = q.x - p.x;
+  const dy = q.y - p.y;
+  const chord = Math.hypot(dx, dy);
+  if (chord === 0) return [];
+
+  // The centre is on the chord's perpendicular bisector, to the left for counter-clockwise arcs
+  const radius = chord / (2 * Math.sin(angle / 2));
+  const offset = radius * Math.cos(angle / 2);
+  const cx = (p.x + q.x) / 2 - (dy / chord) * offset;
+  const cy = (p.y + q.y) / 2 + (dx / chord) * offset;
+  const start = Math.atan2(p.y - cy, p.x - cx);
+  const segments = Math.max(2, Math.ceil((Math.abs(angle) / (2 * Math.PI)) * CIRCLE_SEGMENTS));
+
+  return Array.from({ length: segments - 1 }, (_, i) => {
+    const t = start + (angle * (i + 1)) / segments;
+    return { x: cx + Math.abs(radius) * Math.cos(t), y: cy + Math.abs(radius) * Math.sin(t) };
+  });
+}
+
+// Vertices with their bulges as a closed ring, arcs flattened
+function bulgedRing(vertices: { point: Point; bulge: number }[]): Point[] {
+  return vertices.flatMap(({ point, bulge }, i) => {
+    const next = vertices[(i + 1) % vertices.length]!.point;
+    return bulge ? [point, ...bulgePoints(point, next, bulge)] : [point];
+  });
+}
+
+/**
+ * Closed LWPOLYLINE and POLYLINE outlines from the ENTITIES section of an ASCII DXF, arcs
+ * included, scaled to millimetres by $INSUNITS. Open polylines and other entities are skipped.
+ */
+function parseDxf(content: string): Point[][] {
+  const lines = content.split(/\r?\n/);
+  const pairs: [number, string][] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    pairs.push([Number(lines[i]!.trim()), lines[i + 1]!.trim()]);
+  }
+
+  // Split into entities, each the group codes from one 0 code to the next
+  const entities: { type: string; codes: [number, string][] }[] = [];
+  for (const [code, value] of pairs) {
+    if (code === 0) {
+      entities.push({ type: value, codes: [] });
+    } else {
+      entities[entities.length - 1]?.codes.push([code, value]);
+    }
+  }
+
+  let unitsMm = 1;
+  let section = "";
+  const rings: Point[][] = [];
+  let polyline: { closed: boolean; vertices: { point: Point; bulge: number }[] } | null = null;
+  let skipped = 0;
+
+  for (const { type, codes } of entities) {
+    const value = (code: number) => codes.find(([c]) => c === code)?.[1];
+    const number = (code: number) => Number(value(code) ?? 0);
+
+    if (type === "SECTION") {
+      section = value(2) ?? "";
+      // Header variables have no 0 codes of their own, so they all belong to the SECTION entity
+      const unitsIndex = codes.findIndex(([c, v]) => c === 9 && v === "$INSUNITS");
+      const units = codes[unitsIndex + 1];
+      if (section === "HEADER" && unitsIndex >= 0 && units) {
+        unitsMm = DXF_UNITS_MM[Number(units[1])] ?? 1;
+      }
+      continue;
+    }
+    if (section !== "ENTITIES") continue;
+
+    if (type === "LWPOLYLINE") {
+      // Each vertex is a 10/20 pair, followed by its bulge when the next segment is an arc
+      const vertices: { point: Point; bulge: number }[] = [];
+      for (const [code, raw] of codes) {
+        if (code === 10) vertices.push({ point: { x: Number(raw), y: 0 }, bulge: 0 });
+        if (code === 20 && vertices.length > 0) vertices[vertices.length - 1]!.point.y = Number(raw);
+        if (code === 42 && vertices.length > 0) vertices[vertices.length - 1]!.bulge = Number(raw);
+      }
+      if (number(70) & 1) {
+        rings.push(bulgedRing(vertices));
+      } else {
+        skipped++;
+      }
+    } else if (type === "POLYLINE") {
+      polyline = { closed: (number(70) & 1) === 1, vertices: [] };
+    } else if (type === "VERTEX" && polyline) {
+      polyline.vertices.push({ point: { x: number(10), y: number(20) }, bulge: number(42) });
+    } else if (type === "SEQEND" && polyline) {
+      if (polyline.closed) {
+        rings.push(bulgedRing(polyline.vertices));
+      } else {
+        skipped++;
+      }
+      polyline = null;
+    }
+  }
+
+  if (skipped > 0) console.log("Open DXF polylines skipped:", skipped);
+  return rings.map((ring) => ring.map((point) => ({ x: point.x * unitsMm, y: point.y * unitsMm })));
+}
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+// An SVG transform attribute, applied right to left like the spec
+function parseTransform(transform: string | undefined): Matrix {
+  let matrix = IDENTITY;
+  for (const [, name, args] of (transform ?? "").matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+    const [a = 0, b, c, d = 0, e = 0, f = 0] = (args ?? "").split(/[\s,]+/).filter(Boolean).map(Number);
+    const radians = (a * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const step: Matrix =
+      name === "matrix"
+        ? [a, b ?? 0, c ?? 0, d, e, f]
+        : name === "translate"
+          ? [1, 0, 0, 1, a, b ?? 0]
+          : name === "scale"
+            ? [a, 0, 0, b ?? a, 0, 0]
+            : name === "rotate"
+              ? multiply(
+                  multiply([1, 0, 0, 1, b ?? 0, c ?? 0], [cos, sin, -sin, cos, 0, 0]),
+                  [1, 0, 0, 1, -(b ?? 0), -(c ?? 0)],
+                )
+              : name === "skewX"
+                ? [1, 0, Math.tan(radians), 1, 0, 0]
+                : name === "skewY"
+                  ? [1, Math.tan(radians), 0, 1, 0, 0]
+                  : IDENTITY;
+    matrix = multiply(matrix, step);
+  }
+  return matrix;
+}
+
+// Points along an SVG elliptical arc from p to q, excluding p, per the spec's centre
+// parameterization
+function arcPoints(
+  p: Point,
+  q: Point,
+  rxIn: number,
+  ryIn: number,
+  rotationDeg: number,
+  largeArc: boolean,
+  sweep: boolean,
+): Point[] {
+  let rx = Math.abs(rxIn);
+  let ry = Math.abs(ryIn);
+  if (rx === 0 || ry === 0) return [q];
+
+  const phi = (rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const hx = (p.x - q.x) / 2;
+  const hy = (p.y - q.y) / 2;
+  const x1 = cos * hx + sin * hy;
+  const y1 = -sin * hx + cos * hy;
+
+  // Radii too small to reach are scaled up until they just do
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor =
+    (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxPrime = (factor * rx * y1) / ry;
+  const cyPrime = (-factor * ry * x1) / rx;
+  const cx = cos * cxPrime - sin * cyPrime + (p.x + q.x) / 2;
+  const cy = sin * cxPrime + cos * cyPrime + (p.y + q.y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = angle(1, 0, (x1 - cxPrime) / rx, (y1 - cyPrime) / ry);
+  let delta = angle((x1 - cxPrime) / rx, (y1 - cyPrime) / ry, (-x1 - cxPrime) / rx, (-y1 - cyPrime) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const segments = Math.max(2, Math.ceil((Math.abs(delta) / (2 * Math.PI)) * CIRCLE_SEGMENTS));
+  return Array.from({ length: segments }, (_, i) => {
+    if (i === segments - 1) return q;
+    const t = start + (delta * (i + 1)) / segments;
+    return {
+      x: cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+      y: cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos,
+    };
+  });
+}
+
+// Every subpath of an SVG path as a ring, curves flattened; filled subpaths close implicitly
+function pathRings(d: string): Point[][] {
+  const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) ?? [];
+  const rings: Point[][] = [];
+  let ring: Point[] = [];
+  let current: Point = { x: 0, y: 0 };
+  let start: Point = current;
+  let control: Point | null = null; // Last control point, reflected by S and T
+  let command = "";
+  let i = 0;
+
+  const next = () => Number(tokens[i++]);
+  const hasNumber = () => i < tokens.length && !/^[A-Za-z]$/.test(tokens[i]!);
+  const flush = () => {
+    if (ring.length >= 3) rings.push(ring);
+    ring = [];
+  };
+  const bezier = (points: Point[]) => {
+    for (let s = 1; s <= CURVE_SEGMENTS; s++) {
+      const t = s / CURVE_SEGMENTS;
+      // De Casteljau
+      let level = points;
+      while (level.length > 1) {
+        level = level.slice(1).map((point, k) => ({
+          x: level[k]!.x + (point.x - level[k]!.x) * t,
+          y: level[k]!.y + (point.y - level[k]!.y) * t,
+        }));
+      }
+      ring.push(level[0]!);
+    }
+  };
+
+  while (i < tokens.length) {
+    if (!hasNumber()) command = tokens[i++]!;
+    const relative = command === command.toLowerCase();
+    const base = relative ? current : { x: 0, y: 0 };
+    const point = (x: number, y: number) => ({ x: base.x + x, y: base.y + y });
+
+    switch (command.toUpperCase()) {
+      case "M": {
+        flush();
+        current = point(next(), next());
+        start = current;
+        ring.push(current);
+        // Further pairs after a moveto are linetos
+        command = relative ? "l" : "L";
+        control = null;
+        break;
+      }
+      case "L":
+        current = point(next(), next());
+        ring.push(current);
+        control = null;
+        break;
+      case "H":
+        current = { x: relative ? current.x + next() : next(), y: current.y };
+        ring.push(current);
+        control = null;
+        break;
+      case "V":
+        current = { x: current.x, y: relative ? current.y + next() : next() };
+        ring.push(current);
+        control = null;
+        break;
+      case "C": {
+        const c1 = point(next(), next());
+        const c2 = point(next(), next());
+        const end = point(next(), next());
+        bezier([current, c1, c2, end]);
+        control = c2;
+        current = end;
+        break;
+      }
+      case "S": {
+        const c1 = control ? { x: 2 * current.x - control.x, y: 2 * current.y - control.y } : current;
+        const c2 = point(next(), next());
+        const end = point(next(), next());
+        bezier([current, c1, c2, end]);
+        control = c2;
+        current = end;
+        break;
+      }
+      case "Q": {
+        const c = point(next(), next());
+        const end = point(next(), next());
+        bezier([current, c, end]);
+        control = c;
+        current = end;
+        break;
+      }
+      case "T": {
+        const c: Point = control ? { x: 2 * current.x - control.x, y: 2 * current.y - control.y } : current;
+        const end = point(next(), next());
+        bezier([current, c, end]);
+        control = c;
+        current = end;
+        break;
+      }
+      case "A": {
+        const [rx, ry, rotation, largeArc, sweep] = [next(), next(), next(), next(), next()];
+        const end = point(next(), next());
+        ring.push(...arcPoints(current, end, rx, ry, rotation, largeArc === 1, sweep === 1));
+        current = end;
+        control = null;
+        break;
+      }
+      case "Z":
+        flush();
+        current = start;
+        control = null;
+        break;
+      default:
+        throw new Error(`Unsupported SVG path command "${command}"`);
+    }
+  }
+  flush();
+  return rings;
+}
+
+/**
+ * Outlines of the path and polygon elements of an SVG, through their transforms. One user unit is
+ * taken as a millimetre unless the root element gives a physical width along with its viewBox.
+ */
+function parseSvg(content: string): Point[][] {
+  const source = content.replace(/<!--[\s\S]*?-->/g, "");
+  const rings: Point[][] = [];
+  const stack: Matrix[] = [IDENTITY];
+  let hiddenDepth = 0; // Inside defs, clip paths and masks nothing is drawn
+  let unitMm = 1;
+
+  for (const [, closing, name, attributeText, selfClosing] of source.matchAll(
+    /<(\/?)([A-Za-z][\w:.-]*)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/g,
+  )) {
+    const tag = name!.replace(/^.*:/, "");
+    if (closing) {
+      stack.pop();
+      if (hiddenDepth > 0) hiddenDepth--;
+      continue;
+    }
+
+    const attributes = new Map(
+      Array.from(attributeText!.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g), (match) => [
+        match[1]!,
+        match[2] ?? match[3] ?? "",
+      ]),
+    );
+    const matrix = multiply(stack[stack.length - 1]!, parseTransform(attributes.get("transform")));
+    const hidden = hiddenDepth > 0 || ["defs", "clipPath", "mask", "symbol", "pattern"].includes(tag);
+
+    if (tag === "svg" && stack.length === 1) {
+      const width = /^([\d.]+)\s*(mm|cm|in|pt|pc)$/.exec(attributes.get("width") ?? "");
+      const viewBoxWidth = Number(attributes.get("viewBox")?.trim().split(/[\s,]+/)[2]);
+      if (width && viewBoxWidth > 0) {
+        unitMm = (Number(width[1]) * SVG_UNITS_MM[width[2]!]!) / viewBoxWidth;
+      }
+    } else if (!hidden && tag === "path") {
+      rings.push(...pathRings(attributes.get("d") ?? "").map((ring) => transformRing(ring, matrix)));
+    } else if (!hidden && tag === "polygon") {
+      const values = (attributes.get("points") ?? "").split(/[\s,]+/).filter(Boolean).map(Number);
+      const ring = Array.from({ length: Math.floor(values.length / 2) }, (_, k) => ({
+        x: values[2 * k]!,
+        y: values[2 * k + 1]!,
+      }));
+      rings.push(transformRing(ring, matrix));
+    }
+
+    if (!selfClosing) {
+      stack.push(matrix);
+      if (hidden) hiddenDepth++;
+    }
+  }
+
+  // SVG y points down; flip it to match CAD and survey coordinates
+  return rings.map((ring) => ring.map((point) => ({ x: point.x * unitMm, y: -point.y * unitMm })));
+}
+
+function transformRing(ring: Point[], [a, b, c, d, e, f]: Matrix): Point[] {
+  return ring.map(({ x, y }) => ({ x: a * x + c * y + e, y: b * x + d * y + f }));
+}
+
+/**
+ * x,y pairs one per line, separated by commas, semicolons, tabs or spaces. Lines that don't start
+ * with two numbers, such as a header, are skipped, and a blank line starts the next outline.
+ */
+function parseCsv(content: string): Point[][] {
+  const rings: Point[][] = [[]];
+  for (const line of content.split(/\r?\n/)) {
+    if (line.trim() === "") {
+      if (rings[rings.length - 1]!.length > 0) rings.push([]);
+      continue;
+    }
+    const [x, y] = line.trim().split(/\s*[,;\t]\s*|\s+/).map(Number);
+    if (Number.isFinite(x) && Number.isFinite(y)) {
+      rings[rings.length - 1]!.push({ x: x!, y: y! });
+    }
+  }
+  return rings;
+}
+
+const PARSERS: Record<GeometryFormat, (content: string) => Point[][]> = {
+  dxf: parseDxf,
+  svg: parseSvg,
+  csv: parseCsv,
+};
+
+// Drop repeated vertices, including a last one that closes the ring back onto the first
+function cleanRing(ring: Point[]): Point[] {
+  const same = (a: Point, b: Point) => Math.abs(a.x - b.x) < 1e-9 && Math.abs(a.y - b.y) < 1e-9;
+  const cleaned = ring.filter((point, i) => i === 0 || !same(point, ring[i - 1]!));
+  while (cleaned.length > 1 && same(cleaned[0]!, cleaned[cleaned.length - 1]!)) cleaned.pop();
+  return cleaned;
+}
+
+/**
+ * Read the closed outlines of a DXF, SVG or CSV file, chosen by its extension. Rings nested inside
+ * an odd number of others are holes, so islands inside a void count as sections again.
+ */
+export function parseGeometryFile(filename: string, content: string): ImportedGeometry {
+  const extension = filename.split(".").pop()?.toLowerCase();
+  const format = geometryFormatSchema.safeParse(extension);
+  if (!format.success) {
+    throw new Error(`Unsupported geometry file ${filename}; expected a .dxf, .svg or .csv file`);
+  }
+
+  const rings = PARSERS[format.data](content)
+    .map(cleanRing)
+    .filter((ring) => ring.length >= 3 && polygonMoments(ring).area > 0);
+  if (rings.length === 0) throw new Error(`No closed outlines found in ${filename}`);
+
+  const areas = new Map(rings.map((ring) => [ring, polygonMoments(ring).area]));
+  const outlines: Point[][] = [];
+  const holes: Point[][] = [];
+  for (const ring of rings) {
+    const depth = rings.filter(
+      (other) => other !== ring && areas.get(other)! > areas.get(ring)! && pointInPolygon(ring[0]!, other),
+    ).length;
+    (depth % 2 === 0 ? outlines : holes).push(ring);
+  }
+
+  console.log(`Geometry read from ${filename}:`, {
+    format: format.data,
+    outlines: outlines.length,
+    holes: holes.length,
+  });
+  return { outlines, holes };
+}
@@ -0,0 +1,368 @@
+import { access } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import OpenAI from "openai";
+import { createWorker, PSM, type Worker } from "tesseract.js";
+import { createCanvas, Image } from "canvas";
+import { env } from "~/env";
+import { cv, waitForOpenCV } from "~/server/analysis/opencv";
+import {
+  type HeightExtractorChoice,
+  type PreprocessingOptions,
+} from "~/server/analysis/options";
+import { binarize } from "~/server/analysis/preprocessing";
+
+type ExtractorName = Exclude<HeightExtractorChoice, "auto">;
+
+// "measured" heights are read off the section after calibrating from a reference object, and
+// "imported" ones come from the coordinates of a drawing
+export const heightSourceSchema = z.enum(["openai", "tesseract", "manual", "measured", "imported"]);
+
+export type HeightSource = z.infer<typeof heightSourceSchema>;
+
+export const heightMeasurementSchema = z.object({
+  heightMm: z.number().positive(),
+  source: heightSourceSchema,
+  confidence: z.number().min(0).max(1),
+  fallback: z.string().optional(), // Why the chosen extractor was passed over for this one
+});
+
+export type HeightMeasurement = z.infer<typeof heightMeasurementSchema>;
+
+interface HeightExtractor {
+  name: ExtractorName;
+  isAvailable: () => boolean;
+  extract: (
+    imageData: string,
+    imageBuffer: Buffer,
+    preprocessing: PreprocessingOptions,
+  ) => Promise<Omit<HeightMeasurement, "source" | "fallback">>;
+}
+
+// Reject anything that cannot be a plausible log section height
+const isPlausibleHeight = (height: number) => !isNaN(height) && height > 0 && height <= 1000;
+
+function validateHeight(height: number): number {
+  if (!isPlausibleHeight(height)) {
+    throw new Error("Invalid height value detected");
+  }
+  return height;
+}
+
+// Only create the OpenAI client once a key is configured
+let openai: OpenAI | undefined;
+const getOpenAI = () => {
+  openai ??= new OpenAI({ apiKey: env.OPENAI_API_KEY });
+  return openai;
+};
+
+const openAIExtractor: HeightExtractor = {
+  name: "openai",
+  isAvailable: () => !!env.OPENAI_API_KEY,
+  extract: async (imageData) => {
+    const response = await getOpenAI().chat.completions.create({
+      model: "gpt-4o",
+      messages: [
+        {
+          role: "user",
+          content: [
+            {
+              type: "text",
+              text: "This image contains a log section with a height measurement in millimeters. Extract ONLY the height value in millimeters. Return ONLY the number, nothing else."
+            },
+            {
+              type: "image_url",
+              image_url: {
+                url: imageData
+              }
+            }
+          ]
+        }
+      ],
+      max_tokens: 10,
+      logprobs: true,
+    });
+
+    const choice = response.choices[0];
+    const heightText = choice?.message?.content?.trim();
+    if (!heightText) {
+      throw new Error("No height value found in the image");
+    }
+
+    // The joint probability of the returned tokens is the model's confidence in the answer
+    const logprobs = choice?.logprobs?.content ?? [];
+    const confidence = logprobs.length > 0
+      ? Math.exp(logprobs.reduce((sum, token) => sum + token.logprob, 0))
+      : 0;
+
+    return {
+      heightMm: validateHeight(parseInt(heightText, 10)),
+      confidence,
+    };
+  },
+};
+
+// Without a language path tesseract.js downloads its data from a CDN, so it always gets one: the
+// configured path, or else a tessdata directory in the project
+async function resolveTesseractData(): Promise<{ langPath: string; gzip: boolean }> {
+  const langPath = env.TESSERACT_LANG_PATH ?? path.join(process.cwd(), "tessdata");
+  if (/^https?:\/\//.test(langPath)) return { langPath, gzip: true };
+
+  for (const [file, gzip] of [["eng.traineddata.gz", true], ["eng.traineddata", false]] as const) {
+    try {
+      await access(path.join(langPath, file));
+      return { langPath, gzip };
+    } catch {
+      // Try the next form
+    }
+  }
+  throw new Error(
+    `Tesseract language data not found: put eng.traineddata in ${langPath} or set TESSERACT_LANG_PATH`,
+  );
+}
+
+// A single shared worker; tesseract queues recognize calls internally
+let tesseractWorker: Promise<Worker> | undefined;
+const getTesseractWorker = () => {
+  tesseractWorker ??= resolveTesseractData()
+    .then(({ langPath, gzip }) => createWorker("eng", 1, { langPath, gzip }))
+    .then(async (worker) => {
+      // Dimension labels are scattered around the drawing rather than laid out as paragraphs
+      await worker.setParameters({ tessedit_pageseg_mode: PSM.SPARSE_TEXT });
+      return worker;
+    })
+    .catch((error: unknown) => {
+      tesseractWorker = undefined;
+      throw error;
+    });
+  return tesseractWorker;
+};
+
+// Paint the section contours white so only the annotations around them are read. The sections are
+// thresholded the same way as for the analysis, so the labels pair with the contours analyzed. By
+// default only the largest contour is masked; a lower fraction also masks every contour at least
+// that fraction of its area.
+async function maskSectionContours(
+  imageBuffer: Buffer,
+  preprocessing: PreprocessingOptions,
+  minAreaFraction = 1,
+): Promise<Buffer> {
+  await waitForOpenCV();
+
+  const img = new Image();
+  img.src = imageBuffer;
+
+  const canvas = createCanvas(img.width, img.height);
+  const ctx = canvas.getContext("2d");
+  ctx.drawImage(img, 0, 0);
+
+  const src = cv.matFromImageData(ctx.getImageData(0, 0, img.width, img.height));
+  const { binary, edges } = binarize(src, preprocessing);
+  const contours = new cv.MatVector();
+  const hierarchy = new cv.Mat();
+
+  try {
+    cv.findContours(
+      binary,
+      contours,
+      hierarchy,
+      cv.RETR_EXTERNAL as number,
+      cv.CHAIN_APPROX_SIMPLE as number,
+    );
+
+    const areas: number[] = [];
+    for (let i = 0; i < contours.size(); i++) {
+      areas.push(cv.contourArea(contours.get(i)));
+    }
+    const maxArea = Math.max(0, ...areas);
+
+    ctx.fillStyle = "#FFFFFF";
+    areas.forEach((area, index) => {
+      if (maxArea === 0 || area < maxArea * minAreaFraction) return;
+
+      const contour = contours.get(index);
+      ctx.beginPath();
+      for (let i = 0; i < contour.data32S.length; i += 2) {
+        const x = contour.data32S[i];
+        const y = contour.data32S[i + 1];
+        if (x !== undefined && y !== undefined) {
+          if (i === 0) {
+            ctx.moveTo(x, y);
+          } else {
+            ctx.lineTo(x, y);
+          }
+        }
+      }
+      ctx.closePath();
+      ctx.fill();
+    });
+
+    return canvas.toBuffer("image/png");
+  } finally {
+    src.delete();
+    binary.delete();
+    edges.delete();
+    contours.delete();
+    hierarchy.delete();
+  }
+}
+
+/** A millimetre dimension read off the image, located at the centre of its text line. */
+export interface HeightLabel extends Omit<HeightMeasurement, "source" | "fallback"> {
+  x: number;
+  y: number;
+}
+
+// Read every line outside the masked sections that reads as a millimetre dimension
+async function readHeightLabels(
+  imageBuffer: Buffer,
+  preprocessing: PreprocessingOptions,
+  minAreaFraction?: number,
+): Promise<HeightLabel[]> {
+  const annotations = await maskSectionContours(imageBuffer, preprocessing, minAreaFraction);
+  const worker = await getTesseractWorker();
+  const { data } = await worker.recognize(annotations, {}, { blocks: true });
+
+  const labels: HeightLabel[] = [];
+  for (const block of data.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        const match = /(\d+(?:[.,]\d+)?)\s*mm\b/i.exec(line.text);
+        if (!match?.[1]) continue;
+
+        labels.push({
+          heightMm: parseFloat(match[1].replace(",", ".")),
+          confidence: line.confidence / 100,
+          x: (line.bbox.x0 + line.bbox.x1) / 2,
+          y: (line.bbox.y0 + line.bbox.y1) / 2,
+        });
+      }
+    }
+  }
+  return labels;
+}
+
+const tesseractExtractor: HeightExtractor = {
+  name: "tesseract",
+  isAvailable: () => true,
+  extract: async (_imageData, imageBuffer, preprocessing) => {
+    // Pick the most confident line that reads as a millimetre dimension
+    let best: Omit<HeightMeasurement, "source" | "fallback"> | undefined;
+    for (const { heightMm, confidence } of await readHeightLabels(imageBuffer, preprocessing)) {
+      if (!best || confidence > best.confidence) {
+        best = { heightMm, confidence };
+      }
+    }
+
+    if (!best) {
+      throw new Error("No millimetre dimension found outside the log section");
+    }
+
+    return { ...best, heightMm: validateHeight(best.heightMm) };
+  },
+};
+
+const extractors: HeightExtractor[] = [openAIExtractor, tesseractExtractor];
+
+/**
+ * Extract the section height, trying the preferred extractor first and falling back to the
+ * remaining available ones in order. A height from another extractor than the one chosen says why.
+ */
+export async function extractHeight(
+  imageData: string,
+  imageBuffer: Buffer,
+  preferred: HeightExtractorChoice,
+  preprocessing: PreprocessingOptions,
+): Promise<HeightMeasurement> {
+  const ordered = preferred === "auto"
+    ? extractors
+    : [
+        ...extractors.filter((extractor) => extractor.name === preferred),
+        ...extractors.filter((extractor) => extractor.name !== preferred),
+      ];
+
+  const failures: string[] = [];
+  for (const extractor of ordered) {
+    if (!extractor.isAvailable()) {
+      failures.push(`${extractor.name}: not configured`);
+      continue;
+    }
+
+    try {
+      const measurement = await extractor.extract(imageData, imageBuffer, preprocessing);
+      return {
+        ...measurement,
+        source: extractor.name,
+        ...(preferred !== "auto" && extractor.name !== preferred
+          ? { fallback: failures.join("; ") }
+          : {}),
+      };
+    } catch (error) {
+      console.error(`Error extracting height with ${extractor.name}:`, error);
+      failures.push(`${extractor.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  throw new Error(`Failed to extract height from image (${failures.join("; ")})`);
+}
+
+/**
+ * Read the height label of every section on a multi-section sheet. Only the offline extractor can
+ * locate its labels, so OpenAI is not consulted here; the heights say so when it was the choice.
+ */
+export async function extractHeightLabels(
+  imageBuffer: Buffer,
+  preprocessing: PreprocessingOptions,
+  minAreaFraction: number,
+): Promise<HeightLabel[]> {
+  const labels = await readHeightLabels(imageBuffer, preprocessing, minAreaFraction);
+  return labels.filter((label) => isPlausibleHeight(label.heightMm));
+}
+
+/**
+ * Pair each section with its nearest height label, taking the closest label-section pair first so a
+ * label between two sections goes to the one it sits against. Every section must get a label.
+ */
+export function pairHeightLabels(
+  labels: HeightLabel[],
+  sections: { x: number; y: number; width: number; height: number }[],
+  preferred: HeightExtractorChoice = "auto",
+): HeightMeasurement[] {
+  // Distance from a label to the nearest edge of a section's bounding box
+  const candidates = sections.flatMap((section, sectionIndex) =>
+    labels.map((label, labelIndex) => ({
+      sectionIndex,
+      labelIndex,
+      distance: Math.hypot(
+        Math.max(section.x - label.x, 0, label.x - (section.x + section.width)),
+        Math.max(section.y - label.y, 0, label.y - (section.y + section.height)),
+      ),
+    })),
+  );
+  candidates.sort((a, b) => a.distance - b.distance);
+
+  const paired = new Map<number, HeightLabel>();
+  const usedLabels = new Set<number>();
+  for (const { sectionIndex, labelIndex } of candidates) {
+    if (paired.has(sectionIndex) || usedLabels.has(labelIndex)) continue;
+    paired.set(sectionIndex, labels[labelIndex]!);
+    usedLabels.add(labelIndex);
+  }
+
+  return sections.map((_, sectionIndex) => {
+    const label = paired.get(sectionIndex);
+    if (!label) {
+      throw new Error(
+        `Found ${labels.length} height labels for ${sections.length} sections; section #${sectionIndex + 1} has no label`,
+      );
+    }
+    return {
+      heightMm: label.heightMm,
+      source: "tesseract",
+      confidence: label.confidence,
+      ...(preferred === "openai"
+        ? { fallback: "openai: cannot locate the labels of several sections" }
+        : {}),
+    };
+  });
+}
@@ -0,0 +1,137 @@
+import { z } from "zod";
+
+// One analyzed section placed along a log
+export const logStationSchema = z.object({
+  logId: z.string().min(1),
+  positionMm: z.number().nonnegative(), // Distance from the butt end
+  label: z.string(), // Row the station came from, for charts and the export
+  area_mm2: z.number().nonnegative(),
+  diameter_mm: z.number().nonnegative(), // Equivalent circular diameter
+  Ixx_mm4: z.number(),
+  section_modulus_mm3: z.number(),
+});
+
+export type LogStation = z.infer<typeof logStationSchema>;
+
+export interface LogProfile {
+  log_id: string;
+  station_count: number;
+  length_mm: number; // Between the first and last stations
+  volume_smalian_m3: number; // Mean end area of each pair of neighbouring stations times their spacing
+  volume_huber_m3: number; // Each station's area times the length halfway to its neighbours
+  butt_diameter_mm: number;
+  top_diameter_mm: number;
+  taper_mm_per_m: number; // Least-squares loss of diameter per metre towards the top
+  stations: {
+    label: string;
+    position_mm: number;
+    area_mm2: number;
+    diameter_mm: number;
+    Ixx_mm4: number;
+    section_modulus_mm3: number;
+  }[];
+}
+
+// Volumes come from mm² × mm
+const MM3_PER_M3 = 1e9;
+
+// "log12_1500mm", "L3-st2.5m", "butt pos40cm": a log id, then a station position with a unit or
+// after "st", "station", "pos" or "position", so camera names like "IMG_0001" are left alone
+const STATION_PATTERN =
+  /^(.+?)[\s_-]+(?:(?:st(?:ation)?|pos(?:ition)?)[\s_-]*(\d+(?:\.\d+)?)\s*(mm|cm|m)?|(\d+(?:\.\d+)?)\s*(mm|cm|m))$/i;
+const UNIT_MM: Record<string, number> = { mm: 1, cm: 10, m: 1000 };
+
+/**
+ * Read the log id and station from a filename such as "log12_1500mm.png". Positions given after a
+ * keyword without a unit are in millimetres. Returns null when the name doesn't follow the pattern.
+ */
+export function parseLogStation(filename: string): { logId: string; positionMm: number } | null {
+  const basename = filename.replace(/^.*[\\/]/, "").replace(/\.[^.]+$/, "");
+  const match = STATION_PATTERN.exec(basename);
+  if (!match) return null;
+  const [, logId, keywordPosition, keywordUnit, unitPosition, unit] = match;
+  return {
+    logId: logId!,
+    positionMm:
+      Number(keywordPosition ?? unitPosition) *
+      (UNIT_MM[(keywordUnit ?? unit ?? "mm").toLowerCase()] ?? 1),
+  };
+}
+
+// Slope of the least-squares line through the points
+function fitSlope(xs: number[], ys: number[]): number {
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  let covariance = 0;
+  let variance = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i]! - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  return variance > 0 ? covariance / variance : 0;
+}
+
+/**
+ * Group the stations by log and work out each log's volume, taper and how its section properties
+ * change along the length. Stations are ordered from the butt; a log with one station has no
+ * length, so its volumes and taper are zero.
+ */
+export function analyzeLogProfiles(stations: LogStation[]): LogProfile[] {
+  const byLog = new Map<string, LogStation[]>();
+  for (const station of stations) {
+    byLog.set(station.logId, [...(byLog.get(station.logId) ?? []), station]);
+  }
+
+  return [...byLog.entries()].map(([logId, logStations]) => {
+    const sorted = [...logStations].sort((a, b) => a.positionMm - b.positionMm);
+    const first = sorted[0]!;
+    const last = sorted[sorted.length - 1]!;
+
+    let smalian = 0;
+    let huber = 0;
+    sorted.forEach((station, i) => {
+      const previous = sorted[i - 1];
+      const next = sorted[i + 1];
+      if (next) {
+        smalian += ((station.area_mm2 + next.area_mm2) / 2) * (next.positionMm - station.positionMm);
+      }
+      // Each station stands for the bolt reaching halfway to its neighbours
+      const start = previous ? (previous.positionMm + station.positionMm) / 2 : station.positionMm;
+      const end = next ? (station.positionMm + next.positionMm) / 2 : station.positionMm;
+      huber += station.area_mm2 * (end - start);
+    });
+
+    const taperPerMm = -fitSlope(
+      sorted.map((station) => station.positionMm),
+      sorted.map((station) => station.diameter_mm),
+    );
+
+    const profile: LogProfile = {
+      log_id: logId,
+      station_count: sorted.length,
+      length_mm: last.positionMm - first.positionMm,
+      volume_smalian_m3: smalian / MM3_PER_M3,
+      volume_huber_m3: huber / MM3_PER_M3,
+      butt_diameter_mm: first.diameter_mm,
+      top_diameter_mm: last.diameter_mm,
+      taper_mm_per_m: taperPerMm * 1000,
+      stations: sorted.map((station) => ({
+        label: station.label,
+        position_mm: station.positionMm,
+        area_mm2: station.area_mm2,
+        diameter_mm: station.diameter_mm,
+        Ixx_mm4: station.Ixx_mm4,
+        section_modulus_mm3: station.section_modulus_mm3,
+      })),
+    };
+
+    console.log(`Log profile for ${logId}:`, {
+      stations: profile.station_count,
+      length: profile.length_mm,
+      smalian: profile.volume_smalian_m3,
+      huber: profile.volume_huber_m3,
+      taper: profile.taper_mm_per_m,
+    });
+    return profile;
+  });
+}
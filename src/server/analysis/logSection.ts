@@ -0,0 +1,1671 @@
+import { z } from "zod";
+import { createCanvas, Image, type CanvasRenderingContext2D } from "canvas";
+import { cv, waitForOpenCV } from "~/server/analysis/opencv";
+import { type HeightMeasurement, type HeightSource } from "~/server/analysis/heightExtractors";
+import { findReferenceObject, type ReferenceObject } from "~/server/analysis/calibration";
+import {
+  defaultAnalysisOptions,
+  preprocessingSchema,
+  type AnalysisOptions,
+  type CalibrationOptions,
+  type CalibrationSource,
+} from "~/server/analysis/options";
+import { binarize, type BinaryMask } from "~/server/analysis/preprocessing";
+import { type ProgressStage } from "~/server/analysis/progress";
+import { detectDecay, type DecayRegion } from "~/server/analysis/decay";
+import {
+  analyzeSawingYield,
+  type SawingResult,
+  type SawnRectangle,
+} from "~/server/analysis/sawing";
+import { shapeDescriptors, type ShapeDescriptors } from "~/server/analysis/shape";
+import { parseLogStation } from "~/server/analysis/logProfile";
+import { type ImportedGeometry } from "~/server/analysis/geometryImport";
+import {
+  analyzeTorsion,
+  stripShear,
+  type TorsionResult,
+} from "~/server/analysis/torsion";
+import {
+  centroidalProperties,
+  contourPoints,
+  originMoments,
+  pointInPolygon,
+  polygonMoments,
+  refineSubpixel,
+  simplifyPolygon,
+  smoothContour,
+  stripAreas,
+  subtractMoments,
+  type Point,
+  type SectionProperties,
+} from "~/server/analysis/polygon";
+
+// Section boundary in millimetres, measured like the centroid from the image's top-left corner
+export interface SectionOutline {
+  outer: Point[];
+  holes: Point[][]; // Voids that were subtracted
+}
+
+export interface LogAnalysisResult {
+  filename: string; // Source filename, suffixed with #n when a sheet holds several sections
+  source_filename: string;
+  section_number: number; // 1-based position of the section on its sheet, in reading order
+  section_count: number;
+  log_id: string | null; // Log and station read from the filename, e.g. "log12_1500mm"
+  station_mm: number | null; // Distance from the butt end
+  area_mm2: number;
+  centroid_x_mm: number;
+  centroid_y_mm: number;
+  Ixx_mm4: number;
+  Iyy_mm4: number;
+  Ixy_mm4: number; // Product of inertia with y measured upwards
+  J_mm4: number; // Polar moment about the centroid (Ixx + Iyy)
+  rx_mm: number; // Radius of gyration about the x-axis
+  ry_mm: number; // Radius of gyration about the y-axis
+  I1_mm4: number; // Major principal moment
+  I2_mm4: number; // Minor principal moment
+  principal_angle_deg: number; // Angle of the major principal axis, counter-clockwise from x
+  section_modulus_mm3: number; // Governing (smallest) elastic modulus about the x-axis
+  Zx_top_mm3: number;
+  Zx_bottom_mm3: number;
+  Zy_left_mm3: number;
+  Zy_right_mm3: number;
+  c_top_mm: number; // Extreme fibre distances from the centroid, taken from the contour
+  c_bottom_mm: number;
+  c_left_mm: number;
+  c_right_mm: number;
+  plastic_modulus_x_mm3: number;
+  plastic_modulus_y_mm3: number;
+  plastic_axis_y_mm: number; // Position of the horizontal equal-area axis
+  plastic_axis_x_mm: number; // Position of the vertical equal-area axis
+  shape_factor_x: number; // Zp / Ze about the x-axis
+  shape_factor_y: number; // Zp / Ze about the y-axis
+  gross_area_mm2: number; // Solid section enclosed by the outer boundary
+  gross_Ixx_mm4: number;
+  gross_Iyy_mm4: number;
+  void_area_mm2: number; // Area of the subtracted holes (area_mm2 is the net section)
+  void_count: number;
+  sound_area_mm2: number; // Net section less the accepted decay regions
+  sound_Ixx_mm4: number;
+  sound_Iyy_mm4: number;
+  sound_section_modulus_mm3: number;
+  decay_area_mm2: number;
+  decay_percent: number; // Share of the net section lost to accepted decay
+  decay_regions: DecayRegion[]; // Empty unless decay detection is enabled
+  sawing: SawingResult | null; // Null unless the sawing yield is requested
+  Q_x_mm3: number; // First moment of the part above the x-axis, for shear stress VQ/Ib
+  Q_y_mm3: number; // First moment of the part left of the y-axis
+  shear_width_x_mm: number; // Width of the section along the x-axis, the b of VQ/Ib
+  shear_width_y_mm: number; // Height of the section along the y-axis
+  // Effective areas for shear deformation, I² / ∫ Q² / b from the strip shear stresses
+  shear_area_x_mm2: number; // Shear along x
+  shear_area_y_mm2: number; // Shear along y
+  torsion: TorsionResult | null; // Null unless the torsion solver is requested
+  equivalent_diameter_mm: number; // Diameter of the circle with the gross area
+  feret_max_mm: number; // Largest caliper diameter of the outer outline
+  feret_min_mm: number;
+  ovality_ratio: number; // Max over min Feret diameter, 1 for a round log
+  convexity: number; // Hull perimeter over outline perimeter
+  solidity: number; // Gross area over convex hull area
+  ellipse_major_mm: number; // Full axes of the ellipse fitted to the outer outline
+  ellipse_minor_mm: number;
+  ellipse_angle_deg: number; // Major axis angle, counter-clockwise from x
+  eccentricity: number; // Of the fitted ellipse, 0 for a circle
+  enclosing_circle_diameter_mm: number;
+  centroid_offset_bbox_mm: number; // Distance from the bounding box centre to the centroid
+  centroid_offset_ellipse_mm: number; // Distance from the fitted ellipse centre to the centroid
+  detected_height_mm: number; // Height in millimeters that was used for calculations
+  height_source: HeightSource; // Extractor that produced detected_height_mm
+  height_confidence: number; // Extractor confidence between 0 and 1
+  height_fallback?: string; // Why the chosen extractor was passed over, when it was
+  calibration_source: CalibrationSource; // What the mm-per-pixel scale was derived from
+  scale_mm_per_px: number;
+  property_method: PropertyMethod; // Which calculation produced the headline properties
+  // Pixel-counted values, for comparison with the polygon path. Null when the polygon method
+  // skipped counting.
+  raster_area_mm2: number | null;
+  raster_Ixx_mm4: number | null;
+  raster_Iyy_mm4: number | null;
+  polygon_area_mm2: number; // Green's theorem values from the (refined) contour polygon
+  polygon_Ixx_mm4: number;
+  polygon_Iyy_mm4: number;
+  // Simplified boundary, for CAD export. Missing from results saved before outlines were kept.
+  outline_mm?: SectionOutline;
+  processed_image_data: string; // Base64 encoded image with annotations
+}
+
+interface Moments {
+  m00: number;
+  m10: number;
+  m01: number;
+  mu20: number;
+  mu02: number;
+  mu11: number;
+}
+
+// Largest distance of an exported outline from the analyzed polygon, in pixels
+const OUTLINE_TOLERANCE_PX = 0.25;
+
+// Above this many pixels the "auto" method integrates the contour instead of the mask
+const LARGE_IMAGE_PIXELS = 4_000_000;
+
+const polygonSchema = z.array(z.object({ x: z.number(), y: z.number() })).min(3);
+
+// Hand-edited sections in image pixels, analyzed instead of the thresholded photo
+export const sectionGeometrySchema = z.object({
+  outlines: z.array(polygonSchema).min(1),
+  holes: z.array(polygonSchema).default([]), // Voids painted inside the sections
+  erased: z.array(polygonSchema).default([]), // Regions cut away, such as shadows taken for wood
+});
+
+export type SectionGeometry = z.infer<typeof sectionGeometrySchema>;
+
+// Largest distance of a detected polygon from the traced boundary, in pixels
+const GEOMETRY_TOLERANCE_PX = 1;
+// Imported geometry is drawn this large on its longer side, which sets the accuracy of the
+// mask-based properties; the polygon properties are exact
+const IMPORT_SIZE_PX = 2000;
+const IMPORT_MARGIN_PX = 40;
+// Rasterized geometry is already clean, dark on white and anti-aliased about mid-grey
+const GEOMETRY_PREPROCESSING = preprocessingSchema.parse({
+  thresholdMode: "manual",
+  thresholdValue: 127,
+  foreground: "dark",
+});
+export type PropertyMethod = Exclude<AnalysisOptions["propertyMethod"], "auto">;
+
+// Moments of a 0/255 mask with every section pixel weighing 1, not its value of 255
+const maskMoments = (mask: cv.Mat) => cv.moments(mask, true) as Moments;
+
+// Centroidal properties of a mask from OpenCV's raster moments
+function rasterProperties(moments: Moments): SectionProperties {
+  return {
+    area: moments.m00,
+    cx: moments.m10 / moments.m00,
+    cy: moments.m01 / moments.m00,
+    Ixx: moments.mu02,
+    Iyy: moments.mu20,
+    // Image rows grow downwards, so flip the sign to report Ixy with y pointing up
+    Ixy: -moments.mu11,
+  };
+}
+
+// Heights reported when the scale comes from a reference object rather than the height label
+function measuredHeight(heightMm: number, confidence: number): HeightMeasurement {
+  return { heightMm, source: "measured", confidence };
+}
+
+// Walk the contour points to find the top, bottom, left and right-most points
+function findExtremePoints(points: Point[]) {
+  const first = points[0] ?? { x: 0, y: 0 };
+  const extremes: Record<'top' | 'bottom' | 'left' | 'right', Point> = {
+    top: first,
+    bottom: first,
+    left: first,
+    right: first,
+  };
+
+  for (const point of points) {
+    if (point.y < extremes.top.y) extremes.top = point;
+    if (point.y > extremes.bottom.y) extremes.bottom = point;
+    if (point.x < extremes.left.x) extremes.left = point;
+    if (point.x > extremes.right.x) extremes.right = point;
+  }
+
+  return extremes;
+}
+
+// Pixel counts per row and column of a mask
+function maskStripWidths(mask: cv.Mat) {
+  const rowCounts = new Array<number>(mask.rows).fill(0);
+  const colCounts = new Array<number>(mask.cols).fill(0);
+  for (let y = 0; y < mask.rows; y++) {
+    const rowOffset = y * mask.cols;
+    for (let x = 0; x < mask.cols; x++) {
+      if (mask.data[rowOffset + x] === 255) {
+        rowCounts[y]!++;
+        colCounts[x]!++;
+      }
+    }
+  }
+  return { rowCounts, colCounts };
+}
+
+// The section's area in each pixel row, or with columns each pixel column, less its holes
+function polygonStripWidths(outer: Point[], holes: Point[][], strips: number, columns: boolean) {
+  const [outerWidths = [], ...holeWidths] = [outer, ...holes].map((ring) =>
+    stripAreas(columns ? ring.map(({ x, y }) => ({ x: y, y: x })) : ring, strips),
+  );
+  return outerWidths.map((width, i) => holeWidths.reduce((sum, hole) => sum - (hole[i] ?? 0), width));
+}
+
+// Find the equal-area axis across a strip histogram and sum the first moments of both halves
+function computePlasticModulus(counts: number[]) {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  const half = total / 2;
+
+  // Each strip i spans i - 0.5 to i + 0.5; interpolate inside the strip that crosses half the area
+  let cumulative = 0;
+  let splitIndex = 0;
+  let axisPx = 0;
+  for (let i = 0; i < counts.length; i++) {
+    const count = counts[i] ?? 0;
+    if (count > 0 && cumulative + count >= half) {
+      splitIndex = i;
+      axisPx = i - 0.5 + (half - cumulative) / count;
+      break;
+    }
+    cumulative += count;
+  }
+
+  let firstMomentPx3 = 0;
+  for (let i = 0; i < counts.length; i++) {
+    const count = counts[i] ?? 0;
+    if (i === splitIndex) {
+      // The split strip contributes a piece on each side of the axis
+      const before = axisPx - (i - 0.5);
+      const after = 1 - before;
+      firstMomentPx3 += (count * (before * before + after * after)) / 2;
+    } else {
+      firstMomentPx3 += count * Math.abs(i - axisPx);
+    }
+  }
+
+  return { axisPx, firstMomentPx3 };
+}
+
+// Steps of the analysis an image can fail at
+export const analysisStageSchema = z.enum([
+  "decode",
+  "height",
+  "contour",
+  "calibration",
+  "calculation",
+  "annotation",
+]);
+
+export type AnalysisStage = z.infer<typeof analysisStageSchema>;
+
+/** An analysis failure tagged with the step it happened in. */
+export class AnalysisError extends Error {
+  constructor(
+    public readonly stage: AnalysisStage,
+    message: string,
+  ) {
+    super(message);
+    this.name = "AnalysisError";
+  }
+}
+
+/** The outcome of analyzing one uploaded image: its sections, or why it failed. */
+export type ImageAnalysisOutcome =
+  | { status: "success"; filename: string; sections: LogAnalysisResult[] }
+  | { status: "error"; filename: string; stage: AnalysisStage; message: string };
+
+export interface SectionBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Resolves the height of every detected section, in the same order. A null height calibrates that
+ * section's scale from a reference object instead, and a "measured" height given back from an
+ * earlier analysis keeps the scale that object gave it.
+ */
+export type HeightResolver = (
+  sections: SectionBounds[],
+) => Promise<(HeightMeasurement | null)[]>;
+
+// Shared state for analyzing the sections of one image
+interface SectionContext {
+  filename: string; // Used to label log output
+  contours: cv.MatVector;
+  hierarchy: cv.Mat;
+  edges: cv.Mat; // Grey image crossing the threshold at the section edges
+  threshold: number;
+  photo: cv.Mat | null; // RGBA original, kept for decay detection
+  propertyMethod: PropertyMethod;
+  options: AnalysisOptions;
+  // Imported outlines by contour index, integrated instead of the contours traced from their image
+  exactPolygons?: Map<number, { outer: Point[]; holes: Point[][] }>;
+}
+
+// Everything needed to draw one section's overlay on the shared processed image
+interface SectionAnnotation {
+  contourIndex: number;
+  voidIndices: number[];
+  bounds: SectionBounds;
+  centroidX: number;
+  centroidY: number;
+  principalAngle: number;
+  plasticXAxisPx: number; // Row of the horizontal plastic neutral axis
+  plasticYAxisPx: number; // Column of the vertical plastic neutral axis
+  governingX: Point;
+  governingY: Point;
+  decayRegions: DecayRegion[];
+  sawing: SawingResult | null;
+  shape: ShapeDescriptors;
+  shearCentre: Point | null; // From the torsion solver, in pixels
+}
+
+type SectionResult = Omit<
+  LogAnalysisResult,
+  | "filename"
+  | "source_filename"
+  | "section_number"
+  | "section_count"
+  | "log_id"
+  | "station_mm"
+  | "processed_image_data"
+>;
+
+// Sort sections into rows from top to bottom, then left to right within each row
+function sortReadingOrder(indices: number[], bounds: Map<number, SectionBounds>): number[] {
+  const byTop = [...indices].sort((a, b) => bounds.get(a)!.y - bounds.get(b)!.y);
+  const rows: number[][] = [];
+  for (const index of byTop) {
+    const rect = bounds.get(index)!;
+    const centreY = rect.y + rect.height / 2;
+    const row = rows[rows.length - 1];
+    const rowRect = row ? bounds.get(row[0]!)! : undefined;
+    if (row && rowRect && centreY <= rowRect.y + rowRect.height) {
+      row.push(index);
+    } else {
+      rows.push([index]);
+    }
+  }
+  return rows.flatMap((row) => row.sort((a, b) => bounds.get(a)!.x - bounds.get(b)!.x));
+}
+
+// Trace an OpenCV contour as a closed canvas path
+function traceContour(ctx: CanvasRenderingContext2D, contour: cv.Mat) {
+  for (let i = 0; i < contour.data32S.length; i += 2) {
+    const x = contour.data32S[i];
+    const y = contour.data32S[i + 1];
+    if (x !== undefined && y !== undefined) {
+      if (i === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+    }
+  }
+  ctx.closePath();
+}
+
+// Holes directly inside a contour; each hierarchy entry is [next, previous, firstChild, parent]
+function childContours(hierarchy: cv.Mat, contourIndex: number): number[] {
+  const children: number[] = [];
+  let childIndex = (hierarchy.intPtr(0, contourIndex) as Int32Array)[2] ?? -1;
+  while (childIndex !== -1) {
+    children.push(childIndex);
+    childIndex = (hierarchy.intPtr(0, childIndex) as Int32Array)[0] ?? -1;
+  }
+  return children;
+}
+
+function analyzeSection(
+  context: SectionContext,
+  contourIndex: number,
+  height: HeightMeasurement | null,
+  reference: ReferenceObject | null,
+  rejectedDecay: number[] = [], // Ids of decay regions to count as sound wood
+): { result: SectionResult; annotation: SectionAnnotation } {
+  const { filename, contours, hierarchy, edges, threshold, photo, propertyMethod, options, exactPolygons } =
+    context;
+
+  // Get bounding rectangle of the shape (excluding text/labels)
+  const boundingRect = cv.boundingRect(contours.get(contourIndex));
+  const shapeHeightPx = boundingRect.height;
+
+  console.log(`Shape height in pixels for ${filename}:`, shapeHeightPx);
+
+  // Calculate scale from the reference object, or from the actual shape height rather than the full image
+  const scale = height ? height.heightMm / shapeHeightPx : reference!.scaleMmPerPx;
+  const pixelAreaMm2 = scale * scale;
+  const { heightMm, source: heightSource, confidence: heightConfidence, fallback: heightFallback } =
+    height ?? measuredHeight(shapeHeightPx * scale, reference!.rectangularity);
+
+  console.log(`Scale factor for ${filename}:`, scale);
+  console.log(`Pixel area in mm² for ${filename}:`, pixelAreaMm2);
+
+  // The polygon method skips the pass over the mask's pixels, so the mask is only drawn for the
+  // raster method or what is measured on it
+  const raster = propertyMethod === "raster";
+  const mask =
+    raster || photo || options.sawing.enabled || options.torsion.enabled
+      ? cv.Mat.zeros(edges.rows, edges.cols, cv.CV_8UC1 as number)
+      : null;
+  if (mask) cv.drawContours(mask, contours, contourIndex, new cv.Scalar(255), -1);
+
+  // Gross properties of the solid section before any voids are removed
+  const rasterGross = mask && raster ? rasterProperties(maskMoments(mask)) : null;
+
+  // Carve out the holes of the section that are big enough to matter
+  const voidIndices: number[] = [];
+  if (options.subtractVoids) {
+    for (const childIndex of childContours(hierarchy, contourIndex)) {
+      const voidAreaMm2 = cv.contourArea(contours.get(childIndex)) * pixelAreaMm2;
+      if (voidAreaMm2 >= options.minVoidAreaMm2) {
+        voidIndices.push(childIndex);
+      }
+    }
+
+    for (const voidIndex of voidIndices) {
+      if (!mask) continue;
+      cv.drawContours(mask, contours, voidIndex, new cv.Scalar(0), -1);
+      // Hole contours trace the surrounding wood pixels, so put that boundary back
+      cv.drawContours(mask, contours, voidIndex, new cv.Scalar(255), 1);
+    }
+  }
+
+  // Raster properties straight from the mask
+  const rasterNet = mask && raster ? rasterProperties(maskMoments(mask)) : null;
+
+  // Polygon properties from the (optionally refined and smoothed) contours
+  const toPolygon = (index: number) => {
+    const points = contourPoints(contours.get(index));
+    const refined = options.subpixel ? refineSubpixel(points, edges, threshold) : points;
+    return smoothContour(refined, options.smoothingRadius);
+  };
+  const exact = exactPolygons?.get(contourIndex);
+  const outerPolygon = exact?.outer ?? toPolygon(contourIndex);
+  const holePolygons = exact?.holes ?? voidIndices.map(toPolygon);
+  const outerMoments = polygonMoments(outerPolygon);
+  const polygonGross = centroidalProperties(outerMoments);
+  const polygonNetMoments = holePolygons.reduce(
+    (moments, hole) => subtractMoments(moments, polygonMoments(hole)),
+    outerMoments,
+  );
+  const polygonNet = centroidalProperties(polygonNetMoments);
+
+  const gross = rasterGross ?? polygonGross;
+  const net = rasterNet ?? polygonNet;
+
+  // Sound wood is the net section less the decay regions that were accepted
+  const decay =
+    photo && mask && options.decay.enabled
+      ? detectDecay(photo, mask, boundingRect, pixelAreaMm2, options.decay, rejectedDecay)
+      : null;
+  const sound =
+    decay && decay.accepted.area > 0
+      ? centroidalProperties(
+          subtractMoments(
+            rasterNet ? originMoments(rasterNet) : polygonNetMoments,
+            decay.accepted,
+          ),
+        )
+      : net;
+
+  console.log(`Property method for ${filename}:`, propertyMethod, {
+    rasterArea: rasterNet && rasterNet.area * pixelAreaMm2,
+    polygonArea: polygonNet.area * pixelAreaMm2,
+    rasterIxx: rasterNet && rasterNet.Ixx * pixelAreaMm2 * pixelAreaMm2,
+    polygonIxx: polygonNet.Ixx * pixelAreaMm2 * pixelAreaMm2
+  });
+
+  // Calculate properties
+  const areaMm2 = net.area * pixelAreaMm2;
+  const centroidX = net.cx;
+  const centroidY = net.cy;
+
+  const grossAreaMm2 = gross.area * pixelAreaMm2;
+  const grossIxxMm4 = gross.Ixx * pixelAreaMm2 * pixelAreaMm2;
+  const grossIyyMm4 = gross.Iyy * pixelAreaMm2 * pixelAreaMm2;
+  const voidAreaMm2 = grossAreaMm2 - areaMm2;
+
+  console.log(`Voids for ${filename}:`, {
+    count: voidIndices.length,
+    grossArea: grossAreaMm2,
+    voidArea: voidAreaMm2
+  });
+
+  // Convert to real-world coordinates
+  const centroidXMm = centroidX * scale;
+  const centroidYMm = centroidY * scale;
+
+  console.log(`Centroid coordinates for ${filename}:`, {
+    x: centroidXMm,
+    y: centroidYMm
+  });
+
+  // Second moments of area about the centroidal axes
+  const IxxMm4 = net.Ixx * pixelAreaMm2 * pixelAreaMm2;
+  const IyyMm4 = net.Iyy * pixelAreaMm2 * pixelAreaMm2;
+  const IxyMm4 = net.Ixy * pixelAreaMm2 * pixelAreaMm2;
+
+  // Section width in each pixel row and column, used to locate the plastic neutral axes and for
+  // the shear flow: counted on the mask, or integrated from the same polygons as the properties
+  const { rowCounts, colCounts } =
+    mask && raster
+      ? maskStripWidths(mask)
+      : {
+          rowCounts: polygonStripWidths(outerPolygon, holePolygons, edges.rows, false),
+          colCounts: polygonStripWidths(outerPolygon, holePolygons, edges.cols, true),
+        };
+
+  // Timber that can be milled from the section, avoiding its voids
+  const sawing = mask && options.sawing.enabled
+    ? analyzeSawingYield(mask, boundingRect, scale, grossAreaMm2, options.sawing)
+    : null;
+  // St. Venant torsion and the shear centre, solved over the mask
+  const torsion = mask && options.torsion.enabled
+    ? analyzeTorsion(mask, boundingRect, scale, options.torsion)
+    : null;
+  mask?.delete();
+
+  console.log(`Ixx for ${filename}:`, IxxMm4);
+  console.log(`Iyy for ${filename}:`, IyyMm4);
+  console.log(`Ixy for ${filename}:`, IxyMm4);
+
+  // Polar moment, radii of gyration and principal moments
+  const JMm4 = IxxMm4 + IyyMm4;
+  const rxMm = Math.sqrt(IxxMm4 / areaMm2);
+  const ryMm = Math.sqrt(IyyMm4 / areaMm2);
+  const IAvg = (IxxMm4 + IyyMm4) / 2;
+  const IRadius = Math.hypot((IxxMm4 - IyyMm4) / 2, IxyMm4);
+  const I1Mm4 = IAvg + IRadius;
+  const I2Mm4 = IAvg - IRadius;
+  const principalAngle = 0.5 * Math.atan2(-IxyMm4, (IxxMm4 - IyyMm4) / 2);
+  const principalAngleDeg = (principalAngle * 180) / Math.PI;
+
+  console.log(`Principal moments for ${filename}:`, {
+    I1: I1Mm4,
+    I2: I2Mm4,
+    angle: principalAngleDeg
+  });
+
+  // Find the extreme fibres on the actual contour rather than the bounding box
+  const extremes = findExtremePoints(outerPolygon);
+  // Raster contour points are pixel centres, so extend half a pixel to reach the outer edge
+  const edgeOffset = propertyMethod === "raster" ? 0.5 : 0;
+  const cTopMm = (centroidY - extremes.top.y + edgeOffset) * scale;
+  const cBottomMm = (extremes.bottom.y + edgeOffset - centroidY) * scale;
+  const cLeftMm = (centroidX - extremes.left.x + edgeOffset) * scale;
+  const cRightMm = (extremes.right.x + edgeOffset - centroidX) * scale;
+
+  const ZxTopMm3 = IxxMm4 / cTopMm;
+  const ZxBottomMm3 = IxxMm4 / cBottomMm;
+  const ZyLeftMm3 = IyyMm4 / cLeftMm;
+  const ZyRightMm3 = IyyMm4 / cRightMm;
+
+  // The governing modulus belongs to the fibre furthest from the neutral axis
+  const sectionModulusMm3 = Math.min(ZxTopMm3, ZxBottomMm3);
+
+  // The sound section keeps the outer fibres but its neutral axis moves away from the decay
+  const soundIxxMm4 = sound.Ixx * pixelAreaMm2 * pixelAreaMm2;
+  const soundCMm = Math.max(
+    (sound.cy - extremes.top.y + edgeOffset) * scale,
+    (extremes.bottom.y + edgeOffset - sound.cy) * scale,
+  );
+  const decayAreaMm2 = (net.area - sound.area) * pixelAreaMm2;
+
+  console.log(`Sound wood for ${filename}:`, {
+    regions: decay?.regions.length ?? 0,
+    decayArea: decayAreaMm2,
+    soundIxx: soundIxxMm4
+  });
+  // Outline measures foresters grade logs by
+  const shape = shapeDescriptors(outerPolygon);
+  const ellipseCentre = shape.ellipse?.centre ?? shape.boundingBoxCentre;
+  // OpenCV turns the ellipse clockwise on screen; report it like the principal angle, within ±90°
+  const ellipseAngleDeg = ((((-(shape.ellipse?.angleDeg ?? 0)) % 180) + 270) % 180) - 90;
+
+  console.log(`Shape descriptors for ${filename}:`, {
+    equivalentDiameter: shape.equivalentDiameter * scale,
+    feretMax: shape.feretMax * scale,
+    feretMin: shape.feretMin * scale,
+    ovality: shape.ovality,
+    convexity: shape.convexity,
+    solidity: shape.solidity,
+    eccentricity: shape.eccentricity
+  });
+  const governingX = cTopMm >= cBottomMm ? extremes.top : extremes.bottom;
+  const governingY = cLeftMm >= cRightMm ? extremes.left : extremes.right;
+
+  console.log(`Extreme fibre distances for ${filename}:`, {
+    top: cTopMm,
+    bottom: cBottomMm,
+    left: cLeftMm,
+    right: cRightMm
+  });
+  console.log(`Section moduli for ${filename}:`, {
+    ZxTop: ZxTopMm3,
+    ZxBottom: ZxBottomMm3,
+    ZyLeft: ZyLeftMm3,
+    ZyRight: ZyRightMm3
+  });
+
+  // Plastic section moduli about the equal-area axes
+  const plasticX = computePlasticModulus(rowCounts);
+  const plasticY = computePlasticModulus(colCounts);
+  const plasticModulusXMm3 = plasticX.firstMomentPx3 * scale * scale * scale;
+  const plasticModulusYMm3 = plasticY.firstMomentPx3 * scale * scale * scale;
+  const shapeFactorX = plasticModulusXMm3 / sectionModulusMm3;
+  const shapeFactorY = plasticModulusYMm3 / Math.min(ZyLeftMm3, ZyRightMm3);
+
+  console.log(`Plastic moduli for ${filename}:`, {
+    Zpx: plasticModulusXMm3,
+    Zpy: plasticModulusYMm3,
+    shapeFactorX,
+    shapeFactorY
+  });
+
+  // Shear flow about the elastic axes: rows give shear along y, columns shear along x
+  const shearY = stripShear(rowCounts, centroidY);
+  const shearX = stripShear(colCounts, centroidX);
+
+  console.log(`Shear properties for ${filename}:`, {
+    Qx: shearY.firstMomentPx3 * scale * scale * scale,
+    Qy: shearX.firstMomentPx3 * scale * scale * scale,
+    shearAreaX: shearX.shearAreaPx2 * pixelAreaMm2,
+    shearAreaY: shearY.shearAreaPx2 * pixelAreaMm2
+  });
+
+  // The analyzed boundary in millimetres, thinned out for CAD
+  const toOutlineMm = (polygon: Point[]) =>
+    simplifyPolygon(polygon, OUTLINE_TOLERANCE_PX).map((point) => ({
+      x: point.x * scale,
+      y: point.y * scale
+    }));
+
+  return {
+    result: {
+      area_mm2: areaMm2,
+      centroid_x_mm: centroidXMm,
+      centroid_y_mm: centroidYMm,
+      Ixx_mm4: IxxMm4,
+      Iyy_mm4: IyyMm4,
+      Ixy_mm4: IxyMm4,
+      J_mm4: JMm4,
+      rx_mm: rxMm,
+      ry_mm: ryMm,
+      I1_mm4: I1Mm4,
+      I2_mm4: I2Mm4,
+      principal_angle_deg: principalAngleDeg,
+      section_modulus_mm3: sectionModulusMm3,
+      Zx_top_mm3: ZxTopMm3,
+      Zx_bottom_mm3: ZxBottomMm3,
+      Zy_left_mm3: ZyLeftMm3,
+      Zy_right_mm3: ZyRightMm3,
+      c_top_mm: cTopMm,
+      c_bottom_mm: cBottomMm,
+      c_left_mm: cLeftMm,
+      c_right_mm: cRightMm,
+      plastic_modulus_x_mm3: plasticModulusXMm3,
+      plastic_modulus_y_mm3: plasticModulusYMm3,
+      plastic_axis_y_mm: plasticX.axisPx * scale,
+      plastic_axis_x_mm: plasticY.axisPx * scale,
+      shape_factor_x: shapeFactorX,
+      shape_factor_y: shapeFactorY,
+      gross_area_mm2: grossAreaMm2,
+      gross_Ixx_mm4: grossIxxMm4,
+      gross_Iyy_mm4: grossIyyMm4,
+      void_area_mm2: voidAreaMm2,
+      void_count: voidIndices.length,
+      sound_area_mm2: sound.area * pixelAreaMm2,
+      sound_Ixx_mm4: soundIxxMm4,
+      sound_Iyy_mm4: sound.Iyy * pixelAreaMm2 * pixelAreaMm2,
+      sound_section_modulus_mm3: soundIxxMm4 / soundCMm,
+      decay_area_mm2: decayAreaMm2,
+      decay_percent: (decayAreaMm2 / areaMm2) * 100,
+      decay_regions: decay?.regions ?? [],
+      sawing,
+      Q_x_mm3: shearY.firstMomentPx3 * scale * scale * scale,
+      Q_y_mm3: shearX.firstMomentPx3 * scale * scale * scale,
+      shear_width_x_mm: shearY.widthAtAxisPx * scale,
+      shear_width_y_mm: shearX.widthAtAxisPx * scale,
+      shear_area_x_mm2: shearX.shearAreaPx2 * pixelAreaMm2,
+      shear_area_y_mm2: shearY.shearAreaPx2 * pixelAreaMm2,
+      torsion,
+      equivalent_diameter_mm: shape.equivalentDiameter * scale,
+      feret_max_mm: shape.feretMax * scale,
+      feret_min_mm: shape.feretMin * scale,
+      ovality_ratio: shape.ovality,
+      convexity: shape.convexity,
+      solidity: shape.solidity,
+      ellipse_major_mm: (shape.ellipse?.major ?? 0) * scale,
+      ellipse_minor_mm: (shape.ellipse?.minor ?? 0) * scale,
+      ellipse_angle_deg: ellipseAngleDeg,
+      eccentricity: shape.eccentricity,
+      enclosing_circle_diameter_mm: shape.enclosingCircle.radius * 2 * scale,
+      centroid_offset_bbox_mm:
+        Math.hypot(centroidX - shape.boundingBoxCentre.x, centroidY - shape.boundingBoxCentre.y) * scale,
+      centroid_offset_ellipse_mm:
+        Math.hypot(centroidX - ellipseCentre.x, centroidY - ellipseCentre.y) * scale,
+      detected_height_mm: heightMm, // Return the height that was used for calculations
+      height_source: heightSource,
+      height_confidence: heightConfidence,
+      height_fallback: heightFallback,
+      // A measured height given back keeps the reference scale it was measured with
+      calibration_source: height && height.source !== "measured" ? "height" : "reference",
+      scale_mm_per_px: scale,
+      property_method: propertyMethod,
+      raster_area_mm2: rasterNet && rasterNet.area * pixelAreaMm2,
+      raster_Ixx_mm4: rasterNet && rasterNet.Ixx * pixelAreaMm2 * pixelAreaMm2,
+      raster_Iyy_mm4: rasterNet && rasterNet.Iyy * pixelAreaMm2 * pixelAreaMm2,
+      polygon_area_mm2: polygonNet.area * pixelAreaMm2,
+      polygon_Ixx_mm4: polygonNet.Ixx * pixelAreaMm2 * pixelAreaMm2,
+      polygon_Iyy_mm4: polygonNet.Iyy * pixelAreaMm2 * pixelAreaMm2,
+      outline_mm: {
+        outer: toOutlineMm(outerPolygon),
+        holes: holePolygons.map(toOutlineMm),
+      },
+    },
+    annotation: {
+      contourIndex,
+      voidIndices,
+      bounds: boundingRect,
+      centroidX,
+      centroidY,
+      principalAngle,
+      plasticXAxisPx: plasticX.axisPx,
+      plasticYAxisPx: plasticY.axisPx,
+      governingX,
+      governingY,
+      decayRegions: decay?.regions ?? [],
+      sawing,
+      shape,
+      shearCentre: torsion
+        ? { x: torsion.shear_centre_x_mm / scale, y: torsion.shear_centre_y_mm / scale }
+        : null,
+    },
+  };
+}
+
+/**
+ * Draw the sections with their centroids, axes and fibres over the original image. A single
+ * section gets full-width axes; on multi-section sheets each overlay is kept inside a margin around
+ * its own section and numbered.
+ */
+function drawAnnotations(
+  img: Image,
+  contours: cv.MatVector,
+  annotations: SectionAnnotation[],
+  reference: ReferenceObject | null,
+): string {
+  // Create a visualization with the log section and annotations
+  const visualCanvas = createCanvas(img.width, img.height);
+  const visualCtx = visualCanvas.getContext('2d');
+  if (!visualCtx) throw new Error("Failed to get visual canvas context");
+  
+  // Draw original image
+  visualCtx.drawImage(img, 0, 0);
+  
+  // Remove text/labels by filling the areas outside the section contours with white
+  visualCtx.globalCompositeOperation = 'destination-in';
+  
+  // Create a path for the contours
+  visualCtx.beginPath();
+  for (const annotation of annotations) {
+    traceContour(visualCtx, contours.get(annotation.contourIndex));
+  }
+  visualCtx.fill();
+  
+  // Reset composite operation
+  visualCtx.globalCompositeOperation = 'source-over';
+  
+  // Outline the reference marker used for calibration
+  if (reference) {
+    visualCtx.strokeStyle = '#8A2BE2'; // Blue violet
+    visualCtx.lineWidth = 4;
+    visualCtx.beginPath();
+    reference.corners.forEach((corner, i) => {
+      if (i === 0) {
+        visualCtx.moveTo(corner.x, corner.y);
+      } else {
+        visualCtx.lineTo(corner.x, corner.y);
+      }
+    });
+    visualCtx.closePath();
+    visualCtx.stroke();
+  }
+
+  const multiSection = annotations.length > 1;
+  annotations.forEach((annotation, sectionIndex) => {
+    const { centroidX, centroidY, principalAngle, bounds } = annotation;
+
+    // The area each section's axes and labels are confined to
+    const margin = multiSection ? Math.max(bounds.width, bounds.height) * 0.1 : 0;
+    const extent = multiSection
+      ? {
+          x: Math.max(0, bounds.x - margin),
+          y: Math.max(0, bounds.y - margin),
+          width: Math.min(img.width, bounds.x + bounds.width + margin) - Math.max(0, bounds.x - margin),
+          height: Math.min(img.height, bounds.y + bounds.height + margin) - Math.max(0, bounds.y - margin),
+        }
+      : { x: 0, y: 0, width: img.width, height: img.height };
+    const extentRight = extent.x + extent.width;
+    const extentBottom = extent.y + extent.height;
+
+    visualCtx.save();
+    visualCtx.beginPath();
+    visualCtx.rect(extent.x, extent.y, extent.width, extent.height);
+    visualCtx.clip();
+
+    // Outline the subtracted voids
+    visualCtx.strokeStyle = '#00CED1'; // Dark turquoise
+    visualCtx.lineWidth = 3;
+    for (const voidIndex of annotation.voidIndices) {
+      visualCtx.beginPath();
+      traceContour(visualCtx, contours.get(voidIndex));
+      visualCtx.stroke();
+    }
+
+    // Tint accepted decay orange; rejected regions keep a dashed outline so they can be accepted again
+    for (const region of annotation.decayRegions) {
+      visualCtx.beginPath();
+      region.outline.forEach((point, i) => {
+        if (i === 0) {
+          visualCtx.moveTo(point.x, point.y);
+        } else {
+          visualCtx.lineTo(point.x, point.y);
+        }
+      });
+      visualCtx.closePath();
+      if (region.accepted) {
+        visualCtx.fillStyle = 'rgba(255, 140, 0, 0.45)'; // Dark orange
+        visualCtx.fill();
+      }
+      visualCtx.strokeStyle = region.accepted ? '#FF8C00' : '#A9A9A9'; // Dark orange, dark grey
+      visualCtx.lineWidth = 3;
+      visualCtx.setLineDash(region.accepted ? [] : [8, 6]);
+      visualCtx.stroke();
+      visualCtx.setLineDash([]);
+
+      // Label with the region id the table refers to
+      const labelX = region.outline.reduce((sum, point) => sum + point.x, 0) / region.outline.length;
+      const labelY = region.outline.reduce((sum, point) => sum + point.y, 0) / region.outline.length;
+      visualCtx.font = 'bold 28px Arial';
+      visualCtx.fillStyle = '#FFFFFF';
+      visualCtx.strokeStyle = '#000000';
+      visualCtx.lineWidth = 4;
+      visualCtx.strokeText(`D${region.id + 1}`, labelX, labelY);
+      visualCtx.fillText(`D${region.id + 1}`, labelX, labelY);
+    }
+    
+    // Fitted ellipse and smallest enclosing circle of the outer outline
+    const { ellipse, enclosingCircle } = annotation.shape;
+    if (ellipse) {
+      visualCtx.strokeStyle = '#FFFF00'; // Yellow
+      visualCtx.lineWidth = 3;
+      visualCtx.beginPath();
+      visualCtx.ellipse(
+        ellipse.centre.x,
+        ellipse.centre.y,
+        ellipse.major / 2,
+        ellipse.minor / 2,
+        (ellipse.angleDeg * Math.PI) / 180,
+        0,
+        2 * Math.PI,
+      );
+      visualCtx.stroke();
+    }
+    visualCtx.strokeStyle = '#FFFFFF'; // White
+    visualCtx.lineWidth = 3;
+    visualCtx.setLineDash([12, 8]);
+    visualCtx.beginPath();
+    visualCtx.arc(enclosingCircle.centre.x, enclosingCircle.centre.y, enclosingCircle.radius, 0, 2 * Math.PI);
+    visualCtx.stroke();
+    visualCtx.setLineDash([]);
+
+    // Draw centroid with much larger, more visible marker
+    visualCtx.fillStyle = '#FF0000'; // Bright red
+    visualCtx.beginPath();
+    visualCtx.arc(centroidX, centroidY, 15, 0, 2 * Math.PI);
+    visualCtx.fill();
+    
+    // Add a thicker contrasting border to the centroid
+    visualCtx.strokeStyle = '#FFFFFF'; // White border
+    visualCtx.lineWidth = 4;
+    visualCtx.stroke();
+    
+    // Draw x and y axes through centroid with even higher visibility
+    visualCtx.strokeStyle = '#0000FF'; // Bright blue
+    visualCtx.lineWidth = 5;
+    
+    // X-axis with dashed line for better visibility
+    visualCtx.beginPath();
+    visualCtx.setLineDash([15, 7]);
+    visualCtx.moveTo(extent.x, centroidY);
+    visualCtx.lineTo(extentRight, centroidY);
+    visualCtx.stroke();
+    
+    // Y-axis with dashed line
+    visualCtx.beginPath();
+    visualCtx.moveTo(centroidX, extent.y);
+    visualCtx.lineTo(centroidX, extentBottom);
+    visualCtx.stroke();
+    
+    // Plastic neutral axes, which only coincide with the elastic axes for symmetric sections
+    visualCtx.strokeStyle = '#FF00FF'; // Magenta
+    visualCtx.lineWidth = 3;
+    visualCtx.setLineDash([4, 8]);
+    visualCtx.beginPath();
+    visualCtx.moveTo(extent.x, annotation.plasticXAxisPx);
+    visualCtx.lineTo(extentRight, annotation.plasticXAxisPx);
+    visualCtx.stroke();
+    visualCtx.beginPath();
+    visualCtx.moveTo(annotation.plasticYAxisPx, extent.y);
+    visualCtx.lineTo(annotation.plasticYAxisPx, extentBottom);
+    visualCtx.stroke();
+    
+    // Principal axes through the centroid, rotated counter-clockwise (canvas y points down)
+    const axisLength = Math.hypot(extent.width, extent.height);
+    const principalAxes = [
+      { label: '1', angle: principalAngle },
+      { label: '2', angle: principalAngle + Math.PI / 2 },
+    ];
+    visualCtx.strokeStyle = '#00AA00'; // Green
+    visualCtx.lineWidth = 4;
+    visualCtx.setLineDash([6, 6]);
+    for (const axis of principalAxes) {
+      const dx = Math.cos(axis.angle) * axisLength;
+      const dy = -Math.sin(axis.angle) * axisLength;
+      visualCtx.beginPath();
+      visualCtx.moveTo(centroidX - dx, centroidY - dy);
+      visualCtx.lineTo(centroidX + dx, centroidY + dy);
+      visualCtx.stroke();
+    }
+    
+    // Reset line dash
+    visualCtx.setLineDash([]);
+    
+    // Add larger labels for clarity
+    visualCtx.font = 'bold 24px Arial';
+    visualCtx.fillStyle = '#000000';
+    visualCtx.strokeStyle = '#FFFFFF';
+    visualCtx.lineWidth = 4;
+    
+    // Centroid label
+    const centroidXNum = Number(centroidX);
+    const centroidYNum = Number(centroidY);
+    visualCtx.strokeText('C', centroidXNum + 18, centroidYNum - 18);
+    visualCtx.fillText('C', centroidXNum + 18, centroidYNum - 18);
+
+    // Shear centre as a cross, labelled below the centroid label
+    if (annotation.shearCentre) {
+      const { x, y } = annotation.shearCentre;
+      visualCtx.save();
+      visualCtx.strokeStyle = '#FF4500'; // Orange red
+      visualCtx.lineWidth = 4;
+      visualCtx.beginPath();
+      visualCtx.moveTo(x - 12, y - 12);
+      visualCtx.lineTo(x + 12, y + 12);
+      visualCtx.moveTo(x - 12, y + 12);
+      visualCtx.lineTo(x + 12, y - 12);
+      visualCtx.stroke();
+      visualCtx.fillStyle = '#FF4500';
+      visualCtx.strokeStyle = '#000000';
+      visualCtx.strokeText('S', x + 18, y + 30);
+      visualCtx.fillText('S', x + 18, y + 30);
+      visualCtx.restore();
+    }
+    
+    // Add X and Y labels at the ends of the axes
+    visualCtx.strokeText('X', extentRight - 30, centroidYNum - 10);
+    visualCtx.fillText('X', extentRight - 30, centroidYNum - 10);
+    
+    visualCtx.strokeText('Y', centroidXNum + 10, extent.y + 30);
+    visualCtx.fillText('Y', centroidXNum + 10, extent.y + 30);
+
+    // Label the plastic neutral axes next to the elastic ones
+    visualCtx.fillStyle = '#FF00FF';
+    visualCtx.strokeText('PNA', extent.x + 10, annotation.plasticXAxisPx - 10);
+    visualCtx.fillText('PNA', extent.x + 10, annotation.plasticXAxisPx - 10);
+    visualCtx.strokeText('PNA', annotation.plasticYAxisPx + 10, extentBottom - 15);
+    visualCtx.fillText('PNA', annotation.plasticYAxisPx + 10, extentBottom - 15);
+
+    // Label the principal axes a short distance out from the centroid
+    visualCtx.fillStyle = '#00AA00';
+    const principalLabelOffset = Math.min(extent.width, extent.height) / 4;
+    for (const axis of principalAxes) {
+      const labelX = centroidXNum + Math.cos(axis.angle) * principalLabelOffset;
+      const labelY = centroidYNum - Math.sin(axis.angle) * principalLabelOffset;
+      visualCtx.strokeText(axis.label, labelX, labelY);
+      visualCtx.fillText(axis.label, labelX, labelY);
+    }
+    
+    // Mark the governing extreme fibres for bending about each axis
+    const governingFibres = [
+      { label: 'Zx', point: annotation.governingX },
+      { label: 'Zy', point: annotation.governingY },
+    ];
+    for (const fibre of governingFibres) {
+      visualCtx.fillStyle = '#FF8C00'; // Orange
+      visualCtx.beginPath();
+      visualCtx.arc(fibre.point.x, fibre.point.y, 10, 0, 2 * Math.PI);
+      visualCtx.fill();
+      visualCtx.strokeStyle = '#FFFFFF';
+      visualCtx.lineWidth = 3;
+      visualCtx.stroke();
+
+      visualCtx.fillStyle = '#000000';
+      visualCtx.lineWidth = 4;
+      visualCtx.strokeText(fibre.label, fibre.point.x + 14, fibre.point.y - 14);
+      visualCtx.fillText(fibre.label, fibre.point.x + 14, fibre.point.y - 14);
+    }
+
+    // Outline the sawn cuts
+    const cuts: [SawnRectangle | null | undefined, string][] = [
+      [annotation.sawing?.aspect_cut, '#FFD700'], // Gold
+      [annotation.sawing?.max_modulus_cut, '#1E90FF'], // Dodger blue
+      [annotation.sawing?.nominal_cut, '#FF1493'], // Deep pink
+    ];
+    visualCtx.font = 'bold 22px Arial';
+    for (const [cut, colour] of cuts) {
+      if (!cut) continue;
+      visualCtx.strokeStyle = colour;
+      visualCtx.lineWidth = 4;
+      visualCtx.beginPath();
+      cut.corners.forEach((corner, i) => {
+        if (i === 0) {
+          visualCtx.moveTo(corner.x, corner.y);
+        } else {
+          visualCtx.lineTo(corner.x, corner.y);
+        }
+      });
+      visualCtx.closePath();
+      visualCtx.stroke();
+
+      const labelCorner = cut.corners[0]!;
+      const label = `${cut.label} ${cut.width_mm.toFixed(0)}x${cut.depth_mm.toFixed(0)}`;
+      visualCtx.fillStyle = colour;
+      visualCtx.strokeStyle = '#000000';
+      visualCtx.lineWidth = 4;
+      visualCtx.strokeText(label, labelCorner.x + 6, labelCorner.y + 24);
+      visualCtx.fillText(label, labelCorner.x + 6, labelCorner.y + 24);
+    }
+
+    visualCtx.restore();
+
+    // Number each section on multi-section sheets
+    if (multiSection) {
+      const label = `#${sectionIndex + 1}`;
+      visualCtx.font = 'bold 36px Arial';
+      visualCtx.fillStyle = '#000000';
+      visualCtx.strokeStyle = '#FFFFFF';
+      visualCtx.lineWidth = 5;
+      visualCtx.strokeText(label, bounds.x, Math.max(36, bounds.y - 10));
+      visualCtx.fillText(label, bounds.x, Math.max(36, bounds.y - 10));
+    }
+  });
+
+  // Label the reference marker
+  if (reference) {
+    const labelCorner = reference.corners[0] ?? { x: 0, y: 0 };
+    visualCtx.font = 'bold 24px Arial';
+    visualCtx.fillStyle = '#8A2BE2';
+    visualCtx.strokeStyle = '#FFFFFF';
+    visualCtx.lineWidth = 4;
+    visualCtx.strokeText('REF', labelCorner.x, labelCorner.y - 10);
+    visualCtx.fillText('REF', labelCorner.x, labelCorner.y - 10);
+  }
+
+  // Get the processed image as base64
+  return visualCanvas.toDataURL('image/png');
+}
+
+// The contours of a binary mask and which of them are log sections
+interface Segmentation {
+  contours: cv.MatVector;
+  hierarchy: cv.Mat;
+  outerIndices: number[];
+  sectionIndices: number[]; // In reading order
+  bounds: Map<number, SectionBounds>; // Bounding boxes of the outer contours
+}
+
+/**
+ * Trace the contours of the mask and pick out the sections: the largest outer contour, or in
+ * multi-section mode every one close enough in size to it.
+ */
+function segmentSections(
+  binary: cv.Mat,
+  filename: string,
+  options: AnalysisOptions,
+  propertyMethod: PropertyMethod,
+): Segmentation {
+  // Find contours, keeping the two-level outer/hole hierarchy when voids are subtracted
+  const contours = new cv.MatVector();
+  const hierarchy = new cv.Mat();
+  cv.findContours(
+    binary,
+    contours,
+    hierarchy,
+    (options.subtractVoids ? cv.RETR_CCOMP : cv.RETR_EXTERNAL) as number,
+    // The polygon path needs every boundary pixel to refine and smooth
+    (propertyMethod === "polygon" ? cv.CHAIN_APPROX_NONE : cv.CHAIN_APPROX_SIMPLE) as number,
+  );
+
+  // Only outer contours can be sections; each hierarchy entry is [next, previous, firstChild, parent]
+  const outerIndices = Array.from({ length: contours.size() }, (_, i) => i).filter(
+    (i) => !options.subtractVoids || (hierarchy.intPtr(0, i) as Int32Array)[3] === -1,
+  );
+  const areas = new Map(outerIndices.map((i) => [i, cv.contourArea(contours.get(i))]));
+
+  // Find largest outer contour
+  let maxArea = 0;
+  let largestContourIndex = 0;
+  for (const [i, area] of areas) {
+    if (area > maxArea) {
+      maxArea = area;
+      largestContourIndex = i;
+    }
+  }
+
+  console.log(`Largest contour area for ${filename}:`, maxArea);
+
+  if (maxArea === 0) {
+    contours.delete();
+    hierarchy.delete();
+    throw new Error(`No valid contour found in image ${filename}`);
+  }
+
+  // In multi-section mode every contour close enough in size to the largest is its own section
+  const bounds = new Map(outerIndices.map((i) => [i, cv.boundingRect(contours.get(i))]));
+  const sectionIndices = options.multiSection
+    ? sortReadingOrder(
+        outerIndices.filter((i) => areas.get(i)! >= maxArea * options.minSectionAreaFraction),
+        bounds,
+      )
+    : [largestContourIndex];
+
+  return { contours, hierarchy, outerIndices, sectionIndices, bounds };
+}
+
+function loadImage(imageBuffer: Buffer) {
+  // Create a canvas to load the image
+  const img = new Image();
+  img.src = imageBuffer;
+
+  const canvas = createCanvas(img.width, img.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Failed to get canvas context");
+
+  // Draw image to canvas
+  ctx.drawImage(img, 0, 0);
+
+  // Get image data for processing
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  // Convert to OpenCV Mat, keeping the colour for preprocessing
+  const src = cv.matFromImageData(imageData);
+
+  return { img, src };
+}
+
+function fillPolygons(ctx: CanvasRenderingContext2D, polygons: Point[][], colour: string) {
+  ctx.fillStyle = colour;
+  for (const polygon of polygons) {
+    ctx.beginPath();
+    polygon.forEach((point, i) => {
+      if (i === 0) {
+        ctx.moveTo(point.x, point.y);
+      } else {
+        ctx.lineTo(point.x, point.y);
+      }
+    });
+    ctx.closePath();
+    ctx.fill();
+  }
+}
+
+// Paint edited sections dark on white, anti-aliased so sub-pixel refinement recovers the drawn edges
+function rasterizeGeometry(geometry: SectionGeometry, width: number, height: number): cv.Mat {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+
+  fillPolygons(ctx, geometry.outlines, '#000000');
+  // Erased regions and painted holes both become background; touching the outline or not decides
+  // whether they cut the boundary back or become a void
+  fillPolygons(ctx, [...geometry.holes, ...geometry.erased], '#FFFFFF');
+
+  const src = cv.matFromImageData(ctx.getImageData(0, 0, width, height));
+  const gray = new cv.Mat();
+  cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY as number);
+  src.delete();
+  return gray;
+}
+
+// With edited geometry the reference marker is still looked for in the photo's mask, away from the
+// sections
+function findReferenceOutside(
+  binary: cv.Mat,
+  sections: SectionBounds[],
+  calibration: CalibrationOptions,
+): ReferenceObject | null {
+  const contours = new cv.MatVector();
+  const hierarchy = new cv.Mat();
+  try {
+    cv.findContours(
+      binary,
+      contours,
+      hierarchy,
+      cv.RETR_EXTERNAL as number,
+      cv.CHAIN_APPROX_SIMPLE as number,
+    );
+
+    const overlaps = (a: SectionBounds, b: SectionBounds) =>
+      a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+    const candidates = Array.from({ length: contours.size() }, (_, i) => i).filter(
+      (i) => !sections.some((section) => overlaps(cv.boundingRect(contours.get(i)), section)),
+    );
+    return findReferenceObject(contours, candidates, calibration);
+  } finally {
+    contours.delete();
+    hierarchy.delete();
+  }
+}
+
+// Pair each traced section with the drawn outline its bounding box overlaps most, and the holes
+// inside that outline
+function matchGeometry(
+  geometry: SectionGeometry,
+  sectionIndices: number[],
+  bounds: Map<number, SectionBounds>,
+): Map<number, { outer: Point[]; holes: Point[][] }> {
+  const overlap = (rect: SectionBounds, polygon: Point[]) => {
+    const xs = polygon.map((point) => point.x);
+    const ys = polygon.map((point) => point.y);
+    const width = Math.min(rect.x + rect.width, Math.max(...xs)) - Math.max(rect.x, Math.min(...xs));
+    const height = Math.min(rect.y + rect.height, Math.max(...ys)) - Math.max(rect.y, Math.min(...ys));
+    return Math.max(0, width) * Math.max(0, height);
+  };
+
+  return new Map(
+    sectionIndices.map((index) => {
+      const rect = bounds.get(index)!;
+      const outer = geometry.outlines.reduce((best, outline) =>
+        overlap(rect, outline) > overlap(rect, best) ? outline : best,
+      );
+      const holes = geometry.holes.filter((hole) => pointInPolygon(hole[0]!, outer));
+      return [index, { outer, holes }];
+    }),
+  );
+}
+
+// Analyze the sections found by thresholding the image, or drawn by the user when geometry is given
+async function analyzeSections(
+  imageBuffer: Buffer,
+  resolveHeights: HeightResolver,
+  filename: string,
+  options: AnalysisOptions,
+  {
+    onProgress,
+    geometry,
+    exactGeometry = false,
+    rejectedDecay = [],
+  }: {
+    onProgress?: (stage: ProgressStage) => void;
+    geometry?: SectionGeometry;
+    exactGeometry?: boolean; // Integrate the geometry's own polygons rather than tracing them
+    rejectedDecay?: number[][]; // Per section, in reading order
+  } = {},
+): Promise<LogAnalysisResult[]> {
+  // Wait for OpenCV to be ready
+  await waitForOpenCV();
+
+  let stage: AnalysisStage = "decode";
+  // OpenCV memory is only freed by hand, so whatever was allocated is deleted once the image is done
+  // with, whether or not it could be analyzed
+  let src: cv.Mat | null = null;
+  let drawn: cv.Mat | null = null;
+  const masks = new Set<BinaryMask>();
+  let traced: { contours: cv.MatVector; hierarchy: cv.Mat } | null = null;
+  try {
+    const loaded = loadImage(imageBuffer);
+    const img = loaded.img;
+    src = loaded.src;
+
+    stage = "contour";
+
+    const propertyMethod: PropertyMethod =
+      options.propertyMethod === "auto"
+        ? img.width * img.height > LARGE_IMAGE_PIXELS ? "polygon" : "raster"
+        : options.propertyMethod;
+
+    const photoMask = binarize(src, options.preprocessing);
+    masks.add(photoMask);
+    // Decay detection needs the colours inside each section
+    const photo = options.decay.enabled ? src : null;
+    if (!photo) {
+      src.delete();
+      src = null;
+    }
+
+    // Edited geometry replaces the thresholded photo as the source of the sections
+    let sectionMask: BinaryMask = photoMask;
+    if (geometry) {
+      drawn = rasterizeGeometry(geometry, img.width, img.height);
+      sectionMask = binarize(drawn, GEOMETRY_PREPROCESSING);
+      masks.add(sectionMask);
+      drawn.delete();
+      drawn = null;
+    }
+    const { contours, hierarchy, outerIndices, sectionIndices, bounds } =
+      segmentSections(sectionMask.binary, filename, options, propertyMethod);
+    traced = { contours, hierarchy };
+
+    console.log(`Sections found in ${filename}:`, sectionIndices.length);
+    const exactPolygons =
+      geometry && exactGeometry ? matchGeometry(geometry, sectionIndices, bounds) : undefined;
+    onProgress?.("contour");
+
+    stage = "height";
+    const sectionBounds = sectionIndices.map((i) => bounds.get(i)!);
+    const heights = await resolveHeights(sectionBounds);
+    onProgress?.("height");
+
+    stage = "calibration";
+
+    // Look for a reference marker among the other outer contours when a section has no height. It
+    // is also outlined again for sections that keep the height measured from it.
+    const needsReference = heights.some((height) => !height);
+    const showsReference = heights.some((height) => height?.source === "measured");
+    const reference = !needsReference && !showsReference
+      ? null
+      : geometry
+        ? findReferenceOutside(photoMask.binary, sectionBounds, options.calibration)
+        : findReferenceObject(
+            contours,
+            outerIndices.filter((i) => !sectionIndices.includes(i)),
+            options.calibration,
+          );
+    if (needsReference && !reference) {
+      throw new Error(`No reference object matching the calibration size found in image ${filename}`);
+    }
+
+    stage = "calculation";
+    const multiSection = sectionIndices.length > 1;
+    const sections = sectionIndices.map((contourIndex, i) =>
+      analyzeSection(
+        {
+          filename: multiSection ? `${filename}#${i + 1}` : filename,
+          contours,
+          hierarchy,
+          edges: sectionMask.edges,
+          threshold: sectionMask.threshold,
+          photo,
+          propertyMethod,
+          options,
+          exactPolygons,
+        },
+        contourIndex,
+        heights[i] ?? null,
+        reference,
+        rejectedDecay[i],
+      ),
+    );
+    onProgress?.("properties");
+
+    stage = "annotation";
+    const processedImageData = drawAnnotations(
+      img,
+      contours,
+      sections.map((section) => section.annotation),
+      reference,
+    );
+    onProgress?.("annotated");
+
+    const station = parseLogStation(filename);
+    return sections.map((section, i) => ({
+      filename: multiSection ? `${filename}#${i + 1}` : filename,
+      source_filename: filename,
+      section_number: i + 1,
+      section_count: sections.length,
+      log_id: station?.logId ?? null,
+      station_mm: station?.positionMm ?? null,
+      ...section.result,
+      processed_image_data: processedImageData,
+    }));
+  } catch (error) {
+    console.error(`Error in analyzeLogSections during ${stage}:`, error);
+    throw new AnalysisError(stage, `Failed to analyze image ${filename}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    src?.delete();
+    drawn?.delete();
+    for (const mask of masks) {
+      mask.binary.delete();
+      mask.edges.delete();
+    }
+    traced?.contours.delete();
+    traced?.hierarchy.delete();
+  }
+}
+
+/**
+ * Analyze the log sections in an image: the largest contour, or in multi-section mode every contour
+ * above the area threshold. Sections without a height are scaled from a reference object instead,
+ * and their height is measured from it.
+ */
+export function analyzeLogSections(
+  imageBuffer: Buffer,
+  resolveHeights: HeightResolver,
+  filename: string,
+  options: AnalysisOptions = defaultAnalysisOptions,
+  onProgress?: (stage: ProgressStage) => void, // Called as each step of the analysis completes
+  rejectedDecay?: number[][], // Decay region ids to count as sound wood, per section
+): Promise<LogAnalysisResult[]> {
+  return analyzeSections(imageBuffer, resolveHeights, filename, options, {
+    onProgress,
+    rejectedDecay,
+  });
+}
+
+/**
+ * Analyze sections drawn or corrected by hand instead of thresholding the image. The photo is still
+ * used for the height label, the reference marker and the annotated image.
+ */
+export function analyzeSectionGeometry(
+  imageBuffer: Buffer,
+  geometry: SectionGeometry,
+  resolveHeights: HeightResolver,
+  filename: string,
+  options: AnalysisOptions = defaultAnalysisOptions,
+  rejectedDecay?: number[][], // Decay region ids to count as sound wood, per section
+): Promise<LogAnalysisResult[]> {
+  return analyzeSections(
+    imageBuffer,
+    resolveHeights,
+    filename,
+    {
+      ...options,
+      // Every drawn outline is a section and every painted hole a void
+      multiSection: geometry.outlines.length > 1,
+      minSectionAreaFraction: 0,
+      subtractVoids: true,
+      minVoidAreaMm2: 0,
+    },
+    { geometry, rejectedDecay },
+  );
+}
+
+/**
+ * Analyze sections imported as coordinates in millimetres instead of photographed. They are drawn
+ * into a preview image at a known scale, which the mask-based properties are measured from and the
+ * annotations drawn on, while the polygon properties integrate the imported outlines themselves.
+ * The preview and the outlines in its pixels are returned so the sections can be edited like any
+ * other image.
+ */
+export async function analyzeImportedGeometry(
+  imported: ImportedGeometry,
+  filename: string,
+  options: AnalysisOptions = defaultAnalysisOptions,
+): Promise<{
+  image: { data: string; filename: string };
+  width: number;
+  height: number;
+  geometry: SectionGeometry;
+  sections: LogAnalysisResult[];
+}> {
+  const points = imported.outlines.flat();
+  const minX = Math.min(...points.map((point) => point.x));
+  const maxX = Math.max(...points.map((point) => point.x));
+  const minY = Math.min(...points.map((point) => point.y));
+  const maxY = Math.max(...points.map((point) => point.y));
+  const pxPerMm = (IMPORT_SIZE_PX - 2 * IMPORT_MARGIN_PX) / Math.max(maxX - minX, maxY - minY);
+
+  // Image y points down where the imported y points up
+  const toPixels = (polygon: Point[]) =>
+    polygon.map((point) => ({
+      x: IMPORT_MARGIN_PX + (point.x - minX) * pxPerMm,
+      y: IMPORT_MARGIN_PX + (maxY - point.y) * pxPerMm,
+    }));
+  const geometry: SectionGeometry = {
+    outlines: imported.outlines.map(toPixels),
+    holes: imported.holes.map(toPixels),
+    erased: [],
+  };
+  const width = Math.ceil((maxX - minX) * pxPerMm) + 2 * IMPORT_MARGIN_PX;
+  const height = Math.ceil((maxY - minY) * pxPerMm) + 2 * IMPORT_MARGIN_PX;
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+  fillPolygons(ctx, geometry.outlines, '#DEB887'); // Burlywood
+  fillPolygons(ctx, geometry.holes, '#FFFFFF');
+
+  console.log(`Imported geometry for ${filename}:`, { width, height, pxPerMm });
+
+  // The scale is known, so each section's height is whatever gives exactly that scale
+  const resolveHeights: HeightResolver = (sections) =>
+    Promise.resolve(
+      sections.map((section) => ({
+        heightMm: section.height / pxPerMm,
+        source: "imported",
+        confidence: 1,
+      })),
+    );
+  const sections = await analyzeSections(
+    canvas.toBuffer('image/png'),
+    resolveHeights,
+    filename,
+    {
+      ...options,
+      multiSection: geometry.outlines.length > 1,
+      minSectionAreaFraction: 0,
+      subtractVoids: true,
+      minVoidAreaMm2: 0,
+      propertyMethod: "polygon",
+      // There is no wood in a drawing to find decay in
+      decay: { ...options.decay, enabled: false },
+    },
+    { geometry, exactGeometry: true },
+  );
+
+  return {
+    image: { data: canvas.toDataURL('image/png'), filename },
+    width,
+    height,
+    geometry,
+    sections,
+  };
+}
+
+/**
+ * Detect the section outlines and holes as simplified polygons in image pixels, as a starting point
+ * for editing them by hand.
+ */
+export async function detectSectionGeometry(
+  imageBuffer: Buffer,
+  filename: string,
+  options: AnalysisOptions = defaultAnalysisOptions,
+): Promise<{ width: number; height: number; geometry: SectionGeometry }> {
+  await waitForOpenCV();
+
+  const { img, src } = loadImage(imageBuffer);
+  const { binary, edges } = binarize(src, options.preprocessing);
+  src.delete();
+  edges.delete();
+
+  let segmentation: Segmentation;
+  try {
+    segmentation = segmentSections(binary, filename, options, "raster");
+  } catch (error) {
+    binary.delete();
+    throw error;
+  }
+  const { contours, hierarchy, sectionIndices } = segmentation;
+
+  try {
+    // Few enough vertices to edit, close enough to the traced boundary not to change the result
+    const simplify = (index: number) => {
+      const approx = new cv.Mat();
+      cv.approxPolyDP(contours.get(index), approx, GEOMETRY_TOLERANCE_PX, true);
+      const points = contourPoints(approx);
+      approx.delete();
+      return points;
+    };
+
+    const outlines = sectionIndices.map(simplify);
+    const holes = options.subtractVoids
+      ? sectionIndices
+          .flatMap((index) => childContours(hierarchy, index))
+          .map(simplify)
+          .filter((points) => points.length >= 3)
+      : [];
+
+    return { width: img.width, height: img.height, geometry: { outlines, holes, erased: [] } };
+  } finally {
+    binary.delete();
+    contours.delete();
+    hierarchy.delete();
+  }
+}
+
+/**
+ * Render the binary mask the current preprocessing options produce, with the contours that would be
+ * analyzed as sections outlined, so the settings can be tuned before running a batch.
+ */
+export async function previewSectionMask(
+  imageBuffer: Buffer,
+  filename: string,
+  options: AnalysisOptions = defaultAnalysisOptions,
+): Promise<{ maskData: string; threshold: number; foreground: "dark" | "light"; sectionCount: number }> {
+  await waitForOpenCV();
+
+  const { img, src } = loadImage(imageBuffer);
+  const { binary, edges, threshold, foreground } = binarize(src, options.preprocessing);
+  src.delete();
+  edges.delete();
+
+  try {
+    // Draw mask
+    const rgba = new cv.Mat();
+    cv.cvtColor(binary, rgba, cv.COLOR_GRAY2RGBA as number);
+    const canvas = createCanvas(img.width, img.height);
+    const ctx = canvas.getContext('2d');
+    const imageData = ctx.createImageData(img.width, img.height);
+    imageData.data.set(rgba.data);
+    ctx.putImageData(imageData, 0, 0);
+    rgba.delete();
+
+    // An empty mask is worth previewing too, so a failed segmentation only means no sections
+    let sectionCount = 0;
+    try {
+      const { contours, hierarchy, sectionIndices } = segmentSections(binary, filename, options, "raster");
+      ctx.strokeStyle = '#00FF00'; // Lime
+      ctx.lineWidth = Math.max(2, Math.round(Math.max(img.width, img.height) / 400));
+      for (const index of sectionIndices) {
+        ctx.beginPath();
+        traceContour(ctx, contours.get(index));
+        ctx.stroke();
+      }
+      sectionCount = sectionIndices.length;
+      contours.delete();
+      hierarchy.delete();
+    } catch (error) {
+      console.log(`No sections in mask preview for ${filename}:`, error instanceof Error ? error.message : error);
+    }
+
+    return { maskData: canvas.toDataURL('image/png'), threshold, foreground, sectionCount };
+  } finally {
+    binary.delete();
+  }
+}
@@ -0,0 +1,26 @@
+import cv from "@techstark/opencv-js";
+
+// Initialize OpenCV
+let opencvReady = false;
+cv.onRuntimeInitialized = () => {
+  opencvReady = true;
+  console.log("OpenCV.js is ready");
+};
+
+// Wait for OpenCV to be ready
+export const waitForOpenCV = () => {
+  return new Promise<void>((resolve) => {
+    if (opencvReady) {
+      resolve();
+    } else {
+      const checkInterval = setInterval(() => {
+        if (opencvReady) {
+          clearInterval(checkInterval);
+          resolve();
+        }
+      }, 100);
+    }
+  });
+};
+
+export { cv };
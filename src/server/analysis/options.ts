@@ -0,0 +1,95 @@
+import { z } from "zod";
+
+// Analysis settings, kept apart from OpenCV and canvas so the browser can import their defaults
+
+export const heightExtractorSchema = z.enum(["auto", "openai", "tesseract"]);
+
+export type HeightExtractorChoice = z.infer<typeof heightExtractorSchema>;
+
+export const calibrationSchema = z.object({
+  // "height" scales the silhouette to the height label, "reference" uses a marker of known size
+  mode: z.enum(["height", "reference"]).default("height"),
+  referenceLengthMm: z.number().positive().default(50), // Long side of the marker
+  referenceWidthMm: z.number().positive().optional(), // Short side; defaults to a square marker
+});
+
+export type CalibrationOptions = z.infer<typeof calibrationSchema>;
+export type CalibrationSource = CalibrationOptions["mode"];
+
+export const preprocessingSchema = z.object({
+  // Channel a colour photo is reduced to; "auto" picks whichever of the two separates best
+  conversion: z.enum(["luminance", "saturation", "auto"]).default("luminance"),
+  blur: z.enum(["none", "gaussian", "median"]).default("none"),
+  blurKernelSize: z.number().int().min(1).default(5), // Rounded up to an odd size
+  // "otsu" picks one global threshold, "adaptive" compares each pixel to its neighbourhood mean
+  thresholdMode: z.enum(["otsu", "adaptive", "manual"]).default("otsu"),
+  thresholdValue: z.number().int().min(0).max(255).default(128), // Used in manual mode
+  adaptiveBlockSize: z.number().int().min(3).default(51), // Neighbourhood width in pixels, odd
+  adaptiveOffset: z.number().default(5), // Subtracted from the neighbourhood mean
+  // Whether sections are darker or lighter than the background; "auto" looks at the image border
+  foreground: z.enum(["auto", "dark", "light"]).default("auto"),
+  // "open" removes specks, "close" fills cracks and gaps in the section
+  morphology: z.enum(["none", "open", "close", "open-close"]).default("none"),
+  morphologyKernelSize: z.number().int().min(1).default(3),
+});
+
+export type PreprocessingOptions = z.infer<typeof preprocessingSchema>;
+
+export const decaySchema = z.object({
+  // Look for discoloured or rough wood inside each section and report the sound wood separately
+  enabled: z.boolean().default(false),
+  clusters: z.number().int().min(2).max(8).default(4), // Colour and texture groups to split a section into
+  minColourDifference: z.number().positive().default(15), // CIE76 ΔE from the sound wood
+  minTextureRatio: z.number().positive().default(2), // Local roughness relative to the sound wood
+  minRegionAreaMm2: z.number().nonnegative().default(100),
+});
+
+export type DecayOptions = z.infer<typeof decaySchema>;
+
+export const sawingSchema = z.object({
+  // Find the timber that can be milled from each section
+  enabled: z.boolean().default(false),
+  aspectRatio: z.number().positive().default(2), // Depth over width of the fixed-ratio cut
+  rotationStepDeg: z.number().min(0).max(90).default(0), // 0 keeps cuts square to the image
+  // Standard sizes to try, largest fitting one reported
+  nominalSizes: z
+    .array(z.object({ widthMm: z.number().positive(), depthMm: z.number().positive() }))
+    .default([]),
+});
+
+export type SawingOptions = z.infer<typeof sawingSchema>;
+
+export const torsionSchema = z.object({
+  // Solve for the St. Venant torsion constant and shear centre of each section
+  enabled: z.boolean().default(false),
+  gridCells: z.number().int().min(20).max(600).default(200), // Cells along the longer side of the section
+  stressImage: z.boolean().default(false), // Render the torsional shear stress with stress function contours
+});
+
+export type TorsionOptions = z.infer<typeof torsionSchema>;
+
+export const analysisOptionsSchema = z.object({
+  // Read the contour hierarchy and subtract interior voids instead of filling them as wood
+  subtractVoids: z.boolean().default(false),
+  minVoidAreaMm2: z.number().nonnegative().default(25),
+  // Preferred height extractor; the others are tried in turn if it fails
+  heightExtractor: heightExtractorSchema.default("auto"),
+  calibration: calibrationSchema.default({}),
+  // "raster" counts mask pixels, "polygon" integrates the contour; "auto" picks polygon for large images
+  propertyMethod: z.enum(["auto", "raster", "polygon"]).default("auto"),
+  subpixel: z.boolean().default(true), // Refine polygon vertices to the threshold crossing
+  smoothingRadius: z.number().int().nonnegative().default(0), // Moving average half-width in vertices
+  // Analyze every contour at least this fraction of the largest one, instead of only the largest
+  multiSection: z.boolean().default(false),
+  minSectionAreaFraction: z.number().min(0).max(1).default(0.1),
+  // How the photo is turned into the binary mask the sections are traced from
+  preprocessing: preprocessingSchema.default({}),
+  decay: decaySchema.default({}),
+  sawing: sawingSchema.default({}),
+  torsion: torsionSchema.default({}),
+});
+
+export type AnalysisOptions = z.infer<typeof analysisOptionsSchema>;
+
+/** The settings an analysis runs with when none are chosen. */
+export const defaultAnalysisOptions: AnalysisOptions = analysisOptionsSchema.parse({});
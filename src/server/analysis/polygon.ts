@@ -0,0 +1,290 @@
+import { type cv } from "~/server/analysis/opencv";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Area integrals of a region about the image origin, in pixel units with y pointing down. */
+export interface AreaMoments {
+  area: number;
+  sx: number; // ∫x dA
+  sy: number; // ∫y dA
+  sxx: number; // ∫x² dA
+  syy: number; // ∫y² dA
+  sxy: number; // ∫xy dA
+}
+
+/** Area, centroid and centroidal second moments, in pixel units. Ixy is reported with y up. */
+export interface SectionProperties {
+  area: number;
+  cx: number;
+  cy: number;
+  Ixx: number;
+  Iyy: number;
+  Ixy: number;
+}
+
+// Read the (x, y) pairs out of an OpenCV contour
+export function contourPoints(contour: cv.Mat): Point[] {
+  const points: Point[] = [];
+  for (let i = 0; i < contour.data32S.length; i += 2) {
+    const x = contour.data32S[i];
+    const y = contour.data32S[i + 1];
+    if (x !== undefined && y !== undefined) {
+      points.push({ x, y });
+    }
+  }
+  return points;
+}
+
+/**
+ * Integrate over the polygon with Green's theorem. The result is positive regardless of the
+ * winding direction, so holes are removed with subtractMoments.
+ */
+export function polygonMoments(points: Point[]): AreaMoments {
+  const moments: AreaMoments = { area: 0, sx: 0, sy: 0, sxx: 0, syy: 0, sxy: 0 };
+
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i]!;
+    const q = points[(i + 1) % points.length]!;
+    const cross = p.x * q.y - q.x * p.y;
+    moments.area += cross / 2;
+    moments.sx += ((p.x + q.x) * cross) / 6;
+    moments.sy += ((p.y + q.y) * cross) / 6;
+    moments.sxx += ((p.x * p.x + p.x * q.x + q.x * q.x) * cross) / 12;
+    moments.syy += ((p.y * p.y + p.y * q.y + q.y * q.y) * cross) / 12;
+    moments.sxy += ((p.x * q.y + 2 * p.x * p.y + 2 * q.x * q.y + q.x * p.y) * cross) / 24;
+  }
+
+  // Clockwise polygons integrate to negative values
+  const sign = Math.sign(moments.area) || 1;
+  return {
+    area: moments.area * sign,
+    sx: moments.sx * sign,
+    sy: moments.sy * sign,
+    sxx: moments.sxx * sign,
+    syy: moments.syy * sign,
+    sxy: moments.sxy * sign,
+  };
+}
+
+export function subtractMoments(outer: AreaMoments, hole: AreaMoments): AreaMoments {
+  return {
+    area: outer.area - hole.area,
+    sx: outer.sx - hole.sx,
+    sy: outer.sy - hole.sy,
+    sxx: outer.sxx - hole.sxx,
+    syy: outer.syy - hole.syy,
+    sxy: outer.sxy - hole.sxy,
+  };
+}
+
+/**
+ * Area of the polygon in each unit strip of y, strip i spanning i - 0.5 to i + 0.5: the exact
+ * counterpart of counting a mask's pixels per row. Integrates x dy along the edges within each
+ * strip, so the result is positive regardless of the winding direction like polygonMoments.
+ */
+export function stripAreas(points: Point[], strips: number): number[] {
+  const areas = new Array<number>(strips).fill(0);
+
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i]!;
+    const q = points[(i + 1) % points.length]!;
+    if (p.y === q.y) continue;
+
+    const [low, high] = p.y < q.y ? [p, q] : [q, p];
+    const sign = p.y < q.y ? 1 : -1;
+    const slope = (high.x - low.x) / (high.y - low.y);
+    const first = Math.max(0, Math.floor(low.y + 0.5));
+    const last = Math.min(strips - 1, Math.floor(high.y + 0.5));
+    for (let strip = first; strip <= last; strip++) {
+      const a = Math.max(low.y, strip - 0.5);
+      const b = Math.min(high.y, strip + 0.5);
+      if (b <= a) continue;
+      const xa = low.x + (a - low.y) * slope;
+      const xb = low.x + (b - low.y) * slope;
+      areas[strip]! += (sign * (xa + xb) * (b - a)) / 2;
+    }
+  }
+
+  const total = areas.reduce((sum, area) => sum + area, 0);
+  return total < 0 ? areas.map((area) => -area) : areas;
+}
+
+// Move the origin integrals to the centroid with the parallel axis theorem
+export function centroidalProperties(moments: AreaMoments): SectionProperties {
+  const cx = moments.sx / moments.area;
+  const cy = moments.sy / moments.area;
+  return {
+    area: moments.area,
+    cx,
+    cy,
+    Ixx: moments.syy - moments.area * cy * cy,
+    Iyy: moments.sxx - moments.area * cx * cx,
+    // Image rows grow downwards, so flip the sign to report Ixy with y pointing up
+    Ixy: -(moments.sxy - moments.area * cx * cy),
+  };
+}
+
+// The inverse of centroidalProperties, to combine centroidal results with other regions
+export function originMoments(properties: SectionProperties): AreaMoments {
+  const { area, cx, cy } = properties;
+  return {
+    area,
+    sx: area * cx,
+    sy: area * cy,
+    sxx: properties.Iyy + area * cx * cx,
+    syy: properties.Ixx + area * cy * cy,
+    sxy: -properties.Ixy + area * cx * cy,
+  };
+}
+
+// Bilinear sample of a single channel 8-bit image
+function sampleGray(gray: cv.Mat, x: number, y: number): number {
+  const x0 = Math.min(Math.max(Math.floor(x), 0), gray.cols - 2);
+  const y0 = Math.min(Math.max(Math.floor(y), 0), gray.rows - 2);
+  const fx = Math.min(Math.max(x - x0, 0), 1);
+  const fy = Math.min(Math.max(y - y0, 0), 1);
+  const data = gray.data;
+  const at = (col: number, row: number) => data[row * gray.cols + col] ?? 0;
+  return (
+    at(x0, y0) * (1 - fx) * (1 - fy) +
+    at(x0 + 1, y0) * fx * (1 - fy) +
+    at(x0, y0 + 1) * (1 - fx) * fy +
+    at(x0 + 1, y0 + 1) * fx * fy
+  );
+}
+
+const SUBPIXEL_SEARCH_PX = 2;
+const SUBPIXEL_STEP_PX = 0.25;
+
+/**
+ * Move each contour vertex along its normal to where the interpolated grey level crosses the
+ * threshold. Contour vertices sit on boundary pixel centres, so this recovers the true edge
+ * instead of a boundary half a pixel inside the section.
+ */
+export function refineSubpixel(points: Point[], gray: cv.Mat, threshold: number): Point[] {
+  return points.map((point, i) => {
+    const prev = points[(i - 1 + points.length) % points.length]!;
+    const next = points[(i + 1) % points.length]!;
+    const tx = next.x - prev.x;
+    const ty = next.y - prev.y;
+    const length = Math.hypot(tx, ty);
+    if (length === 0) return point;
+    const nx = -ty / length;
+    const ny = tx / length;
+
+    // Find the threshold crossing nearest to the original vertex
+    let bestOffset: number | null = null;
+    let previousOffset = -SUBPIXEL_SEARCH_PX;
+    let previousValue =
+      sampleGray(gray, point.x + nx * previousOffset, point.y + ny * previousOffset) - threshold;
+    for (
+      let offset = -SUBPIXEL_SEARCH_PX + SUBPIXEL_STEP_PX;
+      offset <= SUBPIXEL_SEARCH_PX + 1e-9;
+      offset += SUBPIXEL_STEP_PX
+    ) {
+      const value = sampleGray(gray, point.x + nx * offset, point.y + ny * offset) - threshold;
+      if (previousValue === 0 || Math.sign(value) !== Math.sign(previousValue)) {
+        const crossing =
+          previousValue === value
+            ? previousOffset
+            : previousOffset + (SUBPIXEL_STEP_PX * previousValue) / (previousValue - value);
+        if (bestOffset === null || Math.abs(crossing) < Math.abs(bestOffset)) {
+          bestOffset = crossing;
+        }
+      }
+      previousOffset = offset;
+      previousValue = value;
+    }
+
+    if (bestOffset === null) return point;
+    return { x: point.x + nx * bestOffset, y: point.y + ny * bestOffset };
+  });
+}
+
+// Circular moving average over 2 * radius + 1 vertices
+export function smoothContour(points: Point[], radius: number): Point[] {
+  if (radius <= 0 || points.length <= 2 * radius) return points;
+
+  return points.map((_, i) => {
+    let x = 0;
+    let y = 0;
+    for (let k = -radius; k <= radius; k++) {
+      const neighbour = points[(i + k + points.length) % points.length]!;
+      x += neighbour.x;
+      y += neighbour.y;
+    }
+    return { x: x / (2 * radius + 1), y: y / (2 * radius + 1) };
+  });
+}
+
+/**
+ * Douglas–Peucker simplification of a closed polygon: drops vertices that lie within the tolerance
+ * of the line between the vertices kept either side of them.
+ */
+export function simplifyPolygon(points: Point[], tolerance: number): Point[] {
+  if (points.length <= 3) return points;
+
+  // Split the ring at the vertex furthest from the first, then simplify both chains
+  const first = points[0]!;
+  let splitIndex = 0;
+  let splitDistance = -1;
+  points.forEach((point, i) => {
+    const distance = Math.hypot(point.x - first.x, point.y - first.y);
+    if (distance > splitDistance) {
+      splitDistance = distance;
+      splitIndex = i;
+    }
+  });
+
+  const keep = new Array<boolean>(points.length + 1).fill(false);
+  keep[0] = true;
+  keep[splitIndex] = true;
+  keep[points.length] = true;
+  const at = (i: number) => points[i % points.length]!;
+
+  const stack: [number, number][] = [
+    [0, splitIndex],
+    [splitIndex, points.length],
+  ];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    const a = at(start);
+    const b = at(end);
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    let furthest = -1;
+    let furthestDistance = tolerance;
+    for (let i = start + 1; i < end; i++) {
+      const p = at(i);
+      const distance =
+        length > 0
+          ? Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / length
+          : Math.hypot(p.x - a.x, p.y - a.y);
+      if (distance > furthestDistance) {
+        furthestDistance = distance;
+        furthest = i;
+      }
+    }
+    if (furthest >= 0) {
+      keep[furthest] = true;
+      stack.push([start, furthest], [furthest, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+// Even-odd ray casting; points on the boundary may fall either way
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]!;
+    const b = polygon[j]!;
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
@@ -0,0 +1,186 @@
+import { cv } from "~/server/analysis/opencv";
+import { type PreprocessingOptions } from "~/server/analysis/options";
+
+// Sections as white pixels on black, ready for contour tracing
+export interface BinaryMask {
+  binary: cv.Mat;
+  // Grey image whose level crosses `threshold` at the section edges, for sub-pixel refinement
+  edges: cv.Mat;
+  threshold: number;
+  foreground: "dark" | "light";
+}
+
+const oddSize = (size: number) => Math.max(1, Math.round(size)) | 1;
+
+// Otsu's between-class variance over the total variance: 1 for a perfectly two-toned channel
+function otsuSeparability(channel: cv.Mat): number {
+  const histogram = new Array<number>(256).fill(0);
+  const data = channel.data;
+  for (const value of data) histogram[value]!++;
+
+  const total = data.length;
+  let sum = 0;
+  let sumSquares = 0;
+  histogram.forEach((count, value) => {
+    sum += count * value;
+    sumSquares += count * value * value;
+  });
+  const mean = sum / total;
+  const variance = sumSquares / total - mean * mean;
+  if (variance <= 0) return 0;
+
+  let best = 0;
+  let weightBelow = 0;
+  let sumBelow = 0;
+  for (let value = 0; value < 255; value++) {
+    weightBelow += histogram[value]!;
+    sumBelow += histogram[value]! * value;
+    const weightAbove = total - weightBelow;
+    if (weightBelow === 0 || weightAbove === 0) continue;
+
+    const meanBelow = sumBelow / weightBelow;
+    const meanAbove = (sum - sumBelow) / weightAbove;
+    const betweenClass = (weightBelow * weightAbove * (meanBelow - meanAbove) ** 2) / (total * total);
+    best = Math.max(best, betweenClass);
+  }
+  return best / variance;
+}
+
+// Reduce an RGBA image to the channel the threshold is applied to; grey images pass through
+function toChannel(src: cv.Mat, conversion: PreprocessingOptions["conversion"]): cv.Mat {
+  const channel = new cv.Mat();
+  if (src.channels() === 1) {
+    src.copyTo(channel);
+    return channel;
+  }
+
+  if (conversion !== "saturation") {
+    cv.cvtColor(src, channel, cv.COLOR_RGBA2GRAY as number);
+    if (conversion === "luminance") return channel;
+  }
+
+  // Bark and wood usually stand out from a white or grey background by colour as much as brightness
+  const rgb = new cv.Mat();
+  const hsv = new cv.Mat();
+  const planes = new cv.MatVector();
+  cv.cvtColor(src, rgb, cv.COLOR_RGBA2RGB as number);
+  cv.cvtColor(rgb, hsv, cv.COLOR_RGB2HSV as number);
+  cv.split(hsv, planes);
+  const saturation = planes.get(1);
+  rgb.delete();
+  hsv.delete();
+  planes.delete();
+
+  if (conversion === "saturation") {
+    channel.delete();
+    return saturation;
+  }
+
+  const useSaturation = otsuSeparability(saturation) > otsuSeparability(channel);
+  console.log(`Auto conversion picked ${useSaturation ? "saturation" : "luminance"}`);
+  if (useSaturation) {
+    channel.delete();
+    return saturation;
+  }
+  saturation.delete();
+  return channel;
+}
+
+// The background fills most of the image border, so whichever level dominates it is not the section
+function detectForeground(binary: cv.Mat): "dark" | "light" {
+  const data = binary.data;
+  let bright = 0;
+  let count = 0;
+  const sample = (row: number, col: number) => {
+    if (data[row * binary.cols + col]! > 0) bright++;
+    count++;
+  };
+  for (let col = 0; col < binary.cols; col++) {
+    sample(0, col);
+    sample(binary.rows - 1, col);
+  }
+  for (let row = 1; row < binary.rows - 1; row++) {
+    sample(row, 0);
+    sample(row, binary.cols - 1);
+  }
+  return bright >= count / 2 ? "dark" : "light";
+}
+
+// Otsu's threshold can sit on the darker class itself, 0 for a black and white image, where no
+// edge crosses it. The grey level halfway between the two classes' means marks the edges instead.
+function classMidpoint(channel: cv.Mat, binary: cv.Mat): number {
+  const below = new cv.Mat();
+  cv.bitwise_not(binary, below);
+  const aboveMean = cv.mean(channel, binary)[0] ?? 0;
+  const belowMean = cv.mean(channel, below)[0] ?? 0;
+  below.delete();
+  return (aboveMean + belowMean) / 2;
+}
+
+/**
+ * Turn a photo or drawing into a binary mask with the sections white: convert to one channel, blur,
+ * threshold, make sure the sections are the foreground and clean up the mask. The caller deletes the
+ * returned Mats.
+ */
+export function binarize(src: cv.Mat, options: PreprocessingOptions): BinaryMask {
+  const channel = toChannel(src, options.conversion);
+
+  // Blur
+  const blurSize = oddSize(options.blurKernelSize);
+  if (options.blur === "gaussian" && blurSize > 1) {
+    cv.GaussianBlur(channel, channel, new cv.Size(blurSize, blurSize), 0, 0, cv.BORDER_DEFAULT as number);
+  } else if (options.blur === "median" && blurSize > 1) {
+    cv.medianBlur(channel, channel, blurSize);
+  }
+
+  // Threshold the image
+  const binary = new cv.Mat();
+  let threshold: number;
+  if (options.thresholdMode === "adaptive") {
+    cv.adaptiveThreshold(
+      channel,
+      binary,
+      255,
+      cv.ADAPTIVE_THRESH_GAUSSIAN_C as number,
+      cv.THRESH_BINARY as number,
+      Math.max(3, oddSize(options.adaptiveBlockSize)),
+      options.adaptiveOffset,
+    );
+    threshold = 127;
+  } else if (options.thresholdMode === "manual") {
+    threshold = cv.threshold(channel, binary, options.thresholdValue, 255, cv.THRESH_BINARY as number);
+  } else {
+    cv.threshold(channel, binary, 0, 255, (cv.THRESH_BINARY + cv.THRESH_OTSU) as number);
+    threshold = classMidpoint(channel, binary);
+  }
+
+  // Sections must end up white on black
+  const foreground = options.foreground === "auto" ? detectForeground(binary) : options.foreground;
+  if (foreground === "dark") cv.bitwise_not(binary, binary);
+
+  // Open and close the mask
+  const morphologySize = Math.max(1, Math.round(options.morphologyKernelSize));
+  if (options.morphology !== "none" && morphologySize > 1) {
+    const kernel = cv.getStructuringElement(
+      cv.MORPH_ELLIPSE as number,
+      new cv.Size(morphologySize, morphologySize),
+    );
+    if (options.morphology === "open" || options.morphology === "open-close") {
+      cv.morphologyEx(binary, binary, cv.MORPH_OPEN as number, kernel);
+    }
+    if (options.morphology === "close" || options.morphology === "open-close") {
+      cv.morphologyEx(binary, binary, cv.MORPH_CLOSE as number, kernel);
+    }
+    kernel.delete();
+  }
+
+  // The grey level only marks the mask edges for a global threshold on an unaltered mask; otherwise
+  // refine against the softened mask itself
+  if (options.thresholdMode !== "adaptive" && options.morphology === "none") {
+    return { binary, edges: channel, threshold, foreground };
+  }
+  channel.delete();
+  const edges = new cv.Mat();
+  cv.GaussianBlur(binary, edges, new cv.Size(3, 3), 0, 0, cv.BORDER_DEFAULT as number);
+  return { binary, edges, threshold: 127, foreground };
+}
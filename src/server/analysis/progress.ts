@@ -0,0 +1,84 @@
+import { EventEmitter, on } from "events";
+
+// Steps reported for each image as it moves through the analysis
+export type ProgressStage =
+  | "received"
+  | "contour"
+  | "height"
+  | "properties"
+  | "annotated"
+  | "failed";
+
+export interface ProgressEvent {
+  seq: number; // Position of the event within its run, starting at 1
+  imageIndex: number;
+  filename: string;
+  stage: ProgressStage;
+  message?: string; // Why the image failed
+}
+
+// Runs are forgotten this long after their last event
+const RUN_TTL_MS = 10 * 60 * 1000;
+
+interface ProgressRun {
+  events: ProgressEvent[];
+  expiry?: NodeJS.Timeout;
+}
+
+// Shared through globalThis because background jobs can be started from the instrumentation hook,
+// which Next.js bundles separately from the API routes
+const globalForProgress = globalThis as unknown as {
+  progressEmitter: EventEmitter | undefined;
+  progressRuns: Map<string, ProgressRun> | undefined;
+};
+
+const emitter = (globalForProgress.progressEmitter ??= new EventEmitter().setMaxListeners(0));
+
+// Events are kept per run so a subscriber that connects late, or reconnects, can catch up
+const runs = (globalForProgress.progressRuns ??= new Map<string, ProgressRun>());
+
+export function emitProgress(runId: string, event: Omit<ProgressEvent, "seq">) {
+  const run = runs.get(runId) ?? { events: [] };
+  clearTimeout(run.expiry);
+
+  const progressEvent = { ...event, seq: run.events.length + 1 };
+  run.events.push(progressEvent);
+  run.expiry = setTimeout(() => runs.delete(runId), RUN_TTL_MS).unref();
+  runs.set(runId, run);
+
+  emitter.emit(runId, progressEvent);
+}
+
+/**
+ * Yield the events of a run after the given sequence number: first those already emitted, then new
+ * ones as they happen, until the signal aborts.
+ */
+export async function* watchProgress(
+  runId: string,
+  afterSeq: number,
+  signal?: AbortSignal,
+): AsyncGenerator<ProgressEvent> {
+  // Listen before replaying so nothing emitted in between is missed
+  const live = on(emitter, runId, { signal });
+
+  let lastSeq = afterSeq;
+  for (const event of runs.get(runId)?.events ?? []) {
+    if (event.seq > lastSeq) {
+      lastSeq = event.seq;
+      yield event;
+    }
+  }
+
+  try {
+    for await (const [event] of live as AsyncIterableIterator<[ProgressEvent]>) {
+      if (event.seq > lastSeq) {
+        lastSeq = event.seq;
+        yield event;
+      }
+    }
+  } catch (error) {
+    // The subscriber went away
+    if (signal?.aborted) return;
+    throw error;
+  }
+}
@@ -0,0 +1,317 @@
+import { cv } from "~/server/analysis/opencv";
+import { type SawingOptions } from "~/server/analysis/options";
+import { type Point } from "~/server/analysis/polygon";
+
+export interface SawnRectangle {
+  label: string; // Nominal size as width x depth, or the kind of cut
+  width_mm: number;
+  depth_mm: number; // Measured along the cut's own vertical axis
+  area_mm2: number;
+  section_modulus_mm3: number; // width * depth² / 6, bending about the cut's horizontal axis
+  recovery_percent: number; // Share of the gross section
+  centre_x_mm: number; // Same origin as the centroid
+  centre_y_mm: number;
+  angle_deg: number; // Rotation of the cut, counter-clockwise from the image x-axis
+  corners: Point[]; // In image pixels, for drawing the cut
+}
+
+export interface SawingResult {
+  aspect_cut: SawnRectangle | null; // Largest cut at the chosen aspect ratio
+  max_modulus_cut: SawnRectangle | null; // Inscribed rectangle with the highest section modulus
+  nominal_cut: SawnRectangle | null; // Largest supplied nominal size that fits
+  fitting_nominal_sizes: string[];
+}
+
+// Longest side of the grid the rectangles are searched on
+const MAX_GRID_PX = 600;
+// Cells count as wood only when (almost) entirely inside the section, so every cut really fits
+const MIN_WOOD_LEVEL = 250;
+
+// The section rotated and downsampled, with 1 for wood
+interface Grid {
+  wood: Uint8Array;
+  cols: number;
+  rows: number;
+  blockedBefore: Int32Array; // 2D prefix sums of non-wood cells, (rows + 1) x (cols + 1)
+  cellPx: number; // Image pixels per cell side
+  angleDeg: number;
+  toImage: (x: number, y: number) => Point;
+}
+
+interface CellRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+function buildGrid(
+  section: cv.Mat,
+  bounds: { x: number; y: number; width: number; height: number },
+  angleDeg: number,
+): Grid {
+  const gridScale = Math.min(1, MAX_GRID_PX / Math.max(bounds.width, bounds.height));
+
+  // Downsample by averaging so partly covered cells drop below the wood level
+  const view = section.roi(new cv.Rect(bounds.x, bounds.y, bounds.width, bounds.height));
+  const scaled = new cv.Mat();
+  cv.resize(
+    view,
+    scaled,
+    new cv.Size(
+      Math.max(1, Math.round(bounds.width * gridScale)),
+      Math.max(1, Math.round(bounds.height * gridScale)),
+    ),
+    0,
+    0,
+    cv.INTER_AREA as number,
+  );
+  view.delete();
+
+  // Rotate about the centre onto a canvas big enough for the whole section
+  const theta = (angleDeg * Math.PI) / 180;
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  const cols = Math.ceil(Math.abs(scaled.cols * cos) + Math.abs(scaled.rows * sin));
+  const rows = Math.ceil(Math.abs(scaled.cols * sin) + Math.abs(scaled.rows * cos));
+  const centreX = scaled.cols / 2;
+  const centreY = scaled.rows / 2;
+  const rotation = cv.matFromArray(2, 3, cv.CV_64F as number, [
+    cos,
+    sin,
+    cols / 2 - cos * centreX - sin * centreY,
+    -sin,
+    cos,
+    rows / 2 + sin * centreX - cos * centreY,
+  ]);
+  const rotated = new cv.Mat();
+  cv.warpAffine(
+    scaled,
+    rotated,
+    rotation,
+    new cv.Size(cols, rows),
+    cv.INTER_LINEAR as number,
+    cv.BORDER_CONSTANT as number,
+    new cv.Scalar(0),
+  );
+  rotation.delete();
+  scaled.delete();
+
+  const wood = new Uint8Array(cols * rows);
+  const blockedBefore = new Int32Array((rows + 1) * (cols + 1));
+  const levels = rotated.data;
+  for (let row = 0; row < rows; row++) {
+    let blockedInRow = 0;
+    for (let col = 0; col < cols; col++) {
+      const isWood = levels[row * cols + col]! >= MIN_WOOD_LEVEL;
+      wood[row * cols + col] = isWood ? 1 : 0;
+      if (!isWood) blockedInRow++;
+      blockedBefore[(row + 1) * (cols + 1) + col + 1] =
+        blockedBefore[row * (cols + 1) + col + 1]! + blockedInRow;
+    }
+  }
+  rotated.delete();
+
+  return {
+    wood,
+    cols,
+    rows,
+    blockedBefore,
+    cellPx: 1 / gridScale,
+    angleDeg,
+    // Undo the rotation and scaling
+    toImage: (x, y) => {
+      const dx = x - cols / 2;
+      const dy = y - rows / 2;
+      return {
+        x: (cos * dx - sin * dy + centreX) / gridScale + bounds.x,
+        y: (sin * dx + cos * dy + centreY) / gridScale + bounds.y,
+      };
+    },
+  };
+}
+
+const isClear = (grid: Grid, left: number, top: number, width: number, height: number) => {
+  const stride = grid.cols + 1;
+  const at = (row: number, col: number) => grid.blockedBefore[row * stride + col]!;
+  return (
+    at(top + height, left + width) - at(top, left + width) - at(top + height, left) + at(top, left) ===
+    0
+  );
+};
+
+// The clear placement of a width x height cut nearest the middle of the section, if there is one
+function placeCut(grid: Grid, width: number, height: number): CellRect | null {
+  if (width < 1 || height < 1 || width > grid.cols || height > grid.rows) return null;
+
+  let best: CellRect | null = null;
+  let bestDistance = Infinity;
+  for (let top = 0; top + height <= grid.rows; top++) {
+    for (let left = 0; left + width <= grid.cols; left++) {
+      if (!isClear(grid, left, top, width, height)) continue;
+      const distance = Math.hypot(
+        left + width / 2 - grid.cols / 2,
+        top + height / 2 - grid.rows / 2,
+      );
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = { left, top, width, height };
+      }
+    }
+  }
+  return best;
+}
+
+// Largest cut with depth = aspectRatio * width; whether one fits only gets harder as it grows
+function largestAspectCut(grid: Grid, aspectRatio: number): CellRect | null {
+  let low = 0;
+  let high = grid.cols;
+  let best: CellRect | null = null;
+  while (low < high) {
+    const width = Math.ceil((low + high + 1) / 2);
+    const cut = placeCut(grid, width, Math.round(width * aspectRatio));
+    if (cut) {
+      best = cut;
+      low = width;
+    } else {
+      high = width - 1;
+    }
+  }
+  return best;
+}
+
+/**
+ * Every maximal clear rectangle appears when a bar is popped off the histogram stack, so the
+ * widest rectangle of each height is tried and the one with the highest width * height² kept.
+ */
+function maxModulusCut(grid: Grid): CellRect | null {
+  const heights = new Array<number>(grid.cols).fill(0);
+  let best: CellRect | null = null;
+  let bestModulus = 0;
+
+  for (let row = 0; row < grid.rows; row++) {
+    for (let col = 0; col < grid.cols; col++) {
+      heights[col] = grid.wood[row * grid.cols + col] ? heights[col]! + 1 : 0;
+    }
+
+    const stack: number[] = [];
+    for (let col = 0; col <= grid.cols; col++) {
+      const height = col < grid.cols ? heights[col]! : 0;
+      while (stack.length > 0 && heights[stack[stack.length - 1]!]! >= height) {
+        const barHeight = heights[stack.pop()!]!;
+        const left = stack.length > 0 ? stack[stack.length - 1]! + 1 : 0;
+        const width = col - left;
+        const modulus = width * barHeight * barHeight;
+        if (barHeight > 0 && modulus > bestModulus) {
+          bestModulus = modulus;
+          best = { left, top: row - barHeight + 1, width, height: barHeight };
+        }
+      }
+      stack.push(col);
+    }
+  }
+  return best;
+}
+
+/**
+ * Search the section mask for the sawn sections that fit inside it: the largest cut at the chosen
+ * aspect ratio, the rectangle with the highest section modulus and the largest supplied nominal
+ * size. With a rotation step the cuts may also be turned relative to the image.
+ */
+export function analyzeSawingYield(
+  section: cv.Mat, // Net section mask, 255 inside
+  bounds: { x: number; y: number; width: number; height: number },
+  scale: number, // mm per pixel
+  grossAreaMm2: number,
+  options: SawingOptions,
+): SawingResult {
+  const angles = [0];
+  if (options.rotationStepDeg > 0) {
+    for (let angle = options.rotationStepDeg; angle <= 90; angle += options.rotationStepDeg) {
+      angles.push(angle);
+      if (angle < 90) angles.push(-angle);
+    }
+  }
+
+  const nominalLabel = (size: SawingOptions["nominalSizes"][number]) =>
+    `${size.widthMm}x${size.depthMm}`;
+
+  const toRectangle = (
+    grid: Grid,
+    cut: CellRect,
+    label: string,
+    dimensions?: { widthMm: number; depthMm: number },
+  ): SawnRectangle => {
+    const cellMm = grid.cellPx * scale;
+    const widthMm = dimensions?.widthMm ?? cut.width * cellMm;
+    const depthMm = dimensions?.depthMm ?? cut.height * cellMm;
+    const centre = grid.toImage(cut.left + cut.width / 2, cut.top + cut.height / 2);
+    return {
+      label,
+      width_mm: widthMm,
+      depth_mm: depthMm,
+      area_mm2: widthMm * depthMm,
+      section_modulus_mm3: (widthMm * depthMm * depthMm) / 6,
+      recovery_percent: ((widthMm * depthMm) / grossAreaMm2) * 100,
+      centre_x_mm: centre.x * scale,
+      centre_y_mm: centre.y * scale,
+      // The grid is the section turned by angleDeg, so the cut is turned back the other way
+      angle_deg: -grid.angleDeg,
+      corners: [
+        grid.toImage(cut.left, cut.top),
+        grid.toImage(cut.left + cut.width, cut.top),
+        grid.toImage(cut.left + cut.width, cut.top + cut.height),
+        grid.toImage(cut.left, cut.top + cut.height),
+      ],
+    };
+  };
+
+  let aspectCut: SawnRectangle | null = null;
+  let maxModulus: SawnRectangle | null = null;
+  let nominalCut: SawnRectangle | null = null;
+  const fitting = new Set<string>();
+
+  for (const angle of angles) {
+    const grid = buildGrid(section, bounds, angle);
+    const cellMm = grid.cellPx * scale;
+
+    const aspect = largestAspectCut(grid, options.aspectRatio);
+    if (aspect) {
+      const candidate = toRectangle(grid, aspect, `1:${options.aspectRatio}`);
+      if (!aspectCut || candidate.area_mm2 > aspectCut.area_mm2) aspectCut = candidate;
+    }
+
+    const modulus = maxModulusCut(grid);
+    if (modulus) {
+      const candidate = toRectangle(grid, modulus, "max Z");
+      if (!maxModulus || candidate.section_modulus_mm3 > maxModulus.section_modulus_mm3) {
+        maxModulus = candidate;
+      }
+    }
+
+    // Round nominal sizes up to whole cells so a size only fits when it really does
+    for (const size of options.nominalSizes) {
+      const label = nominalLabel(size);
+      if (fitting.has(label)) continue;
+      const cut = placeCut(grid, Math.ceil(size.widthMm / cellMm), Math.ceil(size.depthMm / cellMm));
+      if (!cut) continue;
+      fitting.add(label);
+      if (!nominalCut || size.widthMm * size.depthMm > nominalCut.area_mm2) {
+        nominalCut = toRectangle(grid, cut, label, size);
+      }
+    }
+  }
+
+  console.log("Sawing yield:", {
+    aspect: aspectCut && { width: aspectCut.width_mm, depth: aspectCut.depth_mm },
+    maxModulus: maxModulus && { width: maxModulus.width_mm, depth: maxModulus.depth_mm },
+    nominal: nominalCut?.label,
+  });
+
+  return {
+    aspect_cut: aspectCut,
+    max_modulus_cut: maxModulus,
+    nominal_cut: nominalCut,
+    fitting_nominal_sizes: options.nominalSizes.map(nominalLabel).filter((label) => fitting.has(label)),
+  };
+}
@@ -0,0 +1,185 @@
+import { cv } from "~/server/analysis/opencv";
+import { type Point } from "~/server/analysis/polygon";
+
+/** Grading metrics of a section outline, in pixels; the caller scales lengths to millimetres. */
+export interface ShapeDescriptors {
+  equivalentDiameter: number; // Diameter of the circle with the same area
+  feretMax: number; // Largest caliper width
+  feretMin: number; // Smallest caliper width
+  ovality: number; // feretMax / feretMin, 1 for a circle
+  convexity: number; // Hull perimeter over outline perimeter, 1 for a convex outline
+  solidity: number; // Outline area over hull area, 1 for a convex outline
+  ellipse: FittedEllipse | null; // Null for outlines with fewer than five vertices
+  eccentricity: number; // Of the fitted ellipse, 0 for a circle
+  enclosingCircle: { centre: Point; radius: number };
+  boundingBoxCentre: Point;
+}
+
+export interface FittedEllipse {
+  centre: Point;
+  major: number; // Full axis lengths
+  minor: number;
+  angleDeg: number; // Rotation of the major axis, clockwise from the image x-axis as OpenCV gives it
+}
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+const perimeter = (points: Point[]) =>
+  points.reduce((sum, point, i) => {
+    const next = points[(i + 1) % points.length]!;
+    return sum + Math.hypot(next.x - point.x, next.y - point.y);
+  }, 0);
+
+const shoelaceArea = (points: Point[]) =>
+  Math.abs(
+    points.reduce((sum, point, i) => {
+      const next = points[(i + 1) % points.length]!;
+      return sum + point.x * next.y - next.x * point.y;
+    }, 0),
+  ) / 2;
+
+// Andrew's monotone chain, counter-clockwise in image coordinates
+function convexHull(points: Point[]): Point[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) return sorted;
+
+  const lower: Point[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2]!, lower[lower.length - 1]!, point) <= 0) {
+      lower.pop();
+    }
+    lower.push(point);
+  }
+  const upper: Point[] = [];
+  for (const point of [...sorted].reverse()) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2]!, upper[upper.length - 1]!, point) <= 0) {
+      upper.pop();
+    }
+    upper.push(point);
+  }
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
+
+// The widest caliper is between two hull vertices; the narrowest lies flat against a hull edge
+function feretDiameters(hull: Point[]) {
+  let max = 0;
+  for (let i = 0; i < hull.length; i++) {
+    for (let j = i + 1; j < hull.length; j++) {
+      max = Math.max(max, Math.hypot(hull[j]!.x - hull[i]!.x, hull[j]!.y - hull[i]!.y));
+    }
+  }
+
+  let min = hull.length < 3 ? 0 : Infinity;
+  for (let i = 0; i < hull.length && hull.length >= 3; i++) {
+    const a = hull[i]!;
+    const b = hull[(i + 1) % hull.length]!;
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length === 0) continue;
+    let width = 0;
+    for (const point of hull) {
+      width = Math.max(width, Math.abs(cross(a, b, point)) / length);
+    }
+    min = Math.min(min, width);
+  }
+  return { max, min: Number.isFinite(min) ? min : 0 };
+}
+
+const circleFrom2 = (a: Point, b: Point) => ({
+  centre: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+  radius: Math.hypot(a.x - b.x, a.y - b.y) / 2,
+});
+
+function circleFrom3(a: Point, b: Point, c: Point) {
+  const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+  // Collinear points: the widest pair spans the circle
+  if (Math.abs(d) < 1e-12) {
+    return [circleFrom2(a, b), circleFrom2(a, c), circleFrom2(b, c)].reduce((widest, circle) =>
+      circle.radius > widest.radius ? circle : widest,
+    );
+  }
+  const a2 = a.x * a.x + a.y * a.y;
+  const b2 = b.x * b.x + b.y * b.y;
+  const c2 = c.x * c.x + c.y * c.y;
+  const centre = {
+    x: (a2 * (b.y - c.y) + b2 * (c.y - a.y) + c2 * (a.y - b.y)) / d,
+    y: (a2 * (c.x - b.x) + b2 * (a.x - c.x) + c2 * (b.x - a.x)) / d,
+  };
+  return { centre, radius: Math.hypot(a.x - centre.x, a.y - centre.y) };
+}
+
+// Welzl's algorithm in its incremental form; the hull is small enough that the order doesn't matter
+function minEnclosingCircle(hull: Point[]) {
+  const contains = (circle: { centre: Point; radius: number }, point: Point) =>
+    Math.hypot(point.x - circle.centre.x, point.y - circle.centre.y) <= circle.radius * (1 + 1e-9);
+
+  let circle = { centre: hull[0] ?? { x: 0, y: 0 }, radius: 0 };
+  for (let i = 1; i < hull.length; i++) {
+    if (contains(circle, hull[i]!)) continue;
+    circle = { centre: hull[i]!, radius: 0 };
+    for (let j = 0; j < i; j++) {
+      if (contains(circle, hull[j]!)) continue;
+      circle = circleFrom2(hull[i]!, hull[j]!);
+      for (let k = 0; k < j; k++) {
+        if (!contains(circle, hull[k]!)) circle = circleFrom3(hull[i]!, hull[j]!, hull[k]!);
+      }
+    }
+  }
+  return circle;
+}
+
+// Least-squares ellipse through the outline vertices
+function fitEllipse(points: Point[]): FittedEllipse | null {
+  if (points.length < 5) return null;
+  const mat = cv.matFromArray(
+    points.length,
+    1,
+    cv.CV_32FC2 as number,
+    points.flatMap((point) => [point.x, point.y]),
+  );
+  const rect = cv.fitEllipse(mat);
+  mat.delete();
+  const { width, height } = rect.size;
+  return {
+    centre: { x: rect.center.x, y: rect.center.y },
+    major: Math.max(width, height),
+    minor: Math.min(width, height),
+    angleDeg: width >= height ? rect.angle : rect.angle + 90,
+  };
+}
+
+/**
+ * Measure the outer outline of a section the way it is graded: equivalent and caliper diameters,
+ * how oval and how convex it is, and the fitted ellipse and enclosing circle whose centres are
+ * compared with the centroid.
+ */
+export function shapeDescriptors(outline: Point[]): ShapeDescriptors {
+  const hull = convexHull(outline);
+  const area = shoelaceArea(outline);
+  const hullArea = shoelaceArea(hull);
+  const feret = feretDiameters(hull);
+  const ellipse = fitEllipse(outline);
+
+  const box = outline.reduce(
+    (extent, point) => ({
+      left: Math.min(extent.left, point.x),
+      right: Math.max(extent.right, point.x),
+      top: Math.min(extent.top, point.y),
+      bottom: Math.max(extent.bottom, point.y),
+    }),
+    { left: Infinity, right: -Infinity, top: Infinity, bottom: -Infinity },
+  );
+
+  return {
+    equivalentDiameter: Math.sqrt((4 * area) / Math.PI),
+    feretMax: feret.max,
+    feretMin: feret.min,
+    ovality: feret.min > 0 ? feret.max / feret.min : 0,
+    convexity: perimeter(hull) / perimeter(outline),
+    solidity: hullArea > 0 ? area / hullArea : 0,
+    ellipse,
+    eccentricity:
+      ellipse && ellipse.major > 0 ? Math.sqrt(1 - (ellipse.minor / ellipse.major) ** 2) : 0,
+    enclosingCircle: minEnclosingCircle(hull),
+    boundingBoxCentre: { x: (box.left + box.right) / 2, y: (box.top + box.bottom) / 2 },
+  };
+}
@@ -0,0 +1,448 @@
+import { createCanvas } from "canvas";
+import { cv } from "~/server/analysis/opencv";
+import { type TorsionOptions } from "~/server/analysis/options";
+
+export interface TorsionResult {
+  torsion_constant_mm4: number; // St. Venant J
+  torsion_modulus_mm3: number; // Torque per unit peak shear stress; reads low on curved outlines
+  shear_centre_x_mm: number; // Same origin as the centroid
+  shear_centre_y_mm: number;
+  converged: boolean; // Both solves reached the residual tolerance
+  residual: number; // Largest relative residual of the two solves
+  iterations: number;
+  grid_change_percent: number; // Change in J from a grid half as fine; small when the grid is fine enough
+  stress_image_data: string | null; // PNG data URL, when requested
+}
+
+// Relative residual the conjugate gradient iterations stop at
+const TOLERANCE = 1e-8;
+const MAX_ITERATIONS = 5000;
+// Voids are modelled as material this much more compliant than wood, which keeps the stress
+// function flat across them as a hole requires
+const VOID_COMPLIANCE = 1e3;
+// Half width in cells of the window boundary stresses are averaged over
+const BOUNDARY_SMOOTHING = 2;
+const CONTOUR_LEVELS = 10;
+const MIN_IMAGE_PX = 400;
+
+// Cells of the section on a regular grid, with one cell of outside all round
+interface Grid {
+  cols: number;
+  rows: number;
+  kind: Uint8Array; // OUTSIDE, WOOD or VOID
+  cellPx: number; // Image pixels per cell side
+  originX: number; // Image position of cell (0, 0)'s centre
+  originY: number;
+}
+
+const OUTSIDE = 0;
+const WOOD = 1;
+const VOID = 2;
+
+const NEIGHBOURS = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+] as const;
+
+function buildGrid(
+  section: cv.Mat,
+  bounds: { x: number; y: number; width: number; height: number },
+  cells: number,
+): Grid {
+  const gridScale = Math.min(1, cells / Math.max(bounds.width, bounds.height));
+  const view = section.roi(new cv.Rect(bounds.x, bounds.y, bounds.width, bounds.height));
+  const scaled = new cv.Mat();
+  cv.resize(
+    view,
+    scaled,
+    new cv.Size(
+      Math.max(1, Math.round(bounds.width * gridScale)),
+      Math.max(1, Math.round(bounds.height * gridScale)),
+    ),
+    0,
+    0,
+    cv.INTER_AREA as number,
+  );
+  view.delete();
+
+  // Cells at least half covered are wood
+  const cols = scaled.cols + 2;
+  const rows = scaled.rows + 2;
+  const kind = new Uint8Array(cols * rows);
+  const levels = scaled.data;
+  for (let row = 0; row < scaled.rows; row++) {
+    for (let col = 0; col < scaled.cols; col++) {
+      if (levels[row * scaled.cols + col]! >= 128) kind[(row + 1) * cols + col + 1] = WOOD;
+    }
+  }
+  const cellPx = bounds.width / scaled.cols;
+  scaled.delete();
+
+  // Non-wood cells the border can't reach are voids
+  const reached = new Uint8Array(cols * rows);
+  const stack = [0];
+  reached[0] = 1;
+  while (stack.length > 0) {
+    const cell = stack.pop()!;
+    const col = cell % cols;
+    const row = Math.floor(cell / cols);
+    for (const [dx, dy] of NEIGHBOURS) {
+      const x = col + dx;
+      const y = row + dy;
+      if (x < 0 || y < 0 || x >= cols || y >= rows) continue;
+      const next = y * cols + x;
+      if (reached[next] || kind[next] === WOOD) continue;
+      reached[next] = 1;
+      stack.push(next);
+    }
+  }
+  for (let cell = 0; cell < kind.length; cell++) {
+    if (kind[cell] !== WOOD && !reached[cell]) kind[cell] = VOID;
+  }
+
+  return {
+    cols,
+    rows,
+    kind,
+    cellPx,
+    // Pixel centres sit on whole coordinates; cell 0 is the padding before the section's first cell
+    originX: bounds.x - 0.5 - cellPx / 2,
+    originY: bounds.y - 0.5 - cellPx / 2,
+  };
+}
+
+interface Solution {
+  values: Float64Array;
+  iterations: number;
+  residual: number;
+}
+
+/**
+ * Jacobi-preconditioned conjugate gradients for a symmetric system given by its product with a
+ * vector. Singular but consistent systems, such as pure Neumann problems, converge as well.
+ */
+function conjugateGradient(
+  apply: (x: Float64Array, out: Float64Array) => void,
+  diagonal: Float64Array,
+  b: Float64Array,
+): Solution {
+  const n = b.length;
+  const x = new Float64Array(n);
+  const r = Float64Array.from(b);
+  const z = new Float64Array(n);
+  const p = new Float64Array(n);
+  const q = new Float64Array(n);
+  const norm = (v: Float64Array) => Math.sqrt(v.reduce((sum, value) => sum + value * value, 0));
+  const bNorm = norm(b) || 1;
+
+  for (let i = 0; i < n; i++) z[i] = r[i]! / (diagonal[i]! || 1);
+  p.set(z);
+  let rz = r.reduce((sum, value, i) => sum + value * z[i]!, 0);
+  let iterations = 0;
+  let residual = norm(r) / bNorm;
+  while (residual > TOLERANCE && iterations < MAX_ITERATIONS) {
+    apply(p, q);
+    const pq = p.reduce((sum, value, i) => sum + value * q[i]!, 0);
+    if (pq <= 0) break;
+    const alpha = rz / pq;
+    for (let i = 0; i < n; i++) {
+      x[i]! += alpha * p[i]!;
+      r[i]! -= alpha * q[i]!;
+      z[i] = r[i]! / (diagonal[i]! || 1);
+    }
+    const nextRz = r.reduce((sum, value, i) => sum + value * z[i]!, 0);
+    for (let i = 0; i < n; i++) p[i] = z[i]! + (nextRz / rz) * p[i]!;
+    rz = nextRz;
+    iterations++;
+    residual = norm(r) / bNorm;
+  }
+  return { values: x, iterations, residual };
+}
+
+/**
+ * Prandtl stress function φ with ∇·(k∇φ) = -2 inside the outer boundary and φ = 0 on it, solved by
+ * finite volumes on the grid cells, in cell units. k is 1 in wood and large in voids.
+ */
+function solveStressFunction(grid: Grid) {
+  const { cols, kind } = grid;
+  const inside: number[] = [];
+  kind.forEach((k, cell) => {
+    if (k !== OUTSIDE) inside.push(cell);
+  });
+  const unknown = new Int32Array(kind.length).fill(-1);
+  inside.forEach((cell, i) => (unknown[cell] = i));
+  const conductivity = (cell: number) => (kind[cell] === VOID ? VOID_COMPLIANCE : 1);
+
+  // Face conductances: the harmonic mean between cells, and a half cell to the boundary outside
+  const diagonal = new Float64Array(inside.length);
+  const links: { i: number; j: number; c: number }[] = [];
+  inside.forEach((cell, i) => {
+    const k = conductivity(cell);
+    for (const [dx, dy] of NEIGHBOURS) {
+      const neighbour = cell + dy * cols + dx;
+      const j = unknown[neighbour]!;
+      if (j === -1) {
+        diagonal[i]! += 2 * k;
+      } else {
+        const kn = conductivity(neighbour);
+        const c = (2 * k * kn) / (k + kn);
+        diagonal[i]! += c;
+        if (j > i) links.push({ i, j, c });
+      }
+    }
+  });
+
+  const apply = (x: Float64Array, out: Float64Array) => {
+    for (let i = 0; i < x.length; i++) out[i] = diagonal[i]! * x[i]!;
+    for (const { i, j, c } of links) {
+      out[i]! -= c * x[j]!;
+      out[j]! -= c * x[i]!;
+    }
+  };
+  const solution = conjugateGradient(apply, diagonal, new Float64Array(inside.length).fill(2));
+
+  const phi = new Float64Array(kind.length);
+  inside.forEach((cell, i) => (phi[cell] = solution.values[i]!));
+  // J = 2∫φ dA over everything inside the outer boundary, voids included
+  const torsionConstant = 2 * phi.reduce((sum, value) => sum + value, 0);
+  return { phi, torsionConstant, iterations: solution.iterations, residual: solution.residual };
+}
+
+// Shear stress per unit twist, |∇φ|, of each wood cell. Along the outside φ = 0, so the stress there
+// is the normal gradient to the boundary face half a cell away. A staircase boundary puts cell
+// centres anywhere from zero to over half a cell from the true edge, so boundary stresses are
+// averaged over the nearby boundary cells.
+function stressMagnitudes(grid: Grid, phi: Float64Array): Float64Array {
+  const { cols, rows, kind } = grid;
+  const stress = new Float64Array(kind.length);
+  const boundary = new Float64Array(kind.length).fill(-1);
+  for (let cell = 0; cell < kind.length; cell++) {
+    if (kind[cell] !== WOOD) continue;
+    if (NEIGHBOURS.some(([dx, dy]) => kind[cell + dy * cols + dx] === OUTSIDE)) {
+      boundary[cell] = phi[cell]! / 0.5;
+    } else {
+      stress[cell] = Math.hypot(
+        (phi[cell + 1]! - phi[cell - 1]!) / 2,
+        (phi[cell + cols]! - phi[cell - cols]!) / 2,
+      );
+    }
+  }
+
+  for (let cell = 0; cell < kind.length; cell++) {
+    if (boundary[cell]! < 0) continue;
+    const col = cell % cols;
+    const row = Math.floor(cell / cols);
+    let sum = 0;
+    let count = 0;
+    for (let y = Math.max(0, row - BOUNDARY_SMOOTHING); y <= Math.min(rows - 1, row + BOUNDARY_SMOOTHING); y++) {
+      for (let x = Math.max(0, col - BOUNDARY_SMOOTHING); x <= Math.min(cols - 1, col + BOUNDARY_SMOOTHING); x++) {
+        const value = boundary[y * cols + x]!;
+        if (value < 0) continue;
+        sum += value;
+        count++;
+      }
+    }
+    stress[cell] = sum / count;
+  }
+  return stress;
+}
+
+/**
+ * Warping function ω of the wood, ∇²ω = 0 with ∂ω/∂n = y·nx - x·ny on every boundary, about the
+ * wood's own centroid. The Trefftz shear centre is the pole that makes the warping orthogonal to x
+ * and y, which gives its offset from the centroid in cell units.
+ */
+function solveShearCentre(grid: Grid) {
+  const { cols, kind } = grid;
+  const wood: number[] = [];
+  kind.forEach((k, cell) => {
+    if (k === WOOD) wood.push(cell);
+  });
+  const unknown = new Int32Array(kind.length).fill(-1);
+  wood.forEach((cell, i) => (unknown[cell] = i));
+
+  const xOf = (cell: number) => cell % cols;
+  const yOf = (cell: number) => Math.floor(cell / cols);
+  const cx = wood.reduce((sum, cell) => sum + xOf(cell), 0) / wood.length;
+  const cy = wood.reduce((sum, cell) => sum + yOf(cell), 0) / wood.length;
+
+  const diagonal = new Float64Array(wood.length);
+  const b = new Float64Array(wood.length);
+  const links: { i: number; j: number }[] = [];
+  wood.forEach((cell, i) => {
+    const x = xOf(cell) - cx;
+    const y = yOf(cell) - cy;
+    for (const [dx, dy] of NEIGHBOURS) {
+      const j = unknown[cell + dy * cols + dx]!;
+      if (j === -1) {
+        // Prescribed flux through the face, y·nx - x·ny at its centre
+        b[i]! += (y + dy / 2) * dx - (x + dx / 2) * dy;
+      } else {
+        diagonal[i]!++;
+        if (j > i) links.push({ i, j });
+      }
+    }
+  });
+
+  const apply = (x: Float64Array, out: Float64Array) => {
+    for (let i = 0; i < x.length; i++) out[i] = diagonal[i]! * x[i]!;
+    for (const { i, j } of links) {
+      out[i]! -= x[j]!;
+      out[j]! -= x[i]!;
+    }
+  };
+  const solution = conjugateGradient(apply, diagonal, b);
+
+  let Ixx = 0;
+  let Iyy = 0;
+  let Ixy = 0;
+  let Iwx = 0;
+  let Iwy = 0;
+  wood.forEach((cell, i) => {
+    const x = xOf(cell) - cx;
+    const y = yOf(cell) - cy;
+    const w = solution.values[i]!;
+    Ixx += y * y + 1 / 12;
+    Iyy += x * x + 1 / 12;
+    Ixy += x * y;
+    Iwx += w * x;
+    Iwy += w * y;
+  });
+  const determinant = Ixx * Iyy - Ixy * Ixy;
+
+  return {
+    x: cx + (Iwx * Ixy - Iyy * Iwy) / determinant,
+    y: cy + (Ixx * Iwx - Ixy * Iwy) / determinant,
+    iterations: solution.iterations,
+    residual: solution.residual,
+  };
+}
+
+// Blue through green to red
+function stressColour(fraction: number): [number, number, number] {
+  const t = Math.min(Math.max(fraction, 0), 1);
+  return [
+    Math.round(255 * Math.min(Math.max(2 * t - 0.5, 0), 1)),
+    Math.round(255 * (1 - Math.abs(2 * t - 1))),
+    Math.round(255 * Math.min(Math.max(1.5 - 2 * t, 0), 1)),
+  ];
+}
+
+// Shear stress shaded over the wood, with contours of φ, the lines the shear stress follows
+function renderStressImage(grid: Grid, phi: Float64Array, stress: Float64Array): string {
+  const { cols, rows, kind } = grid;
+  const maxStress = stress.reduce((max, value) => Math.max(max, value), 0) || 1;
+  const maxPhi = phi.reduce((max, value) => Math.max(max, value), 0) || 1;
+  const level = (cell: number) => Math.floor((phi[cell]! / maxPhi) * CONTOUR_LEVELS);
+
+  const cellCanvas = createCanvas(cols, rows);
+  const cellCtx = cellCanvas.getContext('2d');
+  const image = cellCtx.createImageData(cols, rows);
+  for (let cell = 0; cell < kind.length; cell++) {
+    const offset = cell * 4;
+    if (kind[cell] !== WOOD) {
+      image.data.set([255, 255, 255, 255], offset);
+      continue;
+    }
+    const onContour =
+      level(cell) !== level(cell + 1) || level(cell) !== level(cell + cols);
+    const [r, g, b] = onContour ? [0, 0, 0] : stressColour(stress[cell]! / maxStress);
+    image.data.set([r, g, b, 255], offset);
+  }
+  cellCtx.putImageData(image, 0, 0);
+
+  // Enlarge without smoothing so every cell stays visible
+  const zoom = Math.max(1, Math.ceil(MIN_IMAGE_PX / Math.max(cols, rows)));
+  const canvas = createCanvas(cols * zoom, rows * zoom);
+  const ctx = canvas.getContext('2d');
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(cellCanvas, 0, 0, cols * zoom, rows * zoom);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Solve the torsion of a section numerically on a grid over its mask: the St. Venant constant and
+ * peak shear stress from the Prandtl stress function, and the shear centre from the warping
+ * function. The constant is solved again on a grid half as fine to show how settled it is.
+ */
+export function analyzeTorsion(
+  section: cv.Mat, // Net section mask, 255 inside
+  bounds: { x: number; y: number; width: number; height: number },
+  scale: number, // mm per pixel
+  options: TorsionOptions,
+): TorsionResult {
+  const grid = buildGrid(section, bounds, options.gridCells);
+  const cellMm = grid.cellPx * scale;
+
+  const torsion = solveStressFunction(grid);
+  const stress = stressMagnitudes(grid, torsion.phi);
+  const peakStress = stress.reduce((max, value) => Math.max(max, value), 0);
+  const shearCentre = solveShearCentre(grid);
+
+  const coarseGrid = buildGrid(section, bounds, Math.round(options.gridCells / 2));
+  const coarse = solveStressFunction(coarseGrid);
+  const torsionConstantMm4 = torsion.torsionConstant * cellMm ** 4;
+  const coarseConstantMm4 = coarse.torsionConstant * (coarseGrid.cellPx * scale) ** 4;
+
+  const residual = Math.max(torsion.residual, shearCentre.residual);
+  const result: TorsionResult = {
+    torsion_constant_mm4: torsionConstantMm4,
+    torsion_modulus_mm3: peakStress > 0 ? (torsion.torsionConstant / peakStress) * cellMm ** 3 : 0,
+    shear_centre_x_mm: (grid.originX + shearCentre.x * grid.cellPx) * scale,
+    shear_centre_y_mm: (grid.originY + shearCentre.y * grid.cellPx) * scale,
+    converged: residual <= TOLERANCE,
+    residual,
+    iterations: torsion.iterations + shearCentre.iterations,
+    grid_change_percent:
+      (Math.abs(torsionConstantMm4 - coarseConstantMm4) / torsionConstantMm4) * 100,
+    stress_image_data: options.stressImage ? renderStressImage(grid, torsion.phi, stress) : null,
+  };
+
+  console.log("Torsion:", {
+    J: result.torsion_constant_mm4,
+    modulus: result.torsion_modulus_mm3,
+    shearCentre: { x: result.shear_centre_x_mm, y: result.shear_centre_y_mm },
+    converged: result.converged,
+    residual: result.residual,
+    gridChange: result.grid_change_percent,
+  });
+  return result;
+}
+
+/**
+ * First moment of area about the neutral axis of the part on one side of it, and the shear area
+ * from the strip (Jourawski) shear stress distribution, A_s = I² / ∫ Q² / b. `counts` holds the
+ * section's width in pixels at each strip, `axisPx` the neutral axis position.
+ */
+export function stripShear(counts: number[], axisPx: number) {
+  // Strip i spans i - 0.5 to i + 0.5; ∫ (axis - t) dt over [a, b]
+  const moment = (a: number, b: number) => axisPx * (b - a) - (b * b - a * a) / 2;
+
+  let secondMoment = 0;
+  let firstMomentAtAxis = 0;
+  let widthAtAxis = 0;
+  let shearEnergy = 0;
+  let firstMomentBefore = 0; // Of the whole strips before the current one
+  counts.forEach((width, i) => {
+    secondMoment += width * ((i - axisPx) ** 2 + 1 / 12);
+    if (i - 0.5 < axisPx) {
+      firstMomentAtAxis += width * moment(i - 0.5, Math.min(i + 0.5, axisPx));
+    }
+    if (Math.abs(i - axisPx) <= 0.5) widthAtAxis = Math.max(widthAtAxis, width);
+
+    // Q at the middle of the strip
+    if (width > 0) {
+      const firstMoment = firstMomentBefore + width * moment(i - 0.5, i);
+      shearEnergy += (firstMoment * firstMoment) / width;
+    }
+    firstMomentBefore += width * moment(i - 0.5, i + 0.5);
+  });
+
+  return {
+    firstMomentPx3: firstMomentAtAxis,
+    widthAtAxisPx: widthAtAxis,
+    shearAreaPx2: shearEnergy > 0 ? (secondMoment * secondMoment) / shearEnergy : 0,
+  };
+}
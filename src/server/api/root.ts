@@ -1,4 +1,8 @@
 import { imageRouter } from "~/server/api/routers/image";
+import { designRouter } from "~/server/api/routers/design";
+import { exportRouter } from "~/server/api/routers/export";
+import { jobRouter } from "~/server/api/routers/job";
+import { runRouter } from "~/server/api/routers/run";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 
 /**
@@ -8,6 +12,10 @@ import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
  */
 export const appRouter = createTRPCRouter({
   image: imageRouter,
+  job: jobRouter,
+  design: designRouter,
+  export: exportRouter,
+  run: runRouter,
 });
 
 // export type definition of API
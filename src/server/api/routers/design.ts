@@ -0,0 +1,7 @@
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { STRESS_GRADES } from "~/server/analysis/design";
+
+export const designRouter = createTRPCRouter({
+  // Standard stress grades to pick from
+  grades: publicProcedure.query(() => STRESS_GRADES),
+});
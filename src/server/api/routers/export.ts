@@ -0,0 +1,148 @@
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { designOptionsSchema } from "~/server/analysis/design";
+import { getJob } from "~/server/jobs/queue";
+import { loadJobResult } from "~/server/jobs/store";
+import { buildCadFile, buildCadZip, cadFormatSchema, cadOriginSchema } from "~/server/reports/cad";
+import { buildBatchPdf, buildSectionPdf } from "~/server/reports/pdf";
+import {
+  analysisResultSchema,
+  buildReportRows,
+  buildWorkbook,
+  reportInputSchema,
+  stationAssignmentSchema,
+} from "~/server/reports/workbook";
+
+const WORKBOOK_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+const PDF_MIME_TYPE = "application/pdf";
+const ZIP_MIME_TYPE = "application/zip";
+
+export const exportRouter = createTRPCRouter({
+  // Excel report of the results as the client has them, with any stations typed into the table
+  workbook: publicProcedure.input(reportInputSchema).mutation(async ({ input }) => {
+    try {
+      const buffer = await buildWorkbook(input);
+      return {
+        filename: "log_analysis_results.xlsx",
+        mimeType: WORKBOOK_MIME_TYPE,
+        data: buffer.toString("base64"),
+      };
+    } catch (error) {
+      console.error("Error in workbook mutation:", error);
+      throw new Error(`Failed to build workbook: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }),
+
+  // The same report of a background job's finished images, straight from the job store
+  jobWorkbook: publicProcedure
+    .input(
+      z.object({
+        jobId: z.string(),
+        design: designOptionsSchema.optional(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        const job = await getJob(input.jobId);
+        const sections = await Promise.all(
+          job.items
+            .filter((item) => item.status === "success")
+            .map((item) => loadJobResult(job.id, item.index)),
+        );
+        const results = sections.flat();
+        if (results.length === 0) throw new Error(`Job ${job.name} has no finished images`);
+
+        const buffer = await buildWorkbook({ results, design: input.design });
+        return {
+          filename: `${job.name.replace(/[^\w.-]+/g, "_")}.xlsx`,
+          mimeType: WORKBOOK_MIME_TYPE,
+          data: buffer.toString("base64"),
+        };
+      } catch (error) {
+        console.error("Error in jobWorkbook mutation:", error);
+        throw new Error(`Failed to build job workbook: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }),
+
+  // Printable calculation sheet of one section
+  sectionPdf: publicProcedure
+    .input(
+      z.object({
+        result: analysisResultSchema,
+        station: stationAssignmentSchema.optional(),
+        design: designOptionsSchema.optional(),
+      }),
+    )
+    .mutation(({ input }) => {
+      try {
+        const [row] = buildReportRows({
+          results: [input.result],
+          stations: input.station && [input.station],
+          design: input.design,
+        });
+        return {
+          filename: `${input.result.filename.replace(/[^\w.-]+/g, "_")}.pdf`,
+          mimeType: PDF_MIME_TYPE,
+          data: buildSectionPdf(row!).toString("base64"),
+        };
+      } catch (error) {
+        console.error("Error in sectionPdf mutation:", error);
+        throw new Error(`Failed to build section report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }),
+
+  // Cover summary and a calculation sheet per section
+  batchPdf: publicProcedure.input(reportInputSchema).mutation(({ input }) => {
+    try {
+      return {
+        filename: "log_analysis_report.pdf",
+        mimeType: PDF_MIME_TYPE,
+        data: buildBatchPdf(input).toString("base64"),
+      };
+    } catch (error) {
+      console.error("Error in batchPdf mutation:", error);
+      throw new Error(`Failed to build report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }),
+
+  // Scaled outline of one section as a DXF or SVG drawing
+  cad: publicProcedure
+    .input(
+      z.object({
+        result: analysisResultSchema,
+        format: cadFormatSchema,
+        origin: cadOriginSchema,
+      }),
+    )
+    .mutation(({ input }) => {
+      try {
+        const file = buildCadFile(input.result, input.format, input.origin);
+        return { ...file, data: Buffer.from(file.data).toString("base64") };
+      } catch (error) {
+        console.error("Error in cad mutation:", error);
+        throw new Error(`Failed to build drawing: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }),
+
+  // DXF and SVG drawings of every section, zipped
+  cadZip: publicProcedure
+    .input(
+      z.object({
+        results: z.array(analysisResultSchema).min(1),
+        origin: cadOriginSchema,
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        const buffer = await buildCadZip(input.results, input.origin);
+        return {
+          filename: "log_sections_cad.zip",
+          mimeType: ZIP_MIME_TYPE,
+          data: buffer.toString("base64"),
+        };
+      } catch (error) {
+        console.error("Error in cadZip mutation:", error);
+        throw new Error(`Failed to build CAD zip: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }),
+});
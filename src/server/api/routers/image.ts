@@ -1,344 +1,40 @@
 import { z } from "zod";
+import { tracked } from "@trpc/server";
 import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
-import cv from "@techstark/opencv-js";
-import { createCanvas, Image } from "canvas";
-import OpenAI from 'openai';
-
-// Initialize the OpenAI client with API key from environment variables
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY!,
+import { waitForOpenCV } from "~/server/analysis/opencv";
+import {
+  analyzeImage,
+  decodeImageData,
+  heightResolver,
+  imageInputSchema,
+} from "~/server/analysis/analyzeImage";
+import { importedGeometrySchema, parseGeometryFile } from "~/server/analysis/geometryImport";
+import { heightMeasurementSchema } from "~/server/analysis/heightExtractors";
+import { analysisOptionsSchema } from "~/server/analysis/options";
+import {
+  analyzeImportedGeometry,
+  analyzeLogSections,
+  analyzeSectionGeometry,
+  detectSectionGeometry,
+  previewSectionMask,
+  sectionGeometrySchema,
+  type ImageAnalysisOutcome,
+} from "~/server/analysis/logSection";
+import { emitProgress, watchProgress } from "~/server/analysis/progress";
+
+// Identifies a batch within a client's run so its images can be reported on the progress stream
+const progressInputSchema = z.object({
+  runId: z.string(),
+  offset: z.number().int().nonnegative().default(0), // Run index of the batch's first image
 });
 
-// Handle errors if API key is not set
-if (!process.env.OPENAI_API_KEY) {
-  console.warn('OPENAI_API_KEY is not set in environment variables');
-}
-
-// Initialize OpenCV
-let opencvReady = false;
-cv.onRuntimeInitialized = () => {
-  opencvReady = true;
-  console.log("OpenCV.js is ready");
-};
-
-// Wait for OpenCV to be ready
-const waitForOpenCV = () => {
-  return new Promise<void>((resolve) => {
-    if (opencvReady) {
-      resolve();
-    } else {
-      const checkInterval = setInterval(() => {
-        if (opencvReady) {
-          clearInterval(checkInterval);
-          resolve();
-        }
-      }, 100);
-    }
-  });
-};
-
-export interface LogAnalysisResult {
-  filename: string;
-  area_mm2: number;
-  centroid_x_mm: number;
-  centroid_y_mm: number;
-  Ixx_mm4: number;
-  section_modulus_mm3: number;
-  detected_height_mm: number; // Height in millimeters that was used for calculations
-  processed_image_data: string; // Base64 encoded image with annotations
-}
-
-interface Moments {
-  m00: number;
-  m10: number;
-  m01: number;
-}
-
-async function analyzeLogSection(
-  imageBuffer: Buffer,
-  heightMm: number,
-  filename: string,
-): Promise<LogAnalysisResult> {
-  // Wait for OpenCV to be ready
-  await waitForOpenCV();
-
-  try {
-    // Create a canvas to load the image
-    const img = new Image();
-    img.src = imageBuffer;
-
-    const canvas = createCanvas(img.width, img.height);
-    const ctx = canvas.getContext("2d");
-    if (!ctx) throw new Error("Failed to get canvas context");
-
-    // Draw image to canvas
-    ctx.drawImage(img, 0, 0);
-
-    // Get image data for processing
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-
-    // Convert to OpenCV Mat
-    const src = cv.matFromImageData(imageData);
-    const gray = new cv.Mat();
-    cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY as number);
-
-    // Threshold the image
-    const binary = new cv.Mat();
-    cv.threshold(gray, binary, 0, 255, (cv.THRESH_BINARY + cv.THRESH_OTSU) as number);
-    cv.bitwise_not(binary, binary);
-
-    // Find contours
-    const contours = new cv.MatVector();
-    const hierarchy = new cv.Mat();
-    cv.findContours(
-      binary,
-      contours,
-      hierarchy,
-      cv.RETR_EXTERNAL as number,
-      cv.CHAIN_APPROX_SIMPLE as number,
-    );
-
-    // Find largest contour
-    let maxArea = 0;
-    let largestContourIndex = 0;
-    for (let i = 0; i < contours.size(); i++) {
-      const area = cv.contourArea(contours.get(i));
-      if (area > maxArea) {
-        maxArea = area;
-        largestContourIndex = i;
-      }
-    }
-
-    console.log(`Largest contour area for ${filename}:`, maxArea);
-
-    if (maxArea === 0) {
-      throw new Error(`No valid contour found in image ${filename}`);
-    }
-
-    // Create mask
-    const mask = cv.Mat.zeros(gray.rows, gray.cols, cv.CV_8UC1 as number);
-    cv.drawContours(mask, contours, largestContourIndex, new cv.Scalar(255), -1);
-
-    // Get masked image
-    const maskedImage = new cv.Mat();
-    cv.bitwise_and(gray, gray, maskedImage, mask);
-
-    // Get bounding rectangle of the shape (excluding text/labels)
-    const boundingRect = cv.boundingRect(contours.get(largestContourIndex));
-    const shapeHeightPx = boundingRect.height;
-    
-    console.log(`Shape height in pixels for ${filename}:`, shapeHeightPx);
-    
-    // Calculate scale based on the actual shape height, not the full image
-    const scale = heightMm / shapeHeightPx;
-    const pixelAreaMm2 = scale * scale;
-
-    console.log(`Scale factor for ${filename}:`, scale);
-    console.log(`Pixel area in mm² for ${filename}:`, pixelAreaMm2);
-
-    // Calculate moments and properties
-    const moments = cv.moments(mask) as Moments;
-    const areaMm2 = moments.m00 * pixelAreaMm2;
-    const centroidX = moments.m10 / moments.m00;
-    const centroidY = moments.m01 / moments.m00;
-
-    console.log(`Raw moments for ${filename}:`, {
-      m00: moments.m00,
-      m10: moments.m10,
-      m01: moments.m01
-    });
-
-    // Convert to real-world coordinates
-    const centroidXMm = centroidX * scale;
-    const centroidYMm = centroidY * scale;
-
-    console.log(`Centroid coordinates for ${filename}:`, {
-      x: centroidXMm,
-      y: centroidYMm
-    });
-
-    // Calculate Ixx (moment of inertia)
-    let IxxMm4 = 0;
-    for (let y = 0; y < mask.rows; y++) {
-      for (let x = 0; x < mask.cols; x++) {
-        const pixelValue = mask.ucharPtr(y, x) as Uint8Array;
-        if (pixelValue?.[0] === 255) {
-          const yMm = y * scale;
-          IxxMm4 += Math.pow(yMm - centroidYMm, 2) * pixelAreaMm2;
-        }
-      }
-    }
-
-    console.log(`Ixx for ${filename}:`, IxxMm4);
-
-    // Calculate section modulus using the shape's bounding box
-    const maxY = (boundingRect.y + boundingRect.height) * scale;
-    const minY = boundingRect.y * scale;
-    const cMm = Math.max(maxY - centroidYMm, centroidYMm - minY);
-    const sectionModulusMm3 = IxxMm4 / cMm;
-
-    console.log(`Section modulus for ${filename}:`, sectionModulusMm3);
-
-    // Create a visualization with the log section and annotations
-    const visualCanvas = createCanvas(img.width, img.height);
-    const visualCtx = visualCanvas.getContext('2d');
-    if (!visualCtx) throw new Error("Failed to get visual canvas context");
-    
-    // Draw original image
-    visualCtx.drawImage(img, 0, 0);
-    
-    // Remove text/labels by filling the areas outside the main contour with white
-    visualCtx.globalCompositeOperation = 'destination-in';
-    
-    // Create a path for the contour
-    visualCtx.beginPath();
-    const contour = contours.get(largestContourIndex);
-    for (let i = 0; i < contour.data32S.length; i += 2) {
-      const x = contour.data32S[i];
-      const y = contour.data32S[i + 1];
-      if (x !== undefined && y !== undefined) {
-        if (i === 0) {
-          visualCtx.moveTo(x, y);
-        } else {
-          visualCtx.lineTo(x, y);
-        }
-      }
-    }
-    visualCtx.closePath();
-    visualCtx.fill();
-    
-    // Reset composite operation
-    visualCtx.globalCompositeOperation = 'source-over';
-    
-    // Draw centroid with much larger, more visible marker
-    visualCtx.fillStyle = '#FF0000'; // Bright red
-    visualCtx.beginPath();
-    visualCtx.arc(centroidX, centroidY, 15, 0, 2 * Math.PI);
-    visualCtx.fill();
-    
-    // Add a thicker contrasting border to the centroid
-    visualCtx.strokeStyle = '#FFFFFF'; // White border
-    visualCtx.lineWidth = 4;
-    visualCtx.stroke();
-    
-    // Draw x and y axes through centroid with even higher visibility
-    visualCtx.strokeStyle = '#0000FF'; // Bright blue
-    visualCtx.lineWidth = 5;
-    
-    // X-axis with dashed line for better visibility
-    visualCtx.beginPath();
-    visualCtx.setLineDash([15, 7]);
-    visualCtx.moveTo(0, centroidY);
-    visualCtx.lineTo(img.width, centroidY);
-    visualCtx.stroke();
-    
-    // Y-axis with dashed line
-    visualCtx.beginPath();
-    visualCtx.moveTo(centroidX, 0);
-    visualCtx.lineTo(centroidX, img.height);
-    visualCtx.stroke();
-    
-    // Reset line dash
-    visualCtx.setLineDash([]);
-    
-    // Add larger labels for clarity
-    visualCtx.font = 'bold 24px Arial';
-    visualCtx.fillStyle = '#000000';
-    visualCtx.strokeStyle = '#FFFFFF';
-    visualCtx.lineWidth = 4;
-    
-    // Centroid label
-    const centroidXNum = Number(centroidX);
-    const centroidYNum = Number(centroidY);
-    visualCtx.strokeText('C', centroidXNum + 18, centroidYNum - 18);
-    visualCtx.fillText('C', centroidXNum + 18, centroidYNum - 18);
-    
-    // Add X and Y labels at the ends of the axes
-    visualCtx.strokeText('X', img.width - 30, centroidYNum - 10);
-    visualCtx.fillText('X', img.width - 30, centroidYNum - 10);
-    
-    visualCtx.strokeText('Y', centroidXNum + 10, 30);
-    visualCtx.fillText('Y', centroidXNum + 10, 30);
-    
-    // Get the processed image as base64
-    const processedImageData = visualCanvas.toDataURL('image/png');
-
-    // Clean up OpenCV objects
-    src.delete();
-    gray.delete();
-    binary.delete();
-    contours.delete();
-    hierarchy.delete();
-    mask.delete();
-    maskedImage.delete();
-
-    return {
-      filename,
-      area_mm2: areaMm2,
-      centroid_x_mm: centroidXMm,
-      centroid_y_mm: centroidYMm,
-      Ixx_mm4: IxxMm4,
-      section_modulus_mm3: sectionModulusMm3,
-      detected_height_mm: heightMm, // Return the height that was used for calculations
-      processed_image_data: processedImageData,
-    };
-  } catch (error) {
-    console.error("Error in analyzeLogSection:", error);
-    throw new Error(`Failed to analyze image ${filename}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
-
-async function extractHeightWithOpenAI(imageData: string): Promise<number> {
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: "This image contains a log section with a height measurement in millimeters. Extract ONLY the height value in millimeters. Return ONLY the number, nothing else."
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: imageData
-              }
-            }
-          ]
-        }
-      ],
-      max_tokens: 10
-    });
-
-    const heightText = response.choices[0]?.message?.content?.trim();
-    if (!heightText) {
-      throw new Error("No height value found in the image");
-    }
-
-    const height = parseInt(heightText, 10);
-    if (isNaN(height) || height <= 0 || height > 1000) {
-      throw new Error("Invalid height value detected");
-    }
-
-    return height;
-  } catch (error) {
-    console.error("Error extracting height with OpenAI:", error);
-    throw new Error(`Failed to extract height from image: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
-
 export const imageRouter = createTRPCRouter({
   analyze: publicProcedure
     .input(
       z.object({
-        images: z.array(
-          z.object({
-            data: z.string(), // Base64 encoded image data
-            filename: z.string(),
-          }),
-        ),
+        images: z.array(imageInputSchema),
+        options: analysisOptionsSchema.default({}),
+        progress: progressInputSchema.optional(),
       }),
     )
     .mutation(async ({ input }) => {
@@ -346,22 +42,23 @@ export const imageRouter = createTRPCRouter({
         // Wait for OpenCV to be ready before processing any images
         await waitForOpenCV();
 
-        const results: LogAnalysisResult[] = [];
-
-        for (const image of input.images) {
-          // Extract height using OpenAI
-          const heightMm = await extractHeightWithOpenAI(image.data);
-
-          // Convert base64 to buffer
-          const base64Data = image.data.replace(/^data:image\/\w+;base64,/, "");
-          const buffer = Buffer.from(base64Data, "base64");
-
-          const result = await analyzeLogSection(
-            buffer,
-            heightMm,
-            image.filename,
+        const results: ImageAnalysisOutcome[] = [];
+
+        for (const [i, image] of input.images.entries()) {
+          const progress = input.progress;
+          results.push(
+            await analyzeImage(
+              image,
+              input.options,
+              progress &&
+                ((event) =>
+                  emitProgress(progress.runId, {
+                    ...event,
+                    imageIndex: progress.offset + i,
+                    filename: image.filename,
+                  })),
+            ),
           );
-          results.push(result);
         }
 
         return results;
@@ -370,4 +67,145 @@ export const imageRouter = createTRPCRouter({
         throw new Error(`Failed to analyze images: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     }),
+
+  // Rerun the analysis of a single image with its sections' heights, corrected or as resolved before
+  recompute: publicProcedure
+    .input(
+      z.object({
+        image: imageInputSchema.omit({ heightMm: true, sectionHeightsMm: true, sectionHeights: true }),
+        sectionHeights: z.array(heightMeasurementSchema.nullable()).min(1),
+        options: analysisOptionsSchema.default({}),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        const buffer = decodeImageData(input.image.data);
+        return await analyzeLogSections(
+          buffer,
+          heightResolver(
+            { ...input.image, sectionHeights: input.sectionHeights },
+            buffer,
+            input.options,
+          ),
+          input.image.filename,
+          input.options,
+          undefined,
+          input.image.rejectedDecayRegions,
+        );
+      } catch (error) {
+        console.error("Error in recompute mutation:", error);
+        throw new Error(`Failed to recompute image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }),
+
+  // The binary mask the preprocessing options produce for one image, to tune them before a batch
+  previewMask: publicProcedure
+    .input(
+      z.object({
+        image: imageInputSchema.pick({ data: true, filename: true }),
+        options: analysisOptionsSchema.default({}),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        return await previewSectionMask(
+          decodeImageData(input.image.data),
+          input.image.filename,
+          input.options,
+        );
+      } catch (error) {
+        console.error("Error in previewMask mutation:", error);
+        throw new Error(`Failed to preview mask: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }),
+
+  // The detected section outlines and holes, to correct by hand in the contour editor
+  detectGeometry: publicProcedure
+    .input(
+      z.object({
+        image: imageInputSchema.pick({ data: true, filename: true }),
+        options: analysisOptionsSchema.default({}),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        return await detectSectionGeometry(
+          decodeImageData(input.image.data),
+          input.image.filename,
+          input.options,
+        );
+      } catch (error) {
+        console.error("Error in detectGeometry mutation:", error);
+        throw new Error(`Failed to detect contours: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }),
+
+  // Analyze hand-edited geometry instead of thresholding the image
+  analyzeEditedGeometry: publicProcedure
+    .input(
+      z.object({
+        image: imageInputSchema,
+        geometry: sectionGeometrySchema,
+        options: analysisOptionsSchema.default({}),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        const buffer = decodeImageData(input.image.data);
+        return await analyzeSectionGeometry(
+          buffer,
+          input.geometry,
+          heightResolver(input.image, buffer, input.options),
+          input.image.filename,
+          input.options,
+          input.image.rejectedDecayRegions,
+        );
+      } catch (error) {
+        console.error("Error in analyzeEditedGeometry mutation:", error);
+        throw new Error(`Failed to analyze edited contour: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }),
+
+  // Analyze sections given as coordinates: a DXF, SVG or CSV file, or outlines already in millimetres
+  analyzeGeometry: publicProcedure
+    .input(
+      z.object({
+        filename: z.string(),
+        source: z.union([
+          z.object({ content: z.string() }),
+          z.object({ geometry: importedGeometrySchema }),
+        ]),
+        options: analysisOptionsSchema.default({}),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        const geometry =
+          "geometry" in input.source
+            ? input.source.geometry
+            : parseGeometryFile(input.filename, input.source.content);
+        return await analyzeImportedGeometry(geometry, input.filename, input.options);
+      } catch (error) {
+        console.error("Error in analyzeGeometry mutation:", error);
+        throw new Error(`Failed to analyze imported geometry: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }),
+
+  // Stream each image's steps through the analysis for a run started with the same runId
+  progress: publicProcedure
+    .input(
+      z.object({
+        runId: z.string(),
+        lastEventId: z.string().nullish(), // Sent back on reconnect to resume after that event
+      }),
+    )
+    .subscription(async function* ({ input, signal }) {
+      for await (const event of watchProgress(
+        input.runId,
+        Number(input.lastEventId ?? 0),
+        signal,
+      )) {
+        yield tracked(String(event.seq), event);
+      }
+    }),
 });
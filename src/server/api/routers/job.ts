@@ -0,0 +1,128 @@
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { imageInputSchema } from "~/server/analysis/analyzeImage";
+import { analysisOptionsSchema } from "~/server/analysis/options";
+import {
+  addJobImages,
+  cancelJob,
+  createJob,
+  getJob,
+  listJobs,
+  readJobImage,
+  requeueJob,
+} from "~/server/jobs/queue";
+import { loadJobResult, type Job, type JobItemStatus } from "~/server/jobs/store";
+
+// Status counts for job lists and progress bars
+function summarizeJob(job: Job) {
+  const counts: Record<JobItemStatus, number> = {
+    queued: 0,
+    running: 0,
+    success: 0,
+    error: 0,
+    cancelled: 0,
+  };
+  job.items.forEach((item) => counts[item.status]++);
+
+  return {
+    id: job.id,
+    name: job.name,
+    status: job.status,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    total: job.items.length,
+    counts,
+    saveError: job.saveError,
+  };
+}
+
+export const jobRouter = createTRPCRouter({
+  // Store the images and queue them for analysis in the background
+  createJob: publicProcedure
+    .input(
+      z.object({
+        name: z.string().optional(),
+        images: z.array(imageInputSchema).min(1),
+        options: analysisOptionsSchema.default({}),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        return summarizeJob(await createJob(input));
+      } catch (error) {
+        console.error("Error in createJob mutation:", error);
+        throw new Error(`Failed to create job: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }),
+
+  // Queue the next images of a job whose upload is split over several requests
+  addImages: publicProcedure
+    .input(
+      z.object({
+        jobId: z.string(),
+        images: z.array(imageInputSchema).min(1),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        return summarizeJob(await addJobImages(input.jobId, input.images));
+      } catch (error) {
+        console.error("Error in addImages mutation:", error);
+        throw new Error(`Failed to add images to job: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }),
+
+  // Job status with the results finished so far. Polling clients pass the updatedAt they last saw
+  // to only receive results finished since then.
+  getJob: publicProcedure
+    .input(
+      z.object({
+        jobId: z.string(),
+        resultsSince: z.number().optional(),
+        includeImages: z.boolean().default(false), // Original uploads, to restore a reloaded page
+      }),
+    )
+    .query(async ({ input }) => {
+      const job = await getJob(input.jobId);
+      const items = await Promise.all(
+        job.items.map(async (item) => ({
+          index: item.index,
+          filename: item.filename,
+          status: item.status,
+          error: item.error,
+          finishedAt: item.finishedAt,
+          sections:
+            item.status === "success" &&
+            (input.resultsSince === undefined || (item.finishedAt ?? 0) >= input.resultsSince)
+              ? await loadJobResult(job.id, item.index)
+              : undefined,
+          data: input.includeImages ? await readJobImage(job, item) : undefined,
+        })),
+      );
+
+      return {
+        ...summarizeJob(job),
+        options: job.options,
+        items,
+      };
+    }),
+
+  listJobs: publicProcedure.query(async () => {
+    const jobs = await listJobs();
+    return jobs.map(summarizeJob);
+  }),
+
+  cancelJob: publicProcedure
+    .input(z.object({ jobId: z.string() }))
+    .mutation(async ({ input }) => summarizeJob(await cancelJob(input.jobId))),
+
+  // Queue failed and cancelled items again, all of them unless indices are given
+  requeueJob: publicProcedure
+    .input(
+      z.object({
+        jobId: z.string(),
+        indices: z.array(z.number().int().nonnegative()).optional(),
+      }),
+    )
+    .mutation(async ({ input }) => summarizeJob(await requeueJob(input.jobId, input.indices))),
+});
@@ -0,0 +1,123 @@
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { designOptionsSchema } from "~/server/analysis/design";
+import { analysisStageSchema, sectionGeometrySchema } from "~/server/analysis/logSection";
+import { analysisOptionsSchema } from "~/server/analysis/options";
+import { analysisResultSchema, stationAssignmentSchema } from "~/server/reports/workbook";
+import {
+  deleteRun,
+  listRuns,
+  loadRun,
+  loadRunResult,
+  readRunImage,
+  renameRun,
+  saveRun,
+  type Run,
+} from "~/server/runs/store";
+
+// Run ids name directories, so nothing else may reach the file system
+const runIdSchema = z.string().uuid();
+
+// Counts for run lists
+function summarizeRun(run: Run) {
+  return {
+    id: run.id,
+    name: run.name,
+    project: run.project,
+    createdAt: run.createdAt,
+    updatedAt: run.updatedAt,
+    imageCount: run.images.length,
+    sectionCount: run.images.reduce((sum, image) => sum + image.sections, 0),
+    failedCount: run.images.filter((image) => image.error).length,
+  };
+}
+
+export const runRouter = createTRPCRouter({
+  // Create a run or update one, with the images that changed since it was last saved
+  saveRun: publicProcedure
+    .input(
+      z.object({
+        runId: runIdSchema.optional(),
+        name: z.string().min(1),
+        project: z.string().min(1),
+        options: analysisOptionsSchema,
+        design: designOptionsSchema.nullable(),
+        stations: z.record(stationAssignmentSchema), // By result filename
+        imageCount: z.number().int().nonnegative(),
+        images: z.array(
+          z.object({
+            index: z.number().int().nonnegative(),
+            filename: z.string(),
+            data: z.string().optional(),
+            sections: z.array(analysisResultSchema),
+            error: z
+              .object({
+                stage: z.enum([...analysisStageSchema.options, "request"]),
+                message: z.string(),
+              })
+              .optional(),
+            geometry: z
+              .object({
+                width: z.number().int().positive(),
+                height: z.number().int().positive(),
+                geometry: sectionGeometrySchema,
+              })
+              .optional(),
+          }),
+        ),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        return summarizeRun(await saveRun(input));
+      } catch (error) {
+        console.error("Error in saveRun mutation:", error);
+        throw new Error(`Failed to save run: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }),
+
+  listRuns: publicProcedure.query(async () => {
+    const runs = await listRuns();
+    return runs.map(summarizeRun);
+  }),
+
+  // Everything needed to reopen a run: its settings, the original images and their results
+  getRun: publicProcedure.input(z.object({ runId: runIdSchema })).query(async ({ input }) => {
+    const run = await loadRun(input.runId);
+    const images = await Promise.all(
+      run.images.map(async (image) => ({
+        index: image.index,
+        filename: image.filename,
+        error: image.error,
+        geometry: image.geometry,
+        data: await readRunImage(run.id, image),
+        sections: await loadRunResult(run.id, image.index),
+      })),
+    );
+
+    return {
+      ...summarizeRun(run),
+      options: run.options,
+      design: run.design,
+      stations: run.stations,
+      images,
+    };
+  }),
+
+  renameRun: publicProcedure
+    .input(
+      z.object({
+        runId: runIdSchema,
+        name: z.string().min(1).optional(),
+        project: z.string().min(1).optional(),
+      }),
+    )
+    .mutation(async ({ input }) => summarizeRun(await renameRun(input.runId, input))),
+
+  deleteRun: publicProcedure
+    .input(z.object({ runId: runIdSchema }))
+    .mutation(async ({ input }) => {
+      await deleteRun(input.runId);
+      return { runId: input.runId };
+    }),
+});
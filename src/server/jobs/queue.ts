@@ -0,0 +1,260 @@
+import { randomUUID } from "crypto";
+import { env } from "~/env";
+import { analyzeImage, type ImageInput } from "~/server/analysis/analyzeImage";
+import { type AnalysisOptions } from "~/server/analysis/options";
+import { emitProgress } from "~/server/analysis/progress";
+import {
+  decodeDataUrl,
+  loadJobImage,
+  loadJobs,
+  saveJob,
+  saveJobImage,
+  saveJobResult,
+  type Job,
+  type JobItem,
+} from "~/server/jobs/store";
+
+interface QueueState {
+  jobs: Map<string, Job>;
+  active: number; // Items currently being analyzed
+}
+
+// Next.js bundles the instrumentation hook and the API routes separately, so the queue lives on
+// globalThis to make sure the process only ever runs one
+const globalForJobs = globalThis as unknown as {
+  jobQueue: Promise<QueueState> | undefined;
+  pendingJobUploads: Map<string, Promise<unknown>> | undefined;
+};
+
+// Chunks uploaded to the same job are added one at a time, since each item's index is the number of
+// items before it and is only pushed once its image is stored
+const pendingUploads = (globalForJobs.pendingJobUploads ??= new Map<string, Promise<unknown>>());
+
+function withJobUpload<T>(jobId: string, upload: () => Promise<T>): Promise<T> {
+  const result = (pendingUploads.get(jobId) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(upload);
+  pendingUploads.set(jobId, result);
+  return result;
+}
+
+/**
+ * Load the persisted jobs and start working through them. Items that were running when the server
+ * stopped are queued again.
+ */
+export function startJobQueue(): Promise<QueueState> {
+  globalForJobs.jobQueue ??= loadJobs().then((jobs) => {
+    for (const job of jobs) {
+      const interrupted = job.items.filter((item) => item.status === "running");
+      interrupted.forEach((item) => (item.status = "queued"));
+      if (job.status === "running") job.status = "queued";
+      if (interrupted.length > 0) void saveJobInBackground(job);
+    }
+
+    console.log(`Loaded ${jobs.length} jobs`);
+    const state: QueueState = {
+      jobs: new Map(jobs.map((job) => [job.id, job])),
+      active: 0,
+    };
+    pump(state);
+    return state;
+  });
+  return globalForJobs.jobQueue;
+}
+
+// The queue writes jobs as it goes without waiting on them, so a failed write is logged and marked
+// on the job instead of being lost
+function saveJobInBackground(job: Job): Promise<void> {
+  return saveJob(job).then(
+    () => {
+      delete job.saveError;
+    },
+    (error: unknown) => {
+      console.error(`Error saving job ${job.id}:`, error);
+      job.saveError = error instanceof Error ? error.message : 'Unknown error';
+    },
+  );
+}
+
+const isPending = (item: JobItem) => item.status === "queued" || item.status === "running";
+
+// Start queued items, oldest job first, until the concurrency limit is reached
+function pump(state: QueueState) {
+  const jobs = [...state.jobs.values()]
+    .filter((job) => job.status === "queued" || job.status === "running")
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  for (const job of jobs) {
+    for (const item of job.items) {
+      if (state.active >= env.JOB_CONCURRENCY) return;
+      if (item.status !== "queued") continue;
+
+      item.status = "running";
+      job.status = "running";
+      job.updatedAt = Date.now();
+      void saveJobInBackground(job);
+
+      state.active++;
+      void processItem(job, item).finally(() => {
+        state.active--;
+        pump(state);
+      });
+    }
+  }
+}
+
+async function processItem(job: Job, item: JobItem) {
+  try {
+    const outcome = await analyzeImage(
+      {
+        data: await readJobImage(job, item),
+        filename: item.filename,
+        heightMm: item.heightMm,
+        sectionHeightsMm: item.sectionHeightsMm,
+      },
+      job.options,
+      // Jobs report progress under their own id
+      (event) =>
+        emitProgress(job.id, { ...event, imageIndex: item.index, filename: item.filename }),
+    );
+
+    if (outcome.status === "success") {
+      await saveJobResult(job.id, item.index, outcome.sections);
+      item.status = "success";
+      delete item.error;
+    } else {
+      item.status = "error";
+      item.error = { stage: outcome.stage, message: outcome.message };
+    }
+  } catch (error) {
+    console.error(`Error processing job ${job.id} item ${item.index}:`, error);
+    item.status = "error";
+    item.error = {
+      stage: "decode",
+      message: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+
+  item.finishedAt = Date.now();
+  job.updatedAt = item.finishedAt;
+  if (job.status !== "cancelled") {
+    job.status = job.items.some(isPending) ? "running" : "completed";
+  }
+  await saveJobInBackground(job);
+}
+
+async function findJob(jobId: string): Promise<[QueueState, Job]> {
+  const state = await startJobQueue();
+  const job = state.jobs.get(jobId);
+  if (!job) {
+    throw new Error(`Job ${jobId} not found`);
+  }
+  return [state, job];
+}
+
+// Store the images before the job's record so a queued item never points at a missing file
+async function addItems(job: Job, images: ImageInput[]) {
+  for (const image of images) {
+    const index = job.items.length;
+    const { mimeType, buffer } = decodeDataUrl(image.data);
+    await saveJobImage(job.id, index, buffer);
+    job.items.push({
+      index,
+      filename: image.filename,
+      mimeType,
+      heightMm: image.heightMm,
+      sectionHeightsMm: image.sectionHeightsMm,
+      status: "queued",
+    });
+  }
+}
+
+export async function createJob(input: {
+  name?: string;
+  images: ImageInput[];
+  options: AnalysisOptions;
+}): Promise<Job> {
+  const state = await startJobQueue();
+  const now = Date.now();
+  const job: Job = {
+    id: randomUUID(),
+    name: input.name ?? `${input.images.length} images`,
+    createdAt: now,
+    updatedAt: now,
+    status: "queued",
+    options: input.options,
+    items: [],
+  };
+
+  await addItems(job, input.images);
+  await saveJob(job);
+
+  state.jobs.set(job.id, job);
+  pump(state);
+  return job;
+}
+
+// Queue more images on a job, so a large batch can be uploaded a few images at a time
+export async function addJobImages(jobId: string, images: ImageInput[]): Promise<Job> {
+  const [state, job] = await findJob(jobId);
+  return withJobUpload(jobId, async () => {
+    if (job.status === "cancelled") {
+      throw new Error(`Job ${jobId} was cancelled`);
+    }
+
+    await addItems(job, images);
+    if (job.status === "completed") job.status = "queued";
+    job.updatedAt = Date.now();
+    await saveJob(job);
+
+    pump(state);
+    return job;
+  });
+}
+
+export async function getJob(jobId: string): Promise<Job> {
+  const [, job] = await findJob(jobId);
+  return job;
+}
+
+export async function listJobs(): Promise<Job[]> {
+  const state = await startJobQueue();
+  return [...state.jobs.values()].sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Stop a job; items already being analyzed finish, the rest are cancelled
+export async function cancelJob(jobId: string): Promise<Job> {
+  const [, job] = await findJob(jobId);
+  for (const item of job.items) {
+    if (item.status === "queued") item.status = "cancelled";
+  }
+  job.status = "cancelled";
+  job.updatedAt = Date.now();
+  await saveJob(job);
+  return job;
+}
+
+// Queue failed and cancelled items again, optionally only the given ones
+export async function requeueJob(jobId: string, indices?: number[]): Promise<Job> {
+  const [state, job] = await findJob(jobId);
+  for (const item of job.items) {
+    if (indices && !indices.includes(item.index)) continue;
+    if (item.status === "error" || item.status === "cancelled") {
+      item.status = "queued";
+      delete item.error;
+      delete item.finishedAt;
+    }
+  }
+  job.status = job.items.some(isPending) ? "queued" : "completed";
+  job.updatedAt = Date.now();
+  await saveJob(job);
+
+  pump(state);
+  return job;
+}
+
+// The original upload of an item as a data URL
+export async function readJobImage(job: Job, item: JobItem): Promise<string> {
+  const buffer = await loadJobImage(job.id, item.index);
+  return `data:${item.mimeType};base64,${buffer.toString("base64")}`;
+}
@@ -0,0 +1,109 @@
+import { mkdir, readdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { env } from "~/env";
+import { type AnalysisStage, type LogAnalysisResult } from "~/server/analysis/logSection";
+import { type AnalysisOptions } from "~/server/analysis/options";
+
+export type JobStatus = "queued" | "running" | "completed" | "cancelled";
+export type JobItemStatus = "queued" | "running" | "success" | "error" | "cancelled";
+
+export interface JobItem {
+  index: number;
+  filename: string;
+  mimeType: string;
+  heightMm?: number; // Manual heights, as given when the job was created
+  sectionHeightsMm?: number[];
+  status: JobItemStatus;
+  error?: { stage: AnalysisStage; message: string };
+  finishedAt?: number;
+}
+
+export interface Job {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  status: JobStatus;
+  options: AnalysisOptions;
+  items: JobItem[];
+  saveError?: string; // Why the queue last failed to write the job, so its stored state may be stale
+}
+
+// Each job gets a directory holding job.json, the uploaded images and one result file per image
+const jobsDir = () => path.join(env.DATA_DIR, "jobs");
+const jobDir = (jobId: string) => path.join(jobsDir(), jobId);
+const imagePath = (jobId: string, index: number) =>
+  path.join(jobDir(jobId), "images", String(index));
+const resultPath = (jobId: string, index: number) =>
+  path.join(jobDir(jobId), "results", `${index}.json`);
+
+// Write through a temporary file so a crash never leaves a half-written file behind
+export async function writeFileAtomic(file: string, data: string | Buffer) {
+  await mkdir(path.dirname(file), { recursive: true });
+  const tempFile = `${file}.tmp`;
+  await writeFile(tempFile, data);
+  await rename(tempFile, file);
+}
+
+// Split a base64 data URL into its MIME type and bytes
+export function decodeDataUrl(data: string) {
+  const match = /^data:(image\/[\w.+-]+);base64,/.exec(data);
+  return {
+    mimeType: match?.[1] ?? "image/png",
+    buffer: Buffer.from(data.slice(match?.[0].length ?? 0), "base64"),
+  };
+}
+
+// Writes to the same job are chained so an older snapshot can never overwrite a newer one. Shared
+// through globalThis like the job queue itself.
+const globalForJobStore = globalThis as unknown as {
+  pendingJobWrites: Map<string, Promise<void>> | undefined;
+};
+const pendingWrites = (globalForJobStore.pendingJobWrites ??= new Map<string, Promise<void>>());
+
+export function saveJob(job: Job): Promise<void> {
+  const snapshot = JSON.stringify(job);
+  const write = (pendingWrites.get(job.id) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(() => writeFileAtomic(path.join(jobDir(job.id), "job.json"), snapshot));
+  pendingWrites.set(job.id, write);
+  return write;
+}
+
+export async function loadJobs(): Promise<Job[]> {
+  let jobIds: string[];
+  try {
+    jobIds = await readdir(jobsDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const jobs: Job[] = [];
+  for (const jobId of jobIds) {
+    try {
+      const data = await readFile(path.join(jobDir(jobId), "job.json"), "utf8");
+      jobs.push(JSON.parse(data) as Job);
+    } catch (error) {
+      console.error(`Error loading job ${jobId}:`, error);
+    }
+  }
+  return jobs;
+}
+
+export function saveJobImage(jobId: string, index: number, buffer: Buffer) {
+  return writeFileAtomic(imagePath(jobId, index), buffer);
+}
+
+export function loadJobImage(jobId: string, index: number): Promise<Buffer> {
+  return readFile(imagePath(jobId, index));
+}
+
+export function saveJobResult(jobId: string, index: number, sections: LogAnalysisResult[]) {
+  return writeFileAtomic(resultPath(jobId, index), JSON.stringify(sections));
+}
+
+export async function loadJobResult(jobId: string, index: number): Promise<LogAnalysisResult[]> {
+  const data = await readFile(resultPath(jobId, index), "utf8");
+  return JSON.parse(data) as LogAnalysisResult[];
+}
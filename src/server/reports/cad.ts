@@ -0,0 +1,237 @@
+import JSZip from "jszip";
+import { z } from "zod";
+import { type LogAnalysisResult } from "~/server/analysis/logSection";
+import { type Point } from "~/server/analysis/polygon";
+
+export const cadFormatSchema = z.enum(["dxf", "svg"]);
+// Where 0,0 goes: the section's centroid, the lower-left corner of its bounding box, or the
+// top-left corner of the photo
+export const cadOriginSchema = z.enum(["centroid", "bbox", "image"]);
+
+export type CadFormat = z.infer<typeof cadFormatSchema>;
+export type CadOrigin = z.infer<typeof cadOriginSchema>;
+
+// DXF layers with their AutoCAD colour numbers
+const LAYERS = {
+  SECTION: 7, // White / black
+  VOIDS: 4, // Cyan
+  CENTROID: 1, // Red
+  AXES: 5, // Blue
+  PRINCIPAL_AXES: 3, // Green
+} as const;
+
+type Layer = keyof typeof LAYERS;
+
+// Axes reach this far past the section on each side, as a share of its size
+const AXIS_OVERHANG = 0.1;
+const CENTROID_RADIUS_MM = 2;
+const SVG_MARGIN_MM = 5;
+
+const MIME_TYPES: Record<CadFormat, string> = {
+  dxf: "application/dxf",
+  svg: "image/svg+xml",
+};
+
+// The section in drawing coordinates: millimetres from the chosen origin with y pointing up
+interface Drawing {
+  outer: Point[];
+  holes: Point[][];
+  centroid: Point;
+  bounds: { minX: number; minY: number; maxX: number; maxY: number };
+  principalAngleRad: number;
+}
+
+function toDrawing(result: LogAnalysisResult, origin: CadOrigin): Drawing {
+  if (!result.outline_mm) {
+    throw new Error(`${result.filename} has no outline; analyse the image again to export it`);
+  }
+  const { outer, holes } = result.outline_mm;
+  const xs = outer.map((point) => point.x);
+  const ys = outer.map((point) => point.y);
+  const imageBounds = {
+    minX: Math.min(...xs),
+    minY: Math.min(...ys),
+    maxX: Math.max(...xs),
+    maxY: Math.max(...ys),
+  };
+
+  // Image y points down, so the lower-left corner is the largest y
+  const originPoint =
+    origin === "centroid"
+      ? { x: result.centroid_x_mm, y: result.centroid_y_mm }
+      : origin === "bbox"
+        ? { x: imageBounds.minX, y: imageBounds.maxY }
+        : { x: 0, y: 0 };
+  const transform = (point: Point): Point => ({
+    x: point.x - originPoint.x,
+    y: originPoint.y - point.y,
+  });
+
+  return {
+    outer: outer.map(transform),
+    holes: holes.map((hole) => hole.map(transform)),
+    centroid: transform({ x: result.centroid_x_mm, y: result.centroid_y_mm }),
+    bounds: {
+      minX: imageBounds.minX - originPoint.x,
+      minY: originPoint.y - imageBounds.maxY,
+      maxX: imageBounds.maxX - originPoint.x,
+      maxY: originPoint.y - imageBounds.minY,
+    },
+    principalAngleRad: (result.principal_angle_deg * Math.PI) / 180,
+  };
+}
+
+// Centroidal x and y axes, and the principal axes, as line segments
+function axisLines(drawing: Drawing) {
+  const { centroid, bounds, principalAngleRad } = drawing;
+  const overhangX = (bounds.maxX - bounds.minX) * AXIS_OVERHANG;
+  const overhangY = (bounds.maxY - bounds.minY) * AXIS_OVERHANG;
+  const halfDiagonal = Math.hypot(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) / 2;
+
+  const axes: [Point, Point][] = [
+    [
+      { x: bounds.minX - overhangX, y: centroid.y },
+      { x: bounds.maxX + overhangX, y: centroid.y },
+    ],
+    [
+      { x: centroid.x, y: bounds.minY - overhangY },
+      { x: centroid.x, y: bounds.maxY + overhangY },
+    ],
+  ];
+  const principal: [Point, Point][] = [principalAngleRad, principalAngleRad + Math.PI / 2].map(
+    (angle) => {
+      const dx = Math.cos(angle) * halfDiagonal;
+      const dy = Math.sin(angle) * halfDiagonal;
+      return [
+        { x: centroid.x - dx, y: centroid.y - dy },
+        { x: centroid.x + dx, y: centroid.y + dy },
+      ];
+    },
+  );
+  return { axes, principal };
+}
+
+const format = (value: number) => value.toFixed(4);
+
+/**
+ * AutoCAD R12 ASCII DXF of the section in millimetres: the outline as a closed polyline on the
+ * SECTION layer, voids on VOIDS, and the centroid, centroidal axes and principal axes on their
+ * own layers. R12 needs no entity handles, so every CAD package reads it.
+ */
+export function buildDxf(result: LogAnalysisResult, origin: CadOrigin): string {
+  const drawing = toDrawing(result, origin);
+  const codes: (string | number)[] = [];
+  const add = (...pairs: (string | number)[]) => codes.push(...pairs);
+
+  add(0, "SECTION", 2, "HEADER", 9, "$ACADVER", 1, "AC1009", 9, "$INSUNITS", 70, 4);
+  add(9, "$EXTMIN", 10, format(drawing.bounds.minX), 20, format(drawing.bounds.minY), 30, 0);
+  add(9, "$EXTMAX", 10, format(drawing.bounds.maxX), 20, format(drawing.bounds.maxY), 30, 0);
+  add(0, "ENDSEC");
+
+  add(0, "SECTION", 2, "TABLES", 0, "TABLE", 2, "LAYER", 70, Object.keys(LAYERS).length);
+  for (const [name, colour] of Object.entries(LAYERS)) {
+    add(0, "LAYER", 2, name, 70, 0, 62, colour, 6, "CONTINUOUS");
+  }
+  add(0, "ENDTAB", 0, "ENDSEC");
+
+  add(0, "SECTION", 2, "ENTITIES");
+  const polyline = (layer: Layer, points: Point[]) => {
+    add(0, "POLYLINE", 8, layer, 66, 1, 10, 0, 20, 0, 30, 0, 70, 1);
+    for (const point of points) {
+      add(0, "VERTEX", 8, layer, 10, format(point.x), 20, format(point.y), 30, 0);
+    }
+    add(0, "SEQEND", 8, layer);
+  };
+  const line = (layer: Layer, [start, end]: [Point, Point]) =>
+    add(0, "LINE", 8, layer, 10, format(start.x), 20, format(start.y), 30, 0, 11, format(end.x), 21, format(end.y), 31, 0);
+
+  polyline("SECTION", drawing.outer);
+  drawing.holes.forEach((hole) => polyline("VOIDS", hole));
+  const { axes, principal } = axisLines(drawing);
+  axes.forEach((axis) => line("AXES", axis));
+  principal.forEach((axis) => line("PRINCIPAL_AXES", axis));
+  add(0, "POINT", 8, "CENTROID", 10, format(drawing.centroid.x), 20, format(drawing.centroid.y), 30, 0);
+  add(0, "CIRCLE", 8, "CENTROID", 10, format(drawing.centroid.x), 20, format(drawing.centroid.y), 30, 0, 40, CENTROID_RADIUS_MM);
+  add(0, "ENDSEC", 0, "EOF");
+
+  // Group codes are right-aligned to three characters by convention
+  const lines: string[] = [];
+  for (let i = 0; i < codes.length; i += 2) {
+    lines.push(String(codes[i]).padStart(3), String(codes[i + 1]));
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * SVG of the section at 1 user unit per millimetre, in the same coordinates as the DXF. The y axis
+ * is flipped so the drawing reads the same way up as the photo, and each layer is a named group.
+ */
+export function buildSvg(result: LogAnalysisResult, origin: CadOrigin): string {
+  const drawing = toDrawing(result, origin);
+  const { axes, principal } = axisLines(drawing);
+  const { bounds } = drawing;
+
+  const ring = (points: Point[]) =>
+    `M ${points.map((point) => `${format(point.x)} ${format(point.y)}`).join(" L ")} Z`;
+  const line = ([start, end]: [Point, Point]) =>
+    `<line x1="${format(start.x)}" y1="${format(start.y)}" x2="${format(end.x)}" y2="${format(end.y)}"/>`;
+
+  // Axes overhang the section, so the margin covers them too
+  const minX = bounds.minX - (bounds.maxX - bounds.minX) * AXIS_OVERHANG - SVG_MARGIN_MM;
+  const maxX = bounds.maxX + (bounds.maxX - bounds.minX) * AXIS_OVERHANG + SVG_MARGIN_MM;
+  const minY = bounds.minY - (bounds.maxY - bounds.minY) * AXIS_OVERHANG - SVG_MARGIN_MM;
+  const maxY = bounds.maxY + (bounds.maxY - bounds.minY) * AXIS_OVERHANG + SVG_MARGIN_MM;
+  const width = maxX - minX;
+  const height = maxY - minY;
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${format(width)}mm" height="${format(height)}mm" viewBox="${format(minX)} ${format(-maxY)} ${format(width)} ${format(height)}">`,
+    `  <title>${escapeXml(result.filename)}</title>`,
+    `  <g transform="scale(1,-1)">`,
+    `    <g id="section"><path d="${[drawing.outer, ...drawing.holes].map(ring).join(" ")}" fill="#DEB887" fill-rule="evenodd" stroke="#000000" stroke-width="0.5"/></g>`,
+    `    <g id="axes" stroke="#0000FF" stroke-width="0.3" stroke-dasharray="4 2">${axes.map(line).join("")}</g>`,
+    `    <g id="principal-axes" stroke="#00AA00" stroke-width="0.3" stroke-dasharray="4 2">${principal.map(line).join("")}</g>`,
+    `    <g id="centroid"><circle cx="${format(drawing.centroid.x)}" cy="${format(drawing.centroid.y)}" r="${CENTROID_RADIUS_MM}" fill="#FF0000"/></g>`,
+    `  </g>`,
+    `</svg>`,
+    "",
+  ].join("\n");
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// "log12.png" section 2 of 3 becomes "log12_section2"
+function cadBasename(result: LogAnalysisResult): string {
+  const base = result.source_filename.replace(/\.[^.]+$/, "").replace(/[^\w.-]+/g, "_");
+  return result.section_count > 1 ? `${base}_section${result.section_number}` : base;
+}
+
+/** One section as a DXF or SVG file. */
+export function buildCadFile(result: LogAnalysisResult, cadFormat: CadFormat, origin: CadOrigin) {
+  return {
+    filename: `${cadBasename(result)}.${cadFormat}`,
+    mimeType: MIME_TYPES[cadFormat],
+    data: cadFormat === "dxf" ? buildDxf(result, origin) : buildSvg(result, origin),
+  };
+}
+
+/** Every section of a batch as both DXF and SVG, in one zip. */
+export async function buildCadZip(results: LogAnalysisResult[], origin: CadOrigin): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const result of results) {
+    for (const cadFormat of cadFormatSchema.options) {
+      const file = buildCadFile(result, cadFormat, origin);
+      zip.file(`${cadFormat}/${file.filename}`, file.data);
+    }
+  }
+
+  console.log("Built CAD zip:", { sections: results.length, origin });
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
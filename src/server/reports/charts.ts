@@ -0,0 +1,73 @@
+import { createCanvas } from "canvas";
+
+const CHART_WIDTH = 480;
+const CHART_HEIGHT = 300;
+const CHART_PADDING = { top: 36, right: 20, bottom: 44, left: 48 };
+const MAX_BINS = 20;
+
+// Compact labels for values spanning many orders of magnitude
+const formatValue = (value: number) =>
+  Math.abs(value) >= 1e4 ? value.toExponential(2) : Number(value.toPrecision(4)).toString();
+
+/**
+ * Histogram of one property over all sections as a PNG, with about √n bins between the smallest
+ * and largest value. Identical values all fall in a single bin.
+ */
+export function renderHistogram(title: string, values: number[]): Buffer {
+  const canvas = createCanvas(CHART_WIDTH, CHART_HEIGHT);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, CHART_WIDTH, CHART_HEIGHT);
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const binCount = max > min ? Math.min(MAX_BINS, Math.max(1, Math.ceil(Math.sqrt(values.length)))) : 1;
+  const binWidth = (max - min) / binCount;
+  const counts = new Array<number>(binCount).fill(0);
+  for (const value of values) {
+    const bin = binWidth > 0 ? Math.min(binCount - 1, Math.floor((value - min) / binWidth)) : 0;
+    counts[bin]!++;
+  }
+  const maxCount = Math.max(...counts, 1);
+
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const barWidth = plotWidth / binCount;
+
+  ctx.fillStyle = '#3B82F6'; // Blue
+  counts.forEach((count, i) => {
+    const barHeight = (count / maxCount) * plotHeight;
+    ctx.fillRect(
+      CHART_PADDING.left + i * barWidth + 1,
+      CHART_PADDING.top + plotHeight - barHeight,
+      Math.max(1, barWidth - 2),
+      barHeight,
+    );
+  });
+
+  // Axes
+  ctx.strokeStyle = '#6B7280';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(CHART_PADDING.left, CHART_PADDING.top);
+  ctx.lineTo(CHART_PADDING.left, CHART_PADDING.top + plotHeight);
+  ctx.lineTo(CHART_PADDING.left + plotWidth, CHART_PADDING.top + plotHeight);
+  ctx.stroke();
+
+  ctx.fillStyle = '#111827';
+  ctx.font = 'bold 16px Arial';
+  ctx.textAlign = 'center';
+  ctx.fillText(title, CHART_WIDTH / 2, 22);
+
+  ctx.font = '12px Arial';
+  ctx.textAlign = 'left';
+  ctx.fillText(formatValue(min), CHART_PADDING.left, CHART_HEIGHT - 24);
+  ctx.textAlign = 'right';
+  ctx.fillText(formatValue(max), CHART_PADDING.left + plotWidth, CHART_HEIGHT - 24);
+  ctx.fillText(String(maxCount), CHART_PADDING.left - 6, CHART_PADDING.top + 10);
+  ctx.fillText('0', CHART_PADDING.left - 6, CHART_PADDING.top + plotHeight);
+  ctx.textAlign = 'center';
+  ctx.fillText(`${values.length} sections`, CHART_WIDTH / 2, CHART_HEIGHT - 8);
+
+  return canvas.toBuffer('image/png');
+}
@@ -0,0 +1,417 @@
+import { createCanvas, Image, type CanvasRenderingContext2D } from "canvas";
+import { type LogAnalysisResult } from "~/server/analysis/logSection";
+import { type DesignCheck } from "~/server/analysis/design";
+import {
+  buildReportRows,
+  propertyStatistics,
+  type ReportInput,
+  type ReportRow,
+} from "~/server/reports/workbook";
+
+// A4 portrait in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const LINE_HEIGHT = 13;
+const IMAGE_BOX_HEIGHT = 260;
+const COLUMN_GAP = 20;
+
+// Properties shown on the cover page's statistics table
+const COVER_STATISTICS = [
+  "Area (mm²)",
+  "Equivalent Diameter (mm)",
+  "Ixx (mm⁴)",
+  "Iyy (mm⁴)",
+  "Section Modulus (mm³)",
+  "Ovality",
+];
+
+const HEIGHT_SOURCE_LABELS: Record<LogAnalysisResult["height_source"], string> = {
+  openai: "read from the label by OpenAI vision",
+  tesseract: "read from the label by Tesseract OCR",
+  manual: "entered by hand",
+  measured: "measured off the calibrated image",
+  imported: "taken from the imported drawing",
+};
+
+// One line of a properties table, or a group heading when it has no value
+interface TableLine {
+  label: string;
+  value?: string;
+  unit?: string;
+}
+
+// Thousands separators for large values, four significant figures for small ones
+function formatNumber(value: number): string {
+  if (!Number.isFinite(value)) return "-";
+  if (Math.abs(value) >= 1000) {
+    return value.toLocaleString("en-US", { maximumFractionDigits: 0 });
+  }
+  return Number(value.toPrecision(4)).toString();
+}
+
+// Cut text down with an ellipsis until it fits
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && ctx.measureText(`${fitted}…`).width > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}…`;
+}
+
+function calibrationText(result: LogAnalysisResult): string {
+  const scale = `${result.scale_mm_per_px.toPrecision(4)} mm/px`;
+  return result.calibration_source === "reference"
+    ? `Scale ${scale} from a reference marker of known size`
+    : `Scale ${scale} from the section height of ${formatNumber(result.detected_height_mm)} mm`;
+}
+
+function heightText(result: LogAnalysisResult): string {
+  const fallback = result.height_fallback ? `; chosen extractor passed over (${result.height_fallback})` : "";
+  return `Height ${formatNumber(result.detected_height_mm)} mm, ${HEIGHT_SOURCE_LABELS[result.height_source]} (confidence ${(result.height_confidence * 100).toFixed(0)}%)${fallback}`;
+}
+
+// The properties of one section, grouped, with the optional groups only when they were computed
+function propertyLines(row: ReportRow): TableLine[] {
+  const { result, check } = row;
+  const line = (label: string, value: number, unit = ""): TableLine => ({
+    label,
+    value: formatNumber(value),
+    unit,
+  });
+
+  const lines: TableLine[] = [
+    { label: "Geometry" },
+    line("Net area A", result.area_mm2, "mm²"),
+    line("Gross area", result.gross_area_mm2, "mm²"),
+    line(`Void area (${result.void_count} voids)`, result.void_area_mm2, "mm²"),
+    line("Centroid x", result.centroid_x_mm, "mm"),
+    line("Centroid y", result.centroid_y_mm, "mm"),
+    line("Equivalent diameter", result.equivalent_diameter_mm, "mm"),
+    line("Feret diameter min", result.feret_min_mm, "mm"),
+    line("Feret diameter max", result.feret_max_mm, "mm"),
+    line("Ovality", result.ovality_ratio),
+    { label: "Elastic properties" },
+    line("Ixx", result.Ixx_mm4, "mm⁴"),
+    line("Iyy", result.Iyy_mm4, "mm⁴"),
+    line("Ixy", result.Ixy_mm4, "mm⁴"),
+    line("Polar moment J", result.J_mm4, "mm⁴"),
+    line("I1 (major)", result.I1_mm4, "mm⁴"),
+    line("I2 (minor)", result.I2_mm4, "mm⁴"),
+    line("Principal angle", result.principal_angle_deg, "°"),
+    line("rx", result.rx_mm, "mm"),
+    line("ry", result.ry_mm, "mm"),
+    line("Zx top", result.Zx_top_mm3, "mm³"),
+    line("Zx bottom", result.Zx_bottom_mm3, "mm³"),
+    line("Zy left", result.Zy_left_mm3, "mm³"),
+    line("Zy right", result.Zy_right_mm3, "mm³"),
+    line("Section modulus Z (governing)", result.section_modulus_mm3, "mm³"),
+    { label: "Plastic properties" },
+    line("Zpx", result.plastic_modulus_x_mm3, "mm³"),
+    line("Zpy", result.plastic_modulus_y_mm3, "mm³"),
+    line("Shape factor x", result.shape_factor_x),
+    line("Shape factor y", result.shape_factor_y),
+    { label: "Shear properties" },
+    line("Qx", result.Q_x_mm3, "mm³"),
+    line("Qy", result.Q_y_mm3, "mm³"),
+    line("Width at x-axis", result.shear_width_x_mm, "mm"),
+    line("Height at y-axis", result.shear_width_y_mm, "mm"),
+    line("Shear area x", result.shear_area_x_mm2, "mm²"),
+    line("Shear area y", result.shear_area_y_mm2, "mm²"),
+  ];
+
+  if (result.decay_regions.some((region) => region.accepted)) {
+    lines.push(
+      { label: "Sound wood" },
+      line("Sound area", result.sound_area_mm2, "mm²"),
+      line("Sound Ixx", result.sound_Ixx_mm4, "mm⁴"),
+      line("Sound section modulus", result.sound_section_modulus_mm3, "mm³"),
+      line("Decay", result.decay_percent, "%"),
+    );
+  }
+  if (result.torsion) {
+    lines.push(
+      { label: "Torsion" },
+      line("Torsion constant", result.torsion.torsion_constant_mm4, "mm⁴"),
+      line("Torsion modulus", result.torsion.torsion_modulus_mm3, "mm³"),
+      line("Shear centre x", result.torsion.shear_centre_x_mm, "mm"),
+      line("Shear centre y", result.torsion.shear_centre_y_mm, "mm"),
+      {
+        label: "Solver",
+        value: result.torsion.converged ? "converged" : "not converged",
+        unit: `±${result.torsion.grid_change_percent.toFixed(1)}%`,
+      },
+    );
+  }
+  if (check) lines.push(...designLines(check));
+  return lines;
+}
+
+function designLines(check: DesignCheck): TableLine[] {
+  const utilisation = (value: number) => `${(value * 100).toFixed(0)}%`;
+  return [
+    { label: `Beam check, grade ${check.grade}` },
+    {
+      label: "Moment / capacity",
+      value: `${check.moment_kNm.toFixed(2)} / ${check.moment_capacity_kNm.toFixed(2)}`,
+      unit: `kNm ${utilisation(check.bending_utilisation)}`,
+    },
+    {
+      label: "Shear / capacity",
+      value: `${check.shear_kN.toFixed(2)} / ${check.shear_capacity_kN.toFixed(2)}`,
+      unit: `kN ${utilisation(check.shear_utilisation)}`,
+    },
+    {
+      label: "Deflection / limit",
+      value: `${check.deflection_mm.toFixed(1)} / ${check.deflection_limit_mm.toFixed(1)}`,
+      unit: `mm ${utilisation(check.deflection_utilisation)}`,
+    },
+    { label: "Result", value: check.passes ? "PASS" : "FAIL" },
+  ];
+}
+
+function drawPageFooter(ctx: CanvasRenderingContext2D, label: string, page: number) {
+  ctx.font = '8px Arial';
+  ctx.fillStyle = '#6B7280';
+  ctx.textAlign = 'left';
+  ctx.fillText(label, MARGIN, PAGE_HEIGHT - 20);
+  ctx.textAlign = 'right';
+  ctx.fillText(`Page ${page}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 20);
+  ctx.textAlign = 'left';
+}
+
+// Draw the annotated image as large as fits the box, keeping its aspect ratio
+function drawImage(ctx: CanvasRenderingContext2D, dataUrl: string, top: number): number {
+  const img = new Image();
+  img.src = Buffer.from(dataUrl.slice(dataUrl.indexOf(",") + 1), "base64");
+  const factor = Math.min(CONTENT_WIDTH / img.width, IMAGE_BOX_HEIGHT / img.height);
+  const width = img.width * factor;
+  const height = img.height * factor;
+  ctx.drawImage(img, MARGIN + (CONTENT_WIDTH - width) / 2, top, width, height);
+  ctx.strokeStyle = '#D1D5DB';
+  ctx.lineWidth = 0.5;
+  ctx.strokeRect(MARGIN + (CONTENT_WIDTH - width) / 2, top, width, height);
+  return top + height;
+}
+
+/**
+ * A document that adds pages to one PDF canvas, numbering them as it goes. The first page exists
+ * from the start.
+ */
+function createDocument() {
+  const canvas = createCanvas(PAGE_WIDTH, PAGE_HEIGHT, 'pdf');
+  const ctx = canvas.getContext('2d');
+  let page = 1;
+  let started = false;
+  return {
+    canvas,
+    ctx,
+    // Start a new page, unless nothing has been drawn yet
+    newPage() {
+      if (started) {
+        ctx.addPage(PAGE_WIDTH, PAGE_HEIGHT);
+        page++;
+      }
+      started = true;
+      return page;
+    },
+  };
+}
+
+type PdfDocument = ReturnType<typeof createDocument>;
+
+// Properties in two columns below the given position, carried on to further pages as needed
+function drawPropertyTable(pdf: PdfDocument, lines: TableLine[], top: number, footer: string) {
+  const { ctx } = pdf;
+  const columnWidth = (CONTENT_WIDTH - COLUMN_GAP) / 2;
+  const bottom = PAGE_HEIGHT - MARGIN - 10;
+  let pageTop = top;
+  let column = 0;
+  let y = top;
+
+  for (const line of lines) {
+    // A heading never ends a column
+    const needed = line.value === undefined ? LINE_HEIGHT * 2.5 : LINE_HEIGHT;
+    if (y + needed > bottom) {
+      if (column === 0) {
+        column = 1;
+      } else {
+        drawPageFooter(ctx, footer, pdf.newPage());
+        pageTop = MARGIN;
+        column = 0;
+      }
+      y = pageTop;
+    }
+
+    const x = MARGIN + column * (columnWidth + COLUMN_GAP);
+    if (line.value === undefined) {
+      y += LINE_HEIGHT * 0.5;
+      ctx.font = 'bold 10px Arial';
+      ctx.fillStyle = '#111827';
+      ctx.fillText(line.label, x, y + 9);
+      ctx.strokeStyle = '#9CA3AF';
+      ctx.lineWidth = 0.5;
+      ctx.beginPath();
+      ctx.moveTo(x, y + LINE_HEIGHT);
+      ctx.lineTo(x + columnWidth, y + LINE_HEIGHT);
+      ctx.stroke();
+      y += LINE_HEIGHT + 2;
+      continue;
+    }
+
+    ctx.font = '9px Arial';
+    ctx.fillStyle = '#111827';
+    ctx.textAlign = 'left';
+    ctx.fillText(fitText(ctx, line.label, columnWidth * 0.5), x, y + 9);
+    ctx.textAlign = 'right';
+    ctx.fillText(line.value, x + columnWidth * 0.8, y + 9);
+    ctx.textAlign = 'left';
+    ctx.fillStyle = '#4B5563';
+    ctx.fillText(line.unit ?? "", x + columnWidth * 0.82, y + 9);
+    y += LINE_HEIGHT;
+  }
+}
+
+// A calculation sheet for one section: header, annotated image, calibration and properties
+function drawSectionPages(pdf: PdfDocument, row: ReportRow) {
+  const { ctx } = pdf;
+  const { result } = row;
+  const footer = `${result.filename} — log section calculation sheet`;
+  drawPageFooter(ctx, footer, pdf.newPage());
+
+  ctx.fillStyle = '#111827';
+  ctx.textAlign = 'left';
+  ctx.font = 'bold 16px Arial';
+  ctx.fillText(fitText(ctx, `Section properties: ${result.filename}`, CONTENT_WIDTH), MARGIN, MARGIN + 12);
+  ctx.font = '9px Arial';
+  ctx.fillStyle = '#4B5563';
+  const subtitle = [
+    `Section ${result.section_number} of ${result.section_count} on ${result.source_filename}`,
+    row.logId ? `log ${row.logId}${row.stationMm !== null ? ` at ${formatNumber(row.stationMm)} mm` : ""}` : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+  ctx.fillText(fitText(ctx, subtitle, CONTENT_WIDTH), MARGIN, MARGIN + 28);
+
+  let y = MARGIN + 40;
+  if (result.processed_image_data) {
+    y = drawImage(ctx, result.processed_image_data, y) + 16;
+  }
+
+  ctx.font = 'bold 10px Arial';
+  ctx.fillStyle = '#111827';
+  ctx.fillText("Calibration", MARGIN, y + 9);
+  ctx.font = '9px Arial';
+  ctx.fillText(calibrationText(result), MARGIN, y + 9 + LINE_HEIGHT);
+  ctx.fillText(heightText(result), MARGIN, y + 9 + 2 * LINE_HEIGHT);
+  ctx.fillText(
+    `Properties by ${result.property_method === "polygon" ? "integrating the sub-pixel contour (Green's theorem)" : "counting mask pixels"}`,
+    MARGIN,
+    y + 9 + 3 * LINE_HEIGHT,
+  );
+
+  drawPropertyTable(pdf, propertyLines(row), y + 4 * LINE_HEIGHT + 4, footer);
+}
+
+// Cover page of a batch: counts, how it was calibrated, statistics and a list of the sections
+function drawCoverPages(pdf: PdfDocument, rows: ReportRow[]) {
+  const { ctx } = pdf;
+  const footer = "Log section analysis — batch summary";
+  drawPageFooter(ctx, footer, pdf.newPage());
+
+  const images = new Set(rows.map(({ result }) => result.source_filename)).size;
+  const count = (predicate: (row: ReportRow) => boolean) => rows.filter(predicate).length;
+
+  ctx.fillStyle = '#111827';
+  ctx.font = 'bold 20px Arial';
+  ctx.fillText("Log Section Analysis Report", MARGIN, MARGIN + 16);
+  ctx.font = '10px Arial';
+  const summary = [
+    `Generated ${new Date().toISOString().slice(0, 16).replace("T", " ")} UTC`,
+    `${rows.length} sections from ${images} images`,
+    `Calibration: ${count(({ result }) => result.calibration_source === "height")} by section height, ${count(({ result }) => result.calibration_source === "reference")} by reference marker`,
+    `Heights: ${Object.entries(HEIGHT_SOURCE_LABELS)
+      .map(([source, label]) => [count(({ result }) => result.height_source === source), label] as const)
+      .filter(([n]) => n > 0)
+      .map(([n, label]) => `${n} ${label}`)
+      .join("; ")}`,
+  ];
+  const checked = rows.filter(({ check }) => check);
+  if (checked.length > 0) {
+    summary.push(
+      `Beam checks (grade ${checked[0]!.check!.grade}): ${count(({ check }) => check?.passes === true)} of ${checked.length} pass`,
+    );
+  }
+  summary.forEach((text, i) => ctx.fillText(fitText(ctx, text, CONTENT_WIDTH), MARGIN, MARGIN + 40 + i * 15));
+
+  // Statistics of the main properties
+  let y = MARGIN + 40 + summary.length * 15 + 16;
+  const statistics = propertyStatistics(rows).filter((row) => COVER_STATISTICS.includes(row.property));
+  const statColumns = [MARGIN, MARGIN + 180, MARGIN + 265, MARGIN + 350, MARGIN + 435];
+  ctx.font = 'bold 10px Arial';
+  ["Property", "Min", "Max", "Mean", "Std Dev"].forEach((header, i) =>
+    ctx.fillText(header, statColumns[i]!, y),
+  );
+  ctx.font = '9px Arial';
+  for (const row of statistics) {
+    y += LINE_HEIGHT;
+    [row.property, formatNumber(row.min), formatNumber(row.max), formatNumber(row.mean), formatNumber(row.std_dev)].forEach(
+      (text, i) => ctx.fillText(text, statColumns[i]!, y),
+    );
+  }
+
+  // One line per section, continuing on further pages
+  y += 2 * LINE_HEIGHT;
+  const listColumns = [MARGIN, MARGIN + 190, MARGIN + 270, MARGIN + 360, MARGIN + 450];
+  const drawListHeader = () => {
+    ctx.font = 'bold 10px Arial';
+    ["Section", "Area (mm²)", "Ixx (mm⁴)", "Z (mm³)", "Calibration"].forEach((header, i) =>
+      ctx.fillText(header, listColumns[i]!, y),
+    );
+    ctx.font = '9px Arial';
+  };
+  drawListHeader();
+  for (const { result } of rows) {
+    y += LINE_HEIGHT;
+    if (y > PAGE_HEIGHT - MARGIN - 10) {
+      drawPageFooter(ctx, footer, pdf.newPage());
+      y = MARGIN + 10;
+      drawListHeader();
+      y += LINE_HEIGHT;
+    }
+    ctx.fillText(fitText(ctx, result.filename, 180), listColumns[0]!, y);
+    ctx.fillText(formatNumber(result.area_mm2), listColumns[1]!, y);
+    ctx.fillText(formatNumber(result.Ixx_mm4), listColumns[2]!, y);
+    ctx.fillText(formatNumber(result.section_modulus_mm3), listColumns[3]!, y);
+    ctx.fillText(result.calibration_source, listColumns[4]!, y);
+  }
+}
+
+/** Printable calculation sheet of a single section. */
+export function buildSectionPdf(row: ReportRow): Buffer {
+  const pdf = createDocument();
+  drawSectionPages(pdf, row);
+  return pdf.canvas.toBuffer('application/pdf', {
+    title: `Section properties: ${row.result.filename}`,
+    creator: "Log Section Analyzer",
+  });
+}
+
+/**
+ * Printable report of a batch: a cover summary followed by a calculation sheet per section. Built
+ * from the analysis results alone, so it renders on the server without network access.
+ */
+export function buildBatchPdf(input: ReportInput): Buffer {
+  const rows = buildReportRows(input);
+  const pdf = createDocument();
+  drawCoverPages(pdf, rows);
+  rows.forEach((row) => drawSectionPages(pdf, row));
+
+  console.log("Built PDF report:", { sections: rows.length });
+  return pdf.canvas.toBuffer('application/pdf', {
+    title: "Log Section Analysis Report",
+    creator: "Log Section Analyzer",
+  });
+}
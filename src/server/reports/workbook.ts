@@ -0,0 +1,636 @@
+import ExcelJS from "exceljs";
+import { z } from "zod";
+import { heightSourceSchema } from "~/server/analysis/heightExtractors";
+import { type LogAnalysisResult } from "~/server/analysis/logSection";
+import { type SawnRectangle } from "~/server/analysis/sawing";
+import {
+  analyzeLogProfiles,
+  type LogProfile,
+  type LogStation,
+} from "~/server/analysis/logProfile";
+import {
+  checkSection,
+  designOptionsSchema,
+  soundDesignSection,
+  type DesignCheck,
+} from "~/server/analysis/design";
+import { renderHistogram } from "~/server/reports/charts";
+
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+
+const sawnRectangleSchema = z.object({
+  label: z.string(),
+  width_mm: z.number(),
+  depth_mm: z.number(),
+  area_mm2: z.number(),
+  section_modulus_mm3: z.number(),
+  recovery_percent: z.number(),
+  centre_x_mm: z.number(),
+  centre_y_mm: z.number(),
+  angle_deg: z.number(),
+  corners: z.array(pointSchema),
+});
+
+// Results come back from the client as the analysis produced them. The reports, drawings and saved
+// runs read every field, so all of them are checked here rather than failing deep inside a builder.
+export const analysisResultSchema: z.ZodType<LogAnalysisResult, z.ZodTypeDef, unknown> = z.object({
+  filename: z.string(),
+  source_filename: z.string(),
+  section_number: z.number().int().positive(),
+  section_count: z.number().int().positive(),
+  log_id: z.string().nullable(),
+  station_mm: z.number().nullable(),
+  area_mm2: z.number(),
+  centroid_x_mm: z.number(),
+  centroid_y_mm: z.number(),
+  Ixx_mm4: z.number(),
+  Iyy_mm4: z.number(),
+  Ixy_mm4: z.number(),
+  J_mm4: z.number(),
+  rx_mm: z.number(),
+  ry_mm: z.number(),
+  I1_mm4: z.number(),
+  I2_mm4: z.number(),
+  principal_angle_deg: z.number(),
+  section_modulus_mm3: z.number(),
+  Zx_top_mm3: z.number(),
+  Zx_bottom_mm3: z.number(),
+  Zy_left_mm3: z.number(),
+  Zy_right_mm3: z.number(),
+  c_top_mm: z.number(),
+  c_bottom_mm: z.number(),
+  c_left_mm: z.number(),
+  c_right_mm: z.number(),
+  plastic_modulus_x_mm3: z.number(),
+  plastic_modulus_y_mm3: z.number(),
+  plastic_axis_y_mm: z.number(),
+  plastic_axis_x_mm: z.number(),
+  shape_factor_x: z.number(),
+  shape_factor_y: z.number(),
+  gross_area_mm2: z.number(),
+  gross_Ixx_mm4: z.number(),
+  gross_Iyy_mm4: z.number(),
+  void_area_mm2: z.number(),
+  void_count: z.number().int().nonnegative(),
+  sound_area_mm2: z.number(),
+  sound_Ixx_mm4: z.number(),
+  sound_Iyy_mm4: z.number(),
+  sound_section_modulus_mm3: z.number(),
+  decay_area_mm2: z.number(),
+  decay_percent: z.number(),
+  decay_regions: z.array(
+    z.object({
+      id: z.number().int().nonnegative(),
+      area_mm2: z.number(),
+      colour_difference: z.number(),
+      texture_ratio: z.number(),
+      accepted: z.boolean(),
+      outline: z.array(pointSchema),
+    }),
+  ),
+  sawing: z
+    .object({
+      aspect_cut: sawnRectangleSchema.nullable(),
+      max_modulus_cut: sawnRectangleSchema.nullable(),
+      nominal_cut: sawnRectangleSchema.nullable(),
+      fitting_nominal_sizes: z.array(z.string()),
+    })
+    .nullable(),
+  Q_x_mm3: z.number(),
+  Q_y_mm3: z.number(),
+  shear_width_x_mm: z.number(),
+  shear_width_y_mm: z.number(),
+  shear_area_x_mm2: z.number(),
+  shear_area_y_mm2: z.number(),
+  torsion: z
+    .object({
+      torsion_constant_mm4: z.number(),
+      torsion_modulus_mm3: z.number(),
+      shear_centre_x_mm: z.number(),
+      shear_centre_y_mm: z.number(),
+      converged: z.boolean(),
+      residual: z.number(),
+      iterations: z.number().int().nonnegative(),
+      grid_change_percent: z.number(),
+      stress_image_data: z.string().nullable(),
+    })
+    .nullable(),
+  equivalent_diameter_mm: z.number(),
+  feret_max_mm: z.number(),
+  feret_min_mm: z.number(),
+  ovality_ratio: z.number(),
+  convexity: z.number(),
+  solidity: z.number(),
+  ellipse_major_mm: z.number(),
+  ellipse_minor_mm: z.number(),
+  ellipse_angle_deg: z.number(),
+  eccentricity: z.number(),
+  enclosing_circle_diameter_mm: z.number(),
+  centroid_offset_bbox_mm: z.number(),
+  centroid_offset_ellipse_mm: z.number(),
+  detected_height_mm: z.number(),
+  height_source: heightSourceSchema,
+  height_confidence: z.number(),
+  height_fallback: z.string().optional(),
+  calibration_source: z.enum(["height", "reference"]),
+  scale_mm_per_px: z.number(),
+  property_method: z.enum(["raster", "polygon"]),
+  raster_area_mm2: z.number().nullable(),
+  raster_Ixx_mm4: z.number().nullable(),
+  raster_Iyy_mm4: z.number().nullable(),
+  polygon_area_mm2: z.number(),
+  polygon_Ixx_mm4: z.number(),
+  polygon_Iyy_mm4: z.number(),
+  outline_mm: z
+    .object({
+      outer: z.array(pointSchema),
+      holes: z.array(z.array(pointSchema)),
+    })
+    .optional(),
+  processed_image_data: z.string(),
+});
+
+// Log and station typed into the table, replacing what was read from the filename
+export const stationAssignmentSchema = z.object({
+  logId: z.string(),
+  stationMm: z.number().nonnegative().nullable(),
+});
+
+export const reportInputSchema = z.object({
+  results: z.array(analysisResultSchema).min(1),
+  stations: z.array(stationAssignmentSchema).optional(), // One per result, in the same order
+  design: designOptionsSchema.optional(), // Beam checks to include, when enabled
+});
+
+export type ReportInput = z.infer<typeof reportInputSchema>;
+
+// One section with everything the report says about it
+export interface ReportRow {
+  result: LogAnalysisResult;
+  logId: string | null;
+  stationMm: number | null;
+  check: DesignCheck | null;
+}
+
+type CellValue = string | number | null | undefined;
+
+interface ReportColumn {
+  header: string;
+  width: number;
+  value: (row: ReportRow) => CellValue;
+  statistics?: boolean; // Summarized on the summary sheet; on for numeric properties
+}
+
+type NumericKey = {
+  [K in keyof LogAnalysisResult]-?: LogAnalysisResult[K] extends number ? K : never;
+}[keyof LogAnalysisResult];
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+// A numeric property of the result, rounded for the sheet. Results stored by older versions may
+// not have it.
+const property = (header: string, key: NumericKey, width: number, digits = 2): ReportColumn => ({
+  header,
+  width,
+  value: ({ result }) => (typeof result[key] === "number" ? round(result[key], digits) : undefined),
+  statistics: true,
+});
+
+// A number that only some rows have, such as a sawn cut or a design check
+const optional = <T>(
+  header: string,
+  width: number,
+  get: (row: ReportRow) => T | null | undefined,
+  value: (item: T) => number,
+  digits = 2,
+): ReportColumn => ({
+  header,
+  width,
+  value: (row) => {
+    const item = get(row);
+    return item === null || item === undefined ? undefined : round(value(item), digits);
+  },
+  statistics: true,
+});
+
+// Sawn cuts as "width x depth" in whole millimetres
+const cutSize = (cut: SawnRectangle | null | undefined) =>
+  cut ? `${cut.width_mm.toFixed(0)}x${cut.depth_mm.toFixed(0)}` : undefined;
+
+// Worksheet names are limited to 31 characters without []:*?/\
+export const sheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, "_").slice(0, 31);
+
+// Internal hyperlink to the top of a sheet
+const sheetLink = (name: string) => `#'${name.replace(/'/g, "''")}'!A1`;
+
+export const REPORT_COLUMNS: ReportColumn[] = [
+  { header: "Filename", width: 20, value: ({ result }) => result.filename },
+  { header: "Log ID", width: 12, value: ({ logId }) => logId ?? undefined },
+  { header: "Station (mm)", width: 13, value: ({ stationMm }) => stationMm ?? undefined },
+  property("Height (mm)", "detected_height_mm", 12),
+  { header: "Height Source", width: 15, value: ({ result }) => result.height_source },
+  property("Height Confidence", "height_confidence", 18, 3),
+  { header: "Height Fallback", width: 30, value: ({ result }) => result.height_fallback },
+  { header: "Calibration", width: 12, value: ({ result }) => result.calibration_source },
+  property("Scale (mm/px)", "scale_mm_per_px", 14, 5),
+  property("Area (mm²)", "area_mm2", 15),
+  property("Centroid X (mm)", "centroid_x_mm", 15),
+  property("Centroid Y (mm)", "centroid_y_mm", 15),
+  property("Ixx (mm⁴)", "Ixx_mm4", 15),
+  property("Iyy (mm⁴)", "Iyy_mm4", 15),
+  property("Ixy (mm⁴)", "Ixy_mm4", 15),
+  property("J (mm⁴)", "J_mm4", 15),
+  property("rx (mm)", "rx_mm", 12),
+  property("ry (mm)", "ry_mm", 12),
+  property("I1 (mm⁴)", "I1_mm4", 15),
+  property("I2 (mm⁴)", "I2_mm4", 15),
+  property("Principal Angle (°)", "principal_angle_deg", 18),
+  property("Section Modulus (mm³)", "section_modulus_mm3", 20),
+  property("Zx Top (mm³)", "Zx_top_mm3", 15),
+  property("Zx Bottom (mm³)", "Zx_bottom_mm3", 15),
+  property("Zy Left (mm³)", "Zy_left_mm3", 15),
+  property("Zy Right (mm³)", "Zy_right_mm3", 15),
+  property("c Top (mm)", "c_top_mm", 12),
+  property("c Bottom (mm)", "c_bottom_mm", 12),
+  property("c Left (mm)", "c_left_mm", 12),
+  property("c Right (mm)", "c_right_mm", 12),
+  property("Zpx (mm³)", "plastic_modulus_x_mm3", 15),
+  property("Zpy (mm³)", "plastic_modulus_y_mm3", 15),
+  property("Shape Factor X", "shape_factor_x", 15, 3),
+  property("Shape Factor Y", "shape_factor_y", 15, 3),
+  property("Qx (mm³)", "Q_x_mm3", 15),
+  property("Qy (mm³)", "Q_y_mm3", 15),
+  property("Shear Width X (mm)", "shear_width_x_mm", 18),
+  property("Shear Width Y (mm)", "shear_width_y_mm", 18),
+  property("Shear Area X (mm²)", "shear_area_x_mm2", 18),
+  property("Shear Area Y (mm²)", "shear_area_y_mm2", 18),
+  property("Equivalent Diameter (mm)", "equivalent_diameter_mm", 22),
+  property("Feret Max (mm)", "feret_max_mm", 15),
+  property("Feret Min (mm)", "feret_min_mm", 15),
+  property("Ovality", "ovality_ratio", 10, 3),
+  property("Convexity", "convexity", 11, 3),
+  property("Solidity", "solidity", 10, 3),
+  property("Ellipse Major (mm)", "ellipse_major_mm", 17),
+  property("Ellipse Minor (mm)", "ellipse_minor_mm", 17),
+  property("Ellipse Angle (°)", "ellipse_angle_deg", 16),
+  property("Eccentricity", "eccentricity", 13, 3),
+  property("Enclosing Circle Diameter (mm)", "enclosing_circle_diameter_mm", 28),
+  property("Centroid Offset from Box Centre (mm)", "centroid_offset_bbox_mm", 32),
+  property("Centroid Offset from Ellipse Centre (mm)", "centroid_offset_ellipse_mm", 36),
+  property("Gross Area (mm²)", "gross_area_mm2", 15),
+  property("Gross Ixx (mm⁴)", "gross_Ixx_mm4", 15),
+  property("Gross Iyy (mm⁴)", "gross_Iyy_mm4", 15),
+  property("Void Area (mm²)", "void_area_mm2", 15),
+  property("Void Count", "void_count", 12, 0),
+  property("Sound Area (mm²)", "sound_area_mm2", 16),
+  property("Sound Ixx (mm⁴)", "sound_Ixx_mm4", 16),
+  property("Sound Iyy (mm⁴)", "sound_Iyy_mm4", 16),
+  property("Sound Section Modulus (mm³)", "sound_section_modulus_mm3", 26),
+  property("Decay Area (mm²)", "decay_area_mm2", 16),
+  property("Decay (%)", "decay_percent", 10),
+  {
+    header: "Decay Regions",
+    width: 14,
+    value: ({ result }) => result.decay_regions.filter((region) => region.accepted).length,
+  },
+  { header: "Sawn Cut (mm)", width: 14, value: ({ result }) => cutSize(result.sawing?.aspect_cut) },
+  optional("Sawn Recovery (%)", 17, ({ result }) => result.sawing?.aspect_cut, (cut) => cut.recovery_percent),
+  {
+    header: "Max Z Cut (mm)",
+    width: 15,
+    value: ({ result }) => cutSize(result.sawing?.max_modulus_cut),
+  },
+  optional(
+    "Max Z Cut Modulus (mm³)",
+    22,
+    ({ result }) => result.sawing?.max_modulus_cut,
+    (cut) => cut.section_modulus_mm3,
+  ),
+  optional("Max Z Recovery (%)", 18, ({ result }) => result.sawing?.max_modulus_cut, (cut) => cut.recovery_percent),
+  { header: "Nominal Cut", width: 12, value: ({ result }) => result.sawing?.nominal_cut?.label },
+  optional("Nominal Recovery (%)", 19, ({ result }) => result.sawing?.nominal_cut, (cut) => cut.recovery_percent),
+  optional("Torsion J (mm⁴)", 16, ({ result }) => result.torsion, (torsion) => torsion.torsion_constant_mm4),
+  optional("Torsion Modulus (mm³)", 20, ({ result }) => result.torsion, (torsion) => torsion.torsion_modulus_mm3),
+  optional("Shear Centre X (mm)", 18, ({ result }) => result.torsion, (torsion) => torsion.shear_centre_x_mm),
+  optional("Shear Centre Y (mm)", 18, ({ result }) => result.torsion, (torsion) => torsion.shear_centre_y_mm),
+  {
+    header: "Torsion Converged",
+    width: 17,
+    value: ({ result }) => result.torsion && (result.torsion.converged ? "Yes" : "No"),
+  },
+  optional(
+    "Torsion Grid Change (%)",
+    22,
+    ({ result }) => result.torsion,
+    (torsion) => torsion.grid_change_percent,
+  ),
+  { header: "Design Grade", width: 13, value: ({ check }) => check?.grade },
+  optional("Design Moment (kNm)", 20, ({ check }) => check, (check) => check.moment_kNm, 3),
+  optional("Moment Capacity (kNm)", 21, ({ check }) => check, (check) => check.moment_capacity_kNm, 3),
+  optional("Bending Utilisation", 19, ({ check }) => check, (check) => check.bending_utilisation, 3),
+  optional("Design Shear (kN)", 17, ({ check }) => check, (check) => check.shear_kN, 3),
+  optional("Shear Capacity (kN)", 19, ({ check }) => check, (check) => check.shear_capacity_kN, 3),
+  optional("Shear Utilisation", 17, ({ check }) => check, (check) => check.shear_utilisation, 3),
+  optional("Deflection (mm)", 15, ({ check }) => check, (check) => check.deflection_mm),
+  optional("Deflection Limit (mm)", 20, ({ check }) => check, (check) => check.deflection_limit_mm),
+  optional("Deflection Utilisation", 21, ({ check }) => check, (check) => check.deflection_utilisation, 3),
+  { header: "Design Check", width: 13, value: ({ check }) => check && (check.passes ? "PASS" : "FAIL") },
+  { header: "Method", width: 10, value: ({ result }) => result.property_method },
+  optional("Raster Area (mm²)", 17, ({ result }) => result.raster_area_mm2, (area) => area),
+  optional("Raster Ixx (mm⁴)", 17, ({ result }) => result.raster_Ixx_mm4, (Ixx) => Ixx),
+  optional("Raster Iyy (mm⁴)", 17, ({ result }) => result.raster_Iyy_mm4, (Iyy) => Iyy),
+  property("Polygon Area (mm²)", "polygon_area_mm2", 18),
+  property("Polygon Ixx (mm⁴)", "polygon_Ixx_mm4", 18),
+  property("Polygon Iyy (mm⁴)", "polygon_Iyy_mm4", 18),
+];
+
+// Properties charted on the summary sheet
+const CHARTED_PROPERTIES: [string, NumericKey][] = [
+  ["Area (mm²)", "area_mm2"],
+  ["Equivalent Diameter (mm)", "equivalent_diameter_mm"],
+  ["Ixx (mm⁴)", "Ixx_mm4"],
+  ["Iyy (mm⁴)", "Iyy_mm4"],
+  ["Section Modulus (mm³)", "section_modulus_mm3"],
+  ["Ovality", "ovality_ratio"],
+];
+
+// Largest size a processed image is shown at on its detail sheet
+const MAX_IMAGE_WIDTH = 800;
+const MAX_IMAGE_HEIGHT = 600;
+const CHART_SIZE = { width: 480, height: 300 };
+
+export interface PropertyStatistics {
+  property: string;
+  count: number; // Rows with a value
+  min: number;
+  max: number;
+  mean: number;
+  std_dev: number; // Sample standard deviation, 0 for a single value
+}
+
+/**
+ * Rows of the report: each result with its log and station (typed in or else read from the
+ * filename) and, when design options are given, its beam check on the sound-wood properties.
+ */
+export function buildReportRows(input: ReportInput): ReportRow[] {
+  return input.results.map((result, i) => {
+    const station = input.stations?.[i];
+    // A cleared Log ID cell takes the row off its log
+    const logId = station ? station.logId : (result.log_id ?? "");
+    return {
+      result,
+      logId: logId === "" ? null : logId,
+      stationMm: station ? station.stationMm : result.station_mm,
+      check: input.design
+        ? checkSection(soundDesignSection(result), input.design)
+        : null,
+    };
+  });
+}
+
+// Logs of the rows placed along one
+export function reportLogProfiles(rows: ReportRow[]): LogProfile[] {
+  const stations = rows.flatMap(({ result, logId, stationMm }): LogStation[] =>
+    logId && stationMm !== null
+      ? [
+          {
+            logId,
+            positionMm: stationMm,
+            label: result.filename,
+            area_mm2: result.area_mm2,
+            diameter_mm: result.equivalent_diameter_mm,
+            Ixx_mm4: result.Ixx_mm4,
+            section_modulus_mm3: result.section_modulus_mm3,
+          },
+        ]
+      : [],
+  );
+  return stations.length > 0 ? analyzeLogProfiles(stations) : [];
+}
+
+// Min, max, mean and standard deviation of every numeric column that has values
+export function propertyStatistics(rows: ReportRow[]): PropertyStatistics[] {
+  return REPORT_COLUMNS.filter((column) => column.statistics).flatMap((column) => {
+    const values = rows
+      .map((row) => column.value(row))
+      .filter((value): value is number => typeof value === "number" && Number.isFinite(value));
+    if (values.length === 0) return [];
+
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance =
+      values.length > 1
+        ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+        : 0;
+    return [
+      {
+        property: column.header,
+        count: values.length,
+        min: Math.min(...values),
+        max: Math.max(...values),
+        mean,
+        std_dev: Math.sqrt(variance),
+      },
+    ];
+  });
+}
+
+// Decode a data URL into its bytes
+function decodeDataUrl(dataUrl: string): Buffer {
+  return Buffer.from(dataUrl.slice(dataUrl.indexOf(",") + 1), "base64");
+}
+
+// Width and height from a PNG's header, or null for anything else
+function pngSize(buffer: Buffer): { width: number; height: number } | null {
+  const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  if (buffer.length < 24 || signature.some((byte, i) => buffer[i] !== byte)) return null;
+  return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+}
+
+// Shrink to fit the box, keeping the aspect ratio
+function fitImage(size: { width: number; height: number }) {
+  const factor = Math.min(1, MAX_IMAGE_WIDTH / size.width, MAX_IMAGE_HEIGHT / size.height);
+  return { width: Math.round(size.width * factor), height: Math.round(size.height * factor) };
+}
+
+function addSummarySheet(
+  workbook: ExcelJS.Workbook,
+  rows: ReportRow[],
+  detailSheets: Map<string, string>,
+) {
+  const sheet = workbook.addWorksheet("Summary");
+  sheet.getCell("A1").value = "Log Section Analysis";
+  sheet.getCell("A1").font = { bold: true, size: 16 };
+  sheet.addRows([
+    ["Generated", new Date().toISOString()],
+    ["Images", detailSheets.size],
+    ["Sections", rows.length],
+    [],
+  ]);
+
+  const header = sheet.addRow(["Property", "Count", "Min", "Max", "Mean", "Std Dev"]);
+  header.font = { bold: true };
+  for (const statistics of propertyStatistics(rows)) {
+    sheet.addRow([
+      statistics.property,
+      statistics.count,
+      statistics.min,
+      statistics.max,
+      round(statistics.mean, 4),
+      round(statistics.std_dev, 4),
+    ]);
+  }
+  sheet.getColumn(1).width = 38;
+  [2, 3, 4, 5, 6].forEach((column) => {
+    sheet.getColumn(column).width = 16;
+  });
+
+  // Distribution charts in two columns to the right of the statistics
+  CHARTED_PROPERTIES.forEach(([title, key], i) => {
+    const values = rows.map(({ result }) => result[key]).filter((value) => Number.isFinite(value));
+    if (values.length === 0) return;
+    const imageId = workbook.addImage({ buffer: renderHistogram(title, values), extension: "png" });
+    sheet.addImage(imageId, {
+      tl: { col: 7 + (i % 2) * 8, row: 1 + Math.floor(i / 2) * 16 },
+      ext: CHART_SIZE,
+    });
+  });
+}
+
+function addResultsSheet(
+  workbook: ExcelJS.Workbook,
+  rows: ReportRow[],
+  detailSheets: Map<string, string>,
+) {
+  const sheet = workbook.addWorksheet("Log Analysis Results");
+  sheet.columns = REPORT_COLUMNS.map((column) => ({ header: column.header, width: column.width }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: "frozen", xSplit: 1, ySplit: 1 }];
+
+  rows.forEach((row) => {
+    const added = sheet.addRow(REPORT_COLUMNS.map((column) => column.value(row)));
+    // Each filename opens the detail sheet of its image
+    const detail = detailSheets.get(row.result.source_filename);
+    if (detail) {
+      const cell = added.getCell(1);
+      cell.value = { text: row.result.filename, hyperlink: sheetLink(detail) };
+      cell.font = { color: { argb: "FF0563C1" }, underline: true };
+    }
+  });
+}
+
+// A sheet per log with its volume, taper and stations
+function addLogSheet(workbook: ExcelJS.Workbook, profile: LogProfile) {
+  const sheet = workbook.addWorksheet(sheetName(`Log ${profile.log_id}`));
+  sheet.addRows([
+    ["Log", profile.log_id],
+    ["Stations", profile.station_count],
+    ["Length (mm)", round(profile.length_mm, 1)],
+    ["Volume Smalian (m³)", round(profile.volume_smalian_m3, 5)],
+    ["Volume Huber (m³)", round(profile.volume_huber_m3, 5)],
+    ["Butt Diameter (mm)", round(profile.butt_diameter_mm)],
+    ["Top Diameter (mm)", round(profile.top_diameter_mm)],
+    ["Taper (mm/m)", round(profile.taper_mm_per_m)],
+    [],
+  ]);
+  const stationHeader = sheet.addRow([
+    "Station (mm)",
+    "Filename",
+    "Area (mm²)",
+    "Equivalent Diameter (mm)",
+    "Ixx (mm⁴)",
+    "Section Modulus (mm³)",
+  ]);
+  stationHeader.font = { bold: true };
+  profile.stations.forEach((station) => {
+    sheet.addRow([
+      station.position_mm,
+      station.label,
+      round(station.area_mm2),
+      round(station.diameter_mm),
+      round(station.Ixx_mm4),
+      round(station.section_modulus_mm3),
+    ]);
+  });
+  sheet.getColumn(1).font = { bold: true };
+  sheet.getColumn(1).width = 22;
+  sheet.getColumn(2).width = 20;
+  [3, 4, 5, 6].forEach((column) => {
+    sheet.getColumn(column).width = 22;
+  });
+}
+
+// Every property of the image's sections side by side, with the processed image beside them
+function addDetailSheet(
+  workbook: ExcelJS.Workbook,
+  name: string,
+  sourceFilename: string,
+  rows: ReportRow[],
+) {
+  const sheet = workbook.addWorksheet(name);
+  sheet.getCell("A1").value = sourceFilename;
+  sheet.getCell("A1").font = { bold: true, size: 14 };
+  sheet.getCell("A2").value = {
+    text: "Back to results",
+    hyperlink: sheetLink("Log Analysis Results"),
+  };
+  sheet.getCell("A2").font = { color: { argb: "FF0563C1" }, underline: true };
+
+  const header = sheet.getRow(4);
+  header.values = ["Property", ...rows.map(({ result }) => `Section ${result.section_number}`)];
+  header.font = { bold: true };
+  REPORT_COLUMNS.forEach((column, i) => {
+    sheet.getRow(5 + i).values = [column.header, ...rows.map((row) => column.value(row))];
+  });
+  sheet.getColumn(1).width = 38;
+  rows.forEach((_row, i) => {
+    sheet.getColumn(2 + i).width = 18;
+  });
+
+  // All sections of an image share one processed image
+  const imageData = rows[0]?.result.processed_image_data;
+  if (!imageData) return;
+  const buffer = decodeDataUrl(imageData);
+  const size = pngSize(buffer);
+  if (!size) {
+    console.warn(`Processed image of ${sourceFilename} is not a PNG, leaving it out of the report`);
+    return;
+  }
+  const imageId = workbook.addImage({ buffer, extension: "png" });
+  sheet.addImage(imageId, { tl: { col: rows.length + 2, row: 3 }, ext: fitImage(size) });
+}
+
+/**
+ * Excel report of a set of results: a summary sheet with statistics and distribution charts of the
+ * properties, every property of every section, a sheet per log, and a detail sheet per image with
+ * its processed image at its own aspect ratio, linked from the results.
+ */
+export async function buildWorkbook(input: ReportInput): Promise<Buffer> {
+  const rows = buildReportRows(input);
+
+  // Detail sheets are numbered so truncated filenames stay unique
+  const bySource = new Map<string, ReportRow[]>();
+  for (const row of rows) {
+    bySource.set(row.result.source_filename, [
+      ...(bySource.get(row.result.source_filename) ?? []),
+      row,
+    ]);
+  }
+  const detailSheets = new Map(
+    [...bySource.keys()].map((source, i) => [source, sheetName(`${i + 1} ${source}`)]),
+  );
+
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  addSummarySheet(workbook, rows, detailSheets);
+  addResultsSheet(workbook, rows, detailSheets);
+  reportLogProfiles(rows).forEach((profile) => addLogSheet(workbook, profile));
+  bySource.forEach((sourceRows, source) =>
+    addDetailSheet(workbook, detailSheets.get(source)!, source, sourceRows),
+  );
+
+  console.log("Built workbook:", {
+    sections: rows.length,
+    images: bySource.size,
+  });
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
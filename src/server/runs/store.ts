@@ -0,0 +1,203 @@
+import { randomUUID } from "crypto";
+import { readdir, readFile, rm } from "fs/promises";
+import path from "path";
+import { env } from "~/env";
+import { type DesignOptions } from "~/server/analysis/design";
+import {
+  type AnalysisStage,
+  type LogAnalysisResult,
+  type SectionGeometry,
+} from "~/server/analysis/logSection";
+import { type AnalysisOptions } from "~/server/analysis/options";
+import { decodeDataUrl, writeFileAtomic } from "~/server/jobs/store";
+
+export interface RunImage {
+  index: number;
+  filename: string;
+  mimeType: string;
+  sections: number; // Sections found, 0 when the image failed
+  // A request that never reached the server fails at the "request" stage
+  error?: { stage: AnalysisStage | "request"; message: string };
+  // Outlines edited by hand or imported, in pixels of the stored image
+  geometry?: { width: number; height: number; geometry: SectionGeometry };
+}
+
+export interface Run {
+  id: string;
+  name: string;
+  project: string;
+  createdAt: number;
+  updatedAt: number;
+  options: AnalysisOptions;
+  design: DesignOptions | null; // Beam check settings, when the check was on
+  stations: Record<string, { logId: string; stationMm: number | null }>; // By result filename
+  images: RunImage[];
+}
+
+// What changed about one image since the run was last saved
+export interface RunImageUpdate {
+  index: number;
+  filename: string;
+  data?: string; // The original upload as a data URL, sent only until it is stored
+  sections: LogAnalysisResult[];
+  error?: RunImage["error"];
+  geometry?: RunImage["geometry"];
+}
+
+// Each run gets a directory holding run.json, the original images and one result file per image,
+// processed images included. Runs are kept as files under DATA_DIR like background jobs, rather than
+// in an embedded database, so saving them needs no native module.
+const runsDir = () => path.join(env.DATA_DIR, "runs");
+const runDir = (runId: string) => path.join(runsDir(), runId);
+const runFile = (runId: string) => path.join(runDir(runId), "run.json");
+const imagePath = (runId: string, index: number) =>
+  path.join(runDir(runId), "images", String(index));
+const resultPath = (runId: string, index: number) =>
+  path.join(runDir(runId), "results", `${index}.json`);
+
+// Changes to the same run are chained so two saves never interleave their read and write of
+// run.json. Shared through globalThis like the job store's writes.
+const globalForRunStore = globalThis as unknown as {
+  pendingRunChanges: Map<string, Promise<unknown>> | undefined;
+};
+const pendingChanges = (globalForRunStore.pendingRunChanges ??= new Map<string, Promise<unknown>>());
+
+function withRun<T>(runId: string, change: () => Promise<T>): Promise<T> {
+  const result = (pendingChanges.get(runId) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(change);
+  pendingChanges.set(runId, result);
+  return result;
+}
+
+export async function loadRun(runId: string): Promise<Run> {
+  try {
+    return JSON.parse(await readFile(runFile(runId), "utf8")) as Run;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Run ${runId} not found`);
+    }
+    throw error;
+  }
+}
+
+export async function listRuns(): Promise<Run[]> {
+  let runIds: string[];
+  try {
+    runIds = await readdir(runsDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const runs: Run[] = [];
+  for (const runId of runIds) {
+    try {
+      runs.push(await loadRun(runId));
+    } catch (error) {
+      console.error(`Error loading run ${runId}:`, error);
+    }
+  }
+  return runs.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Create a run, or update the one with the given id. Only the images that changed need to be sent,
+ * and each one's original only until it has been stored; the settings are replaced as a whole.
+ */
+export function saveRun(input: {
+  runId?: string;
+  name: string;
+  project: string;
+  options: AnalysisOptions;
+  design: DesignOptions | null;
+  stations: Run["stations"];
+  imageCount: number; // Images are dropped past this, when a run shrinks
+  images: RunImageUpdate[];
+}): Promise<Run> {
+  const runId = input.runId ?? randomUUID();
+  return withRun(runId, async () => {
+    const now = Date.now();
+    const run: Run = input.runId
+      ? await loadRun(runId)
+      : {
+          id: runId,
+          name: input.name,
+          project: input.project,
+          createdAt: now,
+          updatedAt: now,
+          options: input.options,
+          design: null,
+          stations: {},
+          images: [],
+        };
+
+    // Store the files before the record so it never points at a missing one
+    for (const image of input.images) {
+      const stored = run.images.find((existing) => existing.index === image.index);
+      let mimeType = stored?.mimeType;
+      if (image.data) {
+        const decoded = decodeDataUrl(image.data);
+        await writeFileAtomic(imagePath(runId, image.index), decoded.buffer);
+        mimeType = decoded.mimeType;
+      }
+      if (!mimeType) throw new Error(`Image ${image.filename} of run ${runId} has not been uploaded`);
+      await writeFileAtomic(resultPath(runId, image.index), JSON.stringify(image.sections));
+
+      const record: RunImage = {
+        index: image.index,
+        filename: image.filename,
+        mimeType,
+        sections: image.sections.length,
+        error: image.error,
+        geometry: image.geometry,
+      };
+      run.images = [...run.images.filter((existing) => existing.index !== image.index), record];
+    }
+
+    for (const image of run.images.filter((image) => image.index >= input.imageCount)) {
+      await rm(imagePath(runId, image.index), { force: true });
+      await rm(resultPath(runId, image.index), { force: true });
+    }
+    run.images = run.images
+      .filter((image) => image.index < input.imageCount)
+      .sort((a, b) => a.index - b.index);
+    run.name = input.name;
+    run.project = input.project;
+    run.options = input.options;
+    run.design = input.design;
+    run.stations = input.stations;
+    run.updatedAt = now;
+    await writeFileAtomic(runFile(runId), JSON.stringify(run));
+    return run;
+  });
+}
+
+export function renameRun(runId: string, names: { name?: string; project?: string }): Promise<Run> {
+  return withRun(runId, async () => {
+    const run = await loadRun(runId);
+    run.name = names.name ?? run.name;
+    run.project = names.project ?? run.project;
+    run.updatedAt = Date.now();
+    await writeFileAtomic(runFile(runId), JSON.stringify(run));
+    return run;
+  });
+}
+
+export function deleteRun(runId: string): Promise<void> {
+  return withRun(runId, async () => {
+    await loadRun(runId);
+    await rm(runDir(runId), { recursive: true, force: true });
+  });
+}
+
+// The original upload of an image as a data URL
+export async function readRunImage(runId: string, image: RunImage): Promise<string> {
+  const buffer = await readFile(imagePath(runId, image.index));
+  return `data:${image.mimeType};base64,${buffer.toString("base64")}`;
+}
+
+export async function loadRunResult(runId: string, index: number): Promise<LogAnalysisResult[]> {
+  const data = await readFile(resultPath(runId, index), "utf8");
+  return JSON.parse(data) as LogAnalysisResult[];
+}